@@ -0,0 +1,477 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Copy, Upload, CheckCircle, AlertCircle, Loader2, Layers, FileSpreadsheet } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import { useCropBatchToken, MintParams } from '../hooks/useCropBatchToken';
+import { useInitializeProvenanceBatch } from '../hooks/useSupplyChainManager';
+import { uploadCropBatch } from '../utils/ipfs';
+import { getErrorMessage, generateId, validateCropBatchField } from '../utils';
+import { VALIDATION_LIMITS, CROP_CATEGORIES } from '../config/constants';
+import { convertCurrency } from './CurrencyDisplay';
+import HarvestImportWizard from './HarvestImportWizard';
+
+type PriceCurrency = 'ETH' | 'USD' | 'KES' | 'NGN';
+
+export type BatchRowStatus = 'draft' | 'uploading' | 'uploaded' | 'minted' | 'done' | 'failed';
+
+export interface BatchRow {
+  id: string;
+  name: string;
+  cropType: string;
+  quantity: string;
+  pricePerKg: string;
+  originFarm: string;
+  harvestDate: string;
+  location: string;
+  certifications: string;
+  notes: string;
+  imageFile: File | null;
+  status: BatchRowStatus;
+  metadataUri?: string;
+  tokenId?: number;
+  error?: string;
+}
+
+type BatchField = 'name' | 'cropType' | 'quantity' | 'pricePerKg' | 'originFarm' | 'harvestDate' | 'location' | 'certifications' | 'notes';
+
+const VALIDATED_FIELDS: BatchField[] = ['name', 'cropType', 'quantity', 'pricePerKg', 'originFarm', 'harvestDate'];
+
+// Helper function to create an empty row, optionally copying the shared fields of another
+export const createBatchRow = (from?: Partial<BatchRow>): BatchRow => ({
+  id: generateId(),
+  name: '',
+  cropType: from?.cropType || '',
+  quantity: '',
+  pricePerKg: from?.pricePerKg || '',
+  originFarm: from?.originFarm || '',
+  harvestDate: from?.harvestDate || '',
+  location: from?.location || '',
+  certifications: from?.certifications || '',
+  notes: '',
+  imageFile: null,
+  status: 'draft',
+});
+
+// Helper function to list a row's validation errors by field
+export const getBatchRowErrors = (row: BatchRow): Partial<Record<BatchField | 'imageFile', string>> => {
+  const errors: Partial<Record<BatchField | 'imageFile', string>> = {};
+  VALIDATED_FIELDS.forEach(field => {
+    const error = validateCropBatchField(field, row[field]);
+    if (error) errors[field] = error;
+  });
+
+  if (!row.imageFile) {
+    errors.imageFile = 'Image file is required.';
+  } else if (!row.imageFile.type.startsWith('image/')) {
+    errors.imageFile = 'Please select a valid image file.';
+  } else if (row.imageFile.size > VALIDATION_LIMITS.MAX_IMAGE_SIZE_BYTES) {
+    errors.imageFile = `Image file must be less than ${VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB}MB.`;
+  }
+
+  return errors;
+};
+
+// Helper function to tell whether a row is still the untouched placeholder
+const isBlankRow = (row: BatchRow): boolean =>
+  row.status === 'draft' && !row.name && !row.quantity && !row.imageFile;
+
+const STATUS_LABELS: Record<BatchRowStatus, string> = {
+  draft: 'Ready',
+  uploading: 'Uploading...',
+  uploaded: 'Uploaded',
+  minted: 'Minted',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+/**
+ * Batch Tokenization Grid
+ *
+ * Tokenizes many crop batches at once: every row is uploaded to IPFS in
+ * parallel, then the batches are minted in chunks of the contract's
+ * MAX_BATCH_SIZE and provenance is initialized for each new token.
+ * Rows remember how far they got, so running again after a failure
+ * only repeats the steps that did not complete.
+ */
+const BatchTokenizationGrid: React.FC = () => {
+  const { account } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const { mintNewBatches, maxBatchSize } = useCropBatchToken();
+  const { writeAsync: initializeProvenanceBatch } = useInitializeProvenanceBatch();
+
+  const [rows, setRows] = useState<BatchRow[]>([createBatchRow()]);
+  const [priceCurrency, setPriceCurrency] = useState<PriceCurrency>('KES');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [showErrors, setShowErrors] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const updateRow = (id: string, update: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...update } : row)));
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, createBatchRow(prev[prev.length - 1])]);
+  };
+
+  const duplicateRow = (row: BatchRow) => {
+    setRows(prev => {
+      const index = prev.findIndex(item => item.id === row.id);
+      const copy = { ...createBatchRow(row), name: row.name, quantity: row.quantity, notes: row.notes };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const removeRow = (id: string) => {
+    setRows(prev => (prev.length > 1 ? prev.filter(row => row.id !== id) : prev));
+  };
+
+  // Helper function to turn a row into upload parameters
+  const toUploadParams = (row: BatchRow) => {
+    const harvestDate = Math.floor(new Date(row.harvestDate).getTime() / 1000);
+    return {
+      name: row.name,
+      description: `${row.cropType} batch from ${row.originFarm}`,
+      imageFile: row.imageFile!,
+      cropType: row.cropType,
+      quantity: parseInt(row.quantity),
+      pricePerKg: convertCurrency(parseFloat(row.pricePerKg), priceCurrency, 'ETH'),
+      originFarm: row.originFarm,
+      harvestDate,
+      notes: row.notes,
+      certifications: row.certifications ? row.certifications.split(',').map(c => c.trim()).filter(Boolean) : undefined,
+      location: row.location ? { address: row.location } : undefined,
+    };
+  };
+
+  const handleTokenize = async (source: BatchRow[] = rows) => {
+    if (!account) {
+      addToast('Please connect your wallet.', 'warning');
+      return;
+    }
+
+    const pending = source.filter(row => row.status !== 'done');
+    if (pending.length === 0) {
+      addToast('Every batch in the grid is already tokenized.', 'info');
+      return;
+    }
+
+    const invalid = pending.filter(row => !row.metadataUri && Object.keys(getBatchRowErrors(row)).length > 0);
+    if (invalid.length > 0) {
+      setShowErrors(true);
+      addToast(`Please correct ${invalid.length} row(s) with errors before tokenizing.`, 'error');
+      return;
+    }
+
+    setIsRunning(true);
+    // Rows are tracked locally too, since state updates land after this handler reads them
+    const current = new Map(pending.map(row => [row.id, { ...row, error: undefined }]));
+    const apply = (id: string, update: Partial<BatchRow>) => {
+      current.set(id, { ...current.get(id)!, ...update });
+      updateRow(id, update);
+    };
+
+    try {
+      // 1. Upload images and metadata for every row that has not been uploaded, in parallel
+      const toUpload = pending.filter(row => !row.metadataUri);
+      if (toUpload.length > 0) {
+        setProgress(`Uploading ${toUpload.length} batch(es) to IPFS...`);
+        await Promise.all(toUpload.map(async row => {
+          apply(row.id, { status: 'uploading', error: undefined });
+          try {
+            const { metadataUri } = await uploadCropBatch(toUploadParams(row));
+            apply(row.id, { status: 'uploaded', metadataUri });
+          } catch (error) {
+            apply(row.id, { status: 'failed', error: `Upload failed: ${getErrorMessage(error)}` });
+          }
+        }));
+      }
+
+      // 2. Mint the uploaded rows, chunked to MAX_BATCH_SIZE
+      const toMint = Array.from(current.values()).filter(row => row.metadataUri && row.tokenId === undefined);
+      if (toMint.length > 0) {
+        setProgress(`Minting ${toMint.length} batch(es) in chunks of up to ${maxBatchSize ?? 1}...`);
+        const batches: MintParams[] = toMint.map(row => {
+          const params = toUploadParams(row);
+          return {
+            to: account,
+            cropType: params.cropType,
+            quantity: params.quantity,
+            originFarm: params.originFarm,
+            harvestDate: params.harvestDate,
+            notes: params.notes,
+            metadataUri: row.metadataUri!,
+          };
+        });
+
+        try {
+          await mintNewBatches(batches, minted => {
+            // Each row has its own metadata URI, so the minted batch is matched to its row by it
+            minted.forEach(batch => {
+              const row = toMint.find(candidate =>
+                candidate.metadataUri === batch.metadataUri && current.get(candidate.id)!.tokenId === undefined
+              );
+              if (row) apply(row.id, { status: 'minted', tokenId: batch.tokenId });
+            });
+            const mintedCount = toMint.filter(row => current.get(row.id)!.tokenId !== undefined).length;
+            setProgress(`Minted ${mintedCount} of ${toMint.length} batch(es)...`);
+          });
+        } catch (error) {
+          toMint
+            .filter(row => current.get(row.id)!.tokenId === undefined)
+            .forEach(row => apply(row.id, { status: 'failed', error: `Mint failed: ${getErrorMessage(error)}` }));
+        }
+      }
+
+      // 3. Initialize provenance for every minted token that does not have it yet
+      const toInitialize = Array.from(current.values()).filter(row => row.tokenId !== undefined && row.status !== 'done');
+      const chunkSize = Math.max(1, maxBatchSize ?? 1);
+      let initialized = 0;
+      for (let start = 0; start < toInitialize.length; start += chunkSize) {
+        const chunk = toInitialize.slice(start, start + chunkSize);
+        setProgress(`Initializing provenance for ${initialized + 1}-${initialized + chunk.length} of ${toInitialize.length}...`);
+        let confirmed = 0;
+        try {
+          await initializeProvenanceBatch(
+            chunk.map(row => ({
+              tokenId: BigInt(row.tokenId!),
+              farmer: account,
+              location: row.location || row.originFarm,
+              notes: `Initial production at ${row.originFarm}. ${row.notes || 'No additional notes.'}`,
+            })),
+            (_hash, callCount) => {
+              chunk.slice(confirmed, confirmed + callCount).forEach(row => apply(row.id, { status: 'done', error: undefined }));
+              confirmed += callCount;
+            }
+          );
+        } catch (error) {
+          chunk.slice(confirmed).forEach(row =>
+            apply(row.id, { status: 'failed', error: `Minted as #${row.tokenId}, but provenance failed: ${getErrorMessage(error)}` })
+          );
+        }
+        initialized += chunk.length;
+      }
+
+      const results = Array.from(current.values());
+      const done = results.filter(row => row.status === 'done');
+      const failed = results.filter(row => row.status === 'failed');
+
+      if (failed.length === 0) {
+        addToast(`${done.length} crop batch(es) tokenized with provenance initialized.`, 'success', 10000);
+      } else {
+        addToast(`${done.length} batch(es) tokenized, ${failed.length} failed. Run again to retry the failed rows.`, 'warning', 10000);
+      }
+    } finally {
+      setIsRunning(false);
+      setProgress('');
+    }
+  };
+
+  // Imported rows join the grid and are minted straight away; rows already in the grid are left for the next run
+  const handleImport = (imported: BatchRow[]) => {
+    setShowImport(false);
+    setRows(prev => [...prev.filter(row => !isBlankRow(row)), ...imported]);
+    handleTokenize(imported);
+  };
+
+  const clearCompleted = () => {
+    setRows(prev => {
+      const remaining = prev.filter(row => row.status !== 'done');
+      return remaining.length > 0 ? remaining : [createBatchRow()];
+    });
+    setShowErrors(false);
+  };
+
+  const pendingCount = rows.filter(row => row.status !== 'done').length;
+  const inputClass = 'w-full px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-green-500 focus:border-green-500';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Layers className="h-5 w-5 text-green-600" />
+            Multiple Batches
+          </h2>
+          <p className="text-sm text-gray-600">
+            One row per batch. Batches are minted {maxBatchSize ? `up to ${maxBatchSize} at a time` : 'in chunks'}.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Prices in</label>
+          <select
+            value={priceCurrency}
+            onChange={(e) => setPriceCurrency(e.target.value as PriceCurrency)}
+            disabled={isRunning}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          >
+            <option value="KES">KSh (KES)</option>
+            <option value="NGN">₦ (NGN)</option>
+            <option value="USD">$ (USD)</option>
+            <option value="ETH">Ξ (ETH)</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Name *', 'Crop Type *', 'Qty (kg) *', 'Price/kg *', 'Origin Farm *', 'Harvest Date *', 'Location', 'Certifications', 'Notes', 'Image *', 'Status', ''].map(header => (
+                <th key={header} className="px-2 py-2 text-left font-medium text-gray-500 whitespace-nowrap">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(row => {
+              const errors = showErrors && !row.metadataUri ? getBatchRowErrors(row) : {};
+              const locked = isRunning || row.metadataUri !== undefined;
+              const fieldClass = (field: BatchField | 'imageFile') =>
+                `${inputClass} ${errors[field] ? 'border-red-400 bg-red-50' : 'border-gray-300'}`;
+
+              return (
+                <tr key={row.id} className={row.status === 'done' ? 'bg-green-50' : row.status === 'failed' ? 'bg-red-50' : ''}>
+                  <td className="px-2 py-2 min-w-[140px]">
+                    <input type="text" value={row.name} title={errors.name} disabled={locked}
+                      onChange={(e) => updateRow(row.id, { name: e.target.value })} className={fieldClass('name')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[130px]">
+                    <select value={row.cropType} title={errors.cropType} disabled={locked}
+                      onChange={(e) => updateRow(row.id, { cropType: e.target.value })} className={fieldClass('cropType')}>
+                      <option value="">Select</option>
+                      {CROP_CATEGORIES.map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2 min-w-[80px]">
+                    <input type="number" value={row.quantity} title={errors.quantity} disabled={locked}
+                      min={VALIDATION_LIMITS.MIN_QUANTITY_KG} max={VALIDATION_LIMITS.MAX_QUANTITY_KG}
+                      onChange={(e) => updateRow(row.id, { quantity: e.target.value })} className={fieldClass('quantity')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[90px]">
+                    <input type="number" value={row.pricePerKg} title={errors.pricePerKg} disabled={locked} step="0.01" min="0"
+                      onChange={(e) => updateRow(row.id, { pricePerKg: e.target.value })} className={fieldClass('pricePerKg')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[140px]">
+                    <input type="text" value={row.originFarm} title={errors.originFarm} disabled={locked}
+                      onChange={(e) => updateRow(row.id, { originFarm: e.target.value })} className={fieldClass('originFarm')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[140px]">
+                    <input type="date" value={row.harvestDate} title={errors.harvestDate} disabled={locked}
+                      onChange={(e) => updateRow(row.id, { harvestDate: e.target.value })} className={fieldClass('harvestDate')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[120px]">
+                    <input type="text" value={row.location} disabled={locked}
+                      onChange={(e) => updateRow(row.id, { location: e.target.value })} className={fieldClass('location')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[120px]">
+                    <input type="text" value={row.certifications} disabled={locked} placeholder="Comma separated"
+                      onChange={(e) => updateRow(row.id, { certifications: e.target.value })} className={fieldClass('certifications')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[140px]">
+                    <input type="text" value={row.notes} disabled={locked}
+                      onChange={(e) => updateRow(row.id, { notes: e.target.value })} className={fieldClass('notes')} />
+                  </td>
+                  <td className="px-2 py-2 min-w-[130px]">
+                    <label
+                      title={errors.imageFile}
+                      className={`flex items-center gap-1 px-2 py-1.5 text-xs border border-dashed rounded ${
+                        locked ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer hover:border-green-500'
+                      } ${errors.imageFile ? 'border-red-400 bg-red-50 text-red-700' : 'border-gray-300 text-gray-600'}`}
+                    >
+                      <Upload className="h-3 w-3 flex-shrink-0" />
+                      <span className="truncate max-w-[100px]">{row.imageFile ? row.imageFile.name : 'Choose image'}</span>
+                      <input type="file" accept="image/*" className="hidden" disabled={locked}
+                        onChange={(e) => updateRow(row.id, { imageFile: e.target.files?.[0] || null })} />
+                    </label>
+                  </td>
+                  <td className="px-2 py-2 whitespace-nowrap">
+                    <span
+                      title={row.error || (showErrors ? Object.values(errors).join(' ') : undefined)}
+                      className={`flex items-center gap-1 text-xs font-medium ${
+                        row.status === 'done' ? 'text-green-700' : row.status === 'failed' ? 'text-red-700' : 'text-gray-600'
+                      }`}
+                    >
+                      {row.status === 'done' && <CheckCircle className="h-3 w-3" />}
+                      {row.status === 'failed' && <AlertCircle className="h-3 w-3" />}
+                      {row.status === 'uploading' && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {STATUS_LABELS[row.status]}
+                      {row.tokenId !== undefined && ` #${row.tokenId}`}
+                    </span>
+                    {row.error && <p className="text-xs text-red-600 max-w-[200px] whitespace-normal">{row.error}</p>}
+                  </td>
+                  <td className="px-2 py-2 whitespace-nowrap">
+                    <button onClick={() => duplicateRow(row)} disabled={isRunning} title="Duplicate row"
+                      className="p-1 text-gray-400 hover:text-green-600 disabled:opacity-50">
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => removeRow(row.id)} disabled={isRunning || rows.length === 1 || (row.tokenId !== undefined && row.status !== 'done')}
+                      title="Remove row" className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {progress && (
+        <p className="text-sm text-blue-800 flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {progress}
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-between gap-3">
+        <div className="flex gap-2">
+          <button
+            onClick={addRow}
+            disabled={isRunning}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-green-700 border border-green-200 rounded-lg hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Add Row
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={isRunning}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-green-700 border border-green-200 rounded-lg hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            Import CSV
+          </button>
+          {rows.some(row => row.status === 'done') && (
+            <button
+              onClick={clearCompleted}
+              disabled={isRunning}
+              className="px-3 py-2 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Clear Completed
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => handleTokenize()}
+          disabled={isRunning || pendingCount === 0}
+          className="flex items-center justify-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+          {isRunning ? 'Tokenizing...' : `Tokenize ${pendingCount} Batch${pendingCount === 1 ? '' : 'es'}`}
+        </button>
+      </div>
+
+      {showImport && (
+        <HarvestImportWizard
+          priceCurrency={priceCurrency}
+          onImport={handleImport}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BatchTokenizationGrid;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Form, Input, InputNumber, Button, Table, Tag, Typography, Alert, message } from 'antd';
+import { SendOutlined, UserOutlined, EnvironmentOutlined } from '@ant-design/icons';
+import { useAccount, usePublicClient } from 'wagmi';
+import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { useTransferWithProvenanceBatch, getStateLabel, getStateColor } from '../hooks/useSupplyChainManager';
+import { getErrorMessage } from '../utils';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+export interface BatchTransferToken {
+  tokenId: number;
+  name?: string;
+  cropType: string;
+  balance: number; // Connected wallet's share of the batch
+  currentState: number;
+  hasProvenance?: boolean; // Tracked tokens move through the supply chain, like a single-token transfer
+}
+
+interface BatchTransferFormProps {
+  tokens: BatchTransferToken[];
+  loading: boolean;
+  onTransferred: () => void;
+}
+
+/**
+ * Batch Transfer Form
+ *
+ * Sends several batches to one recipient. Untracked tokens go out in a single
+ * safeBatchTransferFrom with a quantity per token; tokens tracked in the supply
+ * chain go through transferWithProvenance, which moves them and records the
+ * step, just as the single-token form does.
+ */
+const BatchTransferForm: React.FC<BatchTransferFormProps> = ({ tokens, loading, onTransferred }) => {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const [form] = Form.useForm();
+  const { transferTokens, triggerRefresh } = useCropBatchToken();
+  const { writeAsync: transferTracked } = useTransferWithProvenanceBatch();
+
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [progress, setProgress] = useState('');
+
+  const handleSelect = (keys: React.Key[]) => {
+    const ids = keys.map(key => Number(key));
+    setSelectedIds(ids);
+    // Newly selected tokens default to the whole holding
+    setQuantities(prev => Object.fromEntries(ids.map(tokenId => [
+      tokenId,
+      prev[tokenId] ?? tokens.find(token => token.tokenId === tokenId)?.balance ?? 0,
+    ])));
+  };
+
+  const handleTransfer = async (values: any) => {
+    if (!address || !publicClient) {
+      message.error('Please ensure wallet is connected');
+      return;
+    }
+
+    if (selectedIds.length === 0) {
+      message.error('Select at least one token to transfer');
+      return;
+    }
+
+    const selected = tokens.filter(token => selectedIds.includes(token.tokenId));
+    const direct = selected
+      .filter(token => !token.hasProvenance)
+      .map(token => ({ tokenId: token.tokenId, amount: quantities[token.tokenId] ?? 0 }));
+    const tracked = selected.filter(token => token.hasProvenance);
+
+    try {
+      setSubmitting(true);
+      let transferred = 0;
+
+      if (direct.length > 0) {
+        setProgress(`Transferring ${direct.length} tokens...`);
+        const hash = await transferTokens({ from: address, to: values.recipientAddress, transfers: direct });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Batch transfer reverted');
+        }
+        transferred += direct.length;
+      }
+
+      if (tracked.length > 0) {
+        setProgress(`Transferring ${tracked.length} tracked tokens through the supply chain...`);
+        try {
+          await transferTracked(
+            tracked.map(token => ({
+              tokenId: BigInt(token.tokenId),
+              from: address,
+              to: values.recipientAddress,
+              location: values.location || '',
+              notes: values.notes || '',
+            })),
+            (_hash, callCount) => {
+              transferred += callCount;
+            }
+          );
+        } catch (error) {
+          // Tokens already sent stay sent, so report what went through rather than failing outright
+          if (transferred === 0) throw error;
+          console.error('Supply chain transfer failed:', error);
+          message.warning(`${transferred} of ${selected.length} tokens were transferred; the rest failed: ${getErrorMessage(error)}`);
+        }
+      }
+
+      if (transferred === selected.length) {
+        message.success(`Transferred ${transferred} tokens`);
+      }
+
+      form.resetFields();
+      setSelectedIds([]);
+      setQuantities({});
+      triggerRefresh();
+      onTransferred();
+    } catch (error) {
+      console.error('Batch transfer failed:', error);
+      message.error(`Batch transfer failed: ${getErrorMessage(error)}`);
+    } finally {
+      setSubmitting(false);
+      setProgress('');
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Token',
+      key: 'token',
+      render: (_: any, token: BatchTransferToken) => (
+        <Text><strong>#{token.tokenId}</strong> {token.name || `${token.cropType} Batch`}</Text>
+      ),
+    },
+    {
+      title: 'State',
+      dataIndex: 'currentState',
+      key: 'currentState',
+      render: (state: number) => <Tag color={getStateColor(state)}>{getStateLabel(state)}</Tag>,
+    },
+    {
+      title: 'Your Balance',
+      dataIndex: 'balance',
+      key: 'balance',
+      render: (balance: number) => `${balance} kg`,
+    },
+    {
+      title: 'Quantity (kg)',
+      key: 'quantity',
+      render: (_: any, token: BatchTransferToken) => token.hasProvenance ? (
+        <Tag color="green">Whole holding · supply chain</Tag>
+      ) : (
+        <InputNumber
+          min={1}
+          max={token.balance}
+          precision={0}
+          value={quantities[token.tokenId]}
+          disabled={!selectedIds.includes(token.tokenId) || submitting}
+          onChange={(value) => setQuantities(prev => ({ ...prev, [token.tokenId]: Number(value) || 0 }))}
+        />
+      ),
+    },
+  ];
+
+  return (
+    <Form form={form} layout="vertical" onFinish={handleTransfer} size="large">
+      <Table
+        columns={columns}
+        dataSource={tokens}
+        rowKey={(token) => token.tokenId.toString()}
+        loading={loading}
+        pagination={false}
+        size="small"
+        rowSelection={{
+          selectedRowKeys: selectedIds.map(tokenId => tokenId.toString()),
+          onChange: handleSelect,
+          getCheckboxProps: () => ({ disabled: submitting }),
+        }}
+        style={{ marginBottom: '16px' }}
+      />
+
+      <Form.Item
+        label="Recipient Address"
+        name="recipientAddress"
+        rules={[
+          { required: true, message: 'Please enter recipient address' },
+          { pattern: /^0x[a-fA-F0-9]{40}$/, message: 'Please enter a valid Ethereum address' }
+        ]}
+      >
+        <Input prefix={<UserOutlined />} placeholder="0x..." />
+      </Form.Item>
+
+      <Form.Item label="Transfer Location" name="location">
+        <Input prefix={<EnvironmentOutlined />} placeholder="Location where transfer takes place" />
+      </Form.Item>
+
+      <Form.Item label="Transfer Notes" name="notes">
+        <TextArea placeholder="Recorded in the provenance of every tracked token" rows={3} />
+      </Form.Item>
+
+      {progress && <Alert message={progress} type="info" showIcon style={{ marginBottom: '16px' }} />}
+
+      <Form.Item>
+        <Button
+          type="primary"
+          htmlType="submit"
+          loading={submitting}
+          disabled={selectedIds.length === 0}
+          size="large"
+          icon={<SendOutlined />}
+          block
+        >
+          {selectedIds.length > 0 ? `Transfer ${selectedIds.length} Tokens` : 'Select Tokens to Transfer'}
+        </Button>
+      </Form.Item>
+    </Form>
+  );
+};
+
+export default BatchTransferForm;
@@ -1,16 +1,86 @@
-import React, { useState } from 'react';
-import { ShoppingCart, CreditCard, Package, Calendar, MapPin, Scale, Trash2, ChevronDown, ChevronUp, CheckCircle, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { usePublicClient } from 'wagmi';
+import { formatEther } from 'viem';
+import { ShoppingCart, CreditCard, Package, Calendar, MapPin, Scale, Trash2, ChevronDown, ChevronUp, CheckCircle, AlertCircle, XCircle, Clock, Truck, Snowflake } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
 import { useToast } from '../contexts/ToastContext';
 import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useCreateOrder, useSelectTransporter, useProcessPayment, getOrderIdFromReceipt, Order } from '../hooks/useOrderManager';
+import { useMarketplaceListings } from '../hooks/useMarketplace';
+import { useTransportQuote, CheckoutQuote } from '../hooks/useTransportQuote';
+import { CONTRACT_ADDRESSES } from '../config/constants';
+import OrderManagerABI from '../contracts/OrderManager.json';
 import { ipfsToHttp } from '../utils/ipfs';
+import { getErrorMessage, formatAddress } from '../utils';
+import CurrencyDisplay from './CurrencyDisplay';
+
+type CheckoutItemStatus = 'pending' | 'creating' | 'assigning' | 'paying' | 'completed' | 'failed';
+
+interface CheckoutItemProgress {
+  name: string;
+  status: CheckoutItemStatus;
+  orderId?: string;
+  error?: string;
+}
+
+const CHECKOUT_STATUS_LABELS: Record<CheckoutItemStatus, string> = {
+  pending: 'Waiting',
+  creating: 'Creating order...',
+  assigning: 'Booking transporter...',
+  paying: 'Processing payment...',
+  completed: 'Order placed',
+  failed: 'Failed',
+};
+
+// Default requested delivery date: one week from today
+const getDefaultDeliveryDate = () => {
+  const date = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  return date.toISOString().split('T')[0];
+};
 
 const CartCheckoutSection: React.FC = () => {
   const { items, totalItems, removeFromCart, clearCart } = useCart();
   const { addToast } = useToast();
   const { account, isConnected } = useWeb3Enhanced();
+  const publicClient = usePublicClient();
+  const { writeAsync: createOrder } = useCreateOrder();
+  const { writeAsync: selectTransporter } = useSelectTransporter();
+  const { writeAsync: processPayment } = useProcessPayment();
+  const { getQuote, isLoading: isQuoting } = useTransportQuote();
+  const { getListingsByIds } = useMarketplaceListings();
   const [isExpanded, setIsExpanded] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [deliveryLocation, setDeliveryLocation] = useState('');
+  const [requestedDeliveryDate, setRequestedDeliveryDate] = useState(getDefaultDeliveryDate());
+  const [itemProgress, setItemProgress] = useState<Record<number, CheckoutItemProgress>>({});
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [selectedTransporters, setSelectedTransporters] = useState<Record<number, string>>({});
+  const [fallbackDistanceKm, setFallbackDistanceKm] = useState('');
+  const [useGeocoding, setUseGeocoding] = useState(false);
+
+  // A quote is only valid for the cart and address it was calculated for
+  useEffect(() => {
+    setQuote(null);
+  }, [items, deliveryLocation, fallbackDistanceKm, useGeocoding]);
+
+  const getItemTransportCost = (tokenId: number): bigint => {
+    const itemQuote = quote?.items.find(q => q.tokenId === tokenId);
+    const option = itemQuote?.options.find(o => o.transporter === selectedTransporters[tokenId]);
+    return option ? option.transportCost : 0n;
+  };
+
+  const quoteTotals = quote ? quote.items.reduce(
+    (totals, itemQuote) => {
+      const transportCost = getItemTransportCost(itemQuote.tokenId);
+      return {
+        cropCost: totals.cropCost + itemQuote.cropCost,
+        transportCost: totals.transportCost + transportCost,
+        marketplaceFee: totals.marketplaceFee + itemQuote.marketplaceFee,
+        total: totals.total + itemQuote.cropCost + transportCost + itemQuote.marketplaceFee,
+      };
+    },
+    { cropCost: 0n, transportCost: 0n, marketplaceFee: 0n, total: 0n }
+  ) : null;
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleDateString('en-US', {
@@ -26,6 +96,42 @@ const CartCheckoutSection: React.FC = () => {
     return `https://placehold.co/60x60/${color}/000000?text=${encodeURIComponent(cropType || 'Crop')}`;
   };
 
+  const handleGetQuote = async () => {
+    if (!deliveryLocation.trim()) {
+      addToast('Please enter a delivery location', 'warning');
+      return;
+    }
+
+    const distance = parseFloat(fallbackDistanceKm);
+    const result = await getQuote(items, deliveryLocation, isNaN(distance) || distance <= 0 ? undefined : distance, useGeocoding);
+    if (!result) {
+      addToast('Failed to calculate a delivery quote. Please try again.', 'error');
+      return;
+    }
+
+    // Preselect the cheapest transporter for each item
+    setSelectedTransporters(
+      Object.fromEntries(result.items.map(itemQuote => [itemQuote.tokenId, itemQuote.options[0]?.transporter || '']))
+    );
+    setQuote(result);
+
+    if (result.items.some(itemQuote => itemQuote.distanceKm === null)) {
+      addToast(
+        useGeocoding
+          ? 'Some locations could not be found. Enter an estimated distance to compare transporters.'
+          : 'Enter an estimated distance, or allow the address lookup, to compare transporters.',
+        'warning'
+      );
+    }
+  };
+
+  const updateItemProgress = (tokenId: number, update: Partial<CheckoutItemProgress>) => {
+    setItemProgress(prev => ({
+      ...prev,
+      [tokenId]: { ...prev[tokenId], ...update },
+    }));
+  };
+
   const handleCheckout = async () => {
     if (!isConnected || !account) {
       addToast('Please connect your wallet to proceed with checkout', 'warning');
@@ -37,18 +143,140 @@ const CartCheckoutSection: React.FC = () => {
       return;
     }
 
+    if (!deliveryLocation.trim()) {
+      addToast('Please enter a delivery location', 'warning');
+      return;
+    }
+
+    if (!publicClient) {
+      addToast('Blockchain client not available. Please try again.', 'error');
+      return;
+    }
+
     setIsProcessing(true);
-    
-    try {
-      // Simulate checkout process
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      addToast(`Successfully initiated purchase for ${totalItems} crop batch${totalItems !== 1 ? 'es' : ''}!`, 'success');
+
+    // Snapshot the cart so removals during checkout don't affect the loop
+    const checkoutItems = [...items];
+    setItemProgress(
+      Object.fromEntries(
+        checkoutItems.map(item => [item.tokenId, { name: item.name, status: 'pending' as CheckoutItemStatus }])
+      )
+    );
+
+    // Sub-lot quantities are checked against what each listing has left right now
+    const listings = await getListingsByIds(
+      checkoutItems.filter(item => item.listingId).map(item => BigInt(item.listingId!))
+    );
+    const availableByListing = new Map(listings.map(listing => [Number(listing.listingId), listing.quantityAvailable]));
+
+    const deliveryTimestamp = BigInt(Math.floor(new Date(requestedDeliveryDate).getTime() / 1000));
+    const succeeded: number[] = [];
+    const failed: number[] = [];
+
+    for (const item of checkoutItems) {
+      try {
+        if (!item.listingId) {
+          throw new Error('This batch is not listed for sale on the marketplace');
+        }
+
+        const available = availableByListing.get(item.listingId);
+        if (available !== undefined && BigInt(item.quantity) > available) {
+          throw new Error(`Only ${available.toString()} kg of this batch is still available`);
+        }
+
+        updateItemProgress(item.tokenId, { status: 'creating' });
+
+        const createHash = await createOrder({
+          listingId: BigInt(item.listingId),
+          quantity: BigInt(item.quantity),
+          deliveryLocation: deliveryLocation.trim(),
+          requestedDeliveryDate: deliveryTimestamp,
+        });
+
+        const createReceipt = await publicClient.waitForTransactionReceipt({ hash: createHash });
+        if (createReceipt.status !== 'success') {
+          throw new Error('Order creation transaction reverted');
+        }
+
+        const orderId = getOrderIdFromReceipt(createReceipt);
+        if (orderId === null) {
+          throw new Error('Order was created but its ID could not be read from the receipt');
+        }
+
+        // Book the quoted transporter so the escrowed amount covers delivery
+        const itemQuote = quote?.items.find(q => q.tokenId === item.tokenId);
+        const transportOption = itemQuote?.options.find(o => o.transporter === selectedTransporters[item.tokenId]);
+        if (transportOption) {
+          updateItemProgress(item.tokenId, { status: 'assigning', orderId: orderId.toString() });
+
+          const selectHash = await selectTransporter({
+            orderId,
+            transporter: transportOption.transporter,
+            transportPrice: transportOption.transportCost,
+          });
+
+          const selectReceipt = await publicClient.waitForTransactionReceipt({ hash: selectHash });
+          if (selectReceipt.status !== 'success') {
+            throw new Error('Transporter selection transaction reverted');
+          }
+        }
+
+        const order = await publicClient.readContract({
+          address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+          abi: OrderManagerABI,
+          functionName: 'getOrder',
+          args: [orderId],
+        }) as Order;
+
+        updateItemProgress(item.tokenId, { status: 'paying', orderId: orderId.toString() });
+
+        const paymentHash = await processPayment({
+          orderId,
+          value: order.totalAmount,
+        });
+
+        const paymentReceipt = await publicClient.waitForTransactionReceipt({ hash: paymentHash });
+        if (paymentReceipt.status !== 'success') {
+          throw new Error('Payment transaction reverted');
+        }
+
+        updateItemProgress(item.tokenId, { status: 'completed' });
+        succeeded.push(item.tokenId);
+      } catch (error) {
+        console.error(`Checkout failed for batch ${item.tokenId}:`, error);
+        updateItemProgress(item.tokenId, { status: 'failed', error: getErrorMessage(error) });
+        failed.push(item.tokenId);
+      }
+    }
+
+    // Only purchased batches leave the cart; failed ones stay so they can be retried
+    if (failed.length === 0) {
       clearCart();
-    } catch (error) {
-      addToast('Checkout failed. Please try again.', 'error');
-    } finally {
-      setIsProcessing(false);
+      addToast(`Successfully ordered ${succeeded.length} crop batch${succeeded.length !== 1 ? 'es' : ''}! Track delivery under My Orders.`, 'success');
+    } else {
+      succeeded.forEach(tokenId => removeFromCart(tokenId));
+      if (succeeded.length > 0) {
+        addToast(`${succeeded.length} order${succeeded.length !== 1 ? 's' : ''} placed, ${failed.length} failed. Failed items remain in your cart.`, 'warning');
+      } else {
+        addToast('Checkout failed. No orders were placed.', 'error');
+      }
+    }
+
+    setIsProcessing(false);
+  };
+
+  const getProgressIcon = (status: CheckoutItemStatus) => {
+    switch (status) {
+      case 'completed':
+        return <CheckCircle className="h-4 w-4 text-green-600" />;
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-red-600" />;
+      case 'creating':
+      case 'assigning':
+      case 'paying':
+        return <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600"></div>;
+      default:
+        return <Clock className="h-4 w-4 text-gray-400" />;
     }
   };
 
@@ -176,11 +404,214 @@ const CartCheckoutSection: React.FC = () => {
           </div>
         )}
 
+        {/* Delivery Details */}
+        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="deliveryLocation" className="block text-sm font-medium text-gray-700 mb-1">
+              Delivery Location
+            </label>
+            <div className="relative">
+              <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                id="deliveryLocation"
+                type="text"
+                value={deliveryLocation}
+                onChange={(e) => setDeliveryLocation(e.target.value)}
+                disabled={isProcessing}
+                placeholder="e.g., Nairobi, Kenya"
+                className="w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="requestedDeliveryDate" className="block text-sm font-medium text-gray-700 mb-1">
+              Requested Delivery Date
+            </label>
+            <div className="relative">
+              <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                id="requestedDeliveryDate"
+                type="date"
+                value={requestedDeliveryDate}
+                min={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setRequestedDeliveryDate(e.target.value)}
+                disabled={isProcessing}
+                className="w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Delivery Quote */}
+        <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1">
+              <label htmlFor="fallbackDistanceKm" className="block text-sm font-medium text-gray-700 mb-1">
+                Estimated Distance (km)
+              </label>
+              <input
+                id="fallbackDistanceKm"
+                type="number"
+                min="1"
+                value={fallbackDistanceKm}
+                onChange={(e) => setFallbackDistanceKm(e.target.value)}
+                disabled={isProcessing}
+                placeholder="Used when addresses aren't looked up or can't be found"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+            <button
+              onClick={handleGetQuote}
+              disabled={isQuoting || isProcessing || !deliveryLocation.trim()}
+              className="px-4 py-2 text-sm bg-white border border-green-600 text-green-700 rounded-lg hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+            >
+              <Truck className="h-4 w-4" />
+              {isQuoting ? 'Calculating...' : quote ? 'Recalculate Quote' : 'Get Delivery Quote'}
+            </button>
+          </div>
+
+          <label className="mt-3 flex items-start gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={useGeocoding}
+              onChange={(e) => setUseGeocoding(e.target.checked)}
+              disabled={isProcessing}
+              className="mt-0.5 rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            <span>
+              Estimate the distance from the addresses. Your delivery location and the farm addresses are sent
+              to OpenStreetMap's public Nominatim service to find them on the map.
+            </span>
+          </label>
+
+          {quote && quoteTotals && (
+            <div className="mt-4 space-y-4">
+              {quote.items.map(itemQuote => {
+                const transportCost = getItemTransportCost(itemQuote.tokenId);
+                return (
+                  <div key={itemQuote.tokenId} className="p-3 bg-white border border-gray-200 rounded-lg space-y-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900 truncate">{itemQuote.name}</span>
+                      <span className="text-xs text-gray-500 flex items-center gap-1">
+                        {itemQuote.isPerishable && <Snowflake className="h-3 w-3 text-blue-500" />}
+                        {itemQuote.quantity} kg{itemQuote.distanceKm !== null && ` · ~${itemQuote.distanceKm} km`}
+                      </span>
+                    </div>
+
+                    <select
+                      value={selectedTransporters[itemQuote.tokenId] || ''}
+                      onChange={(e) => setSelectedTransporters(prev => ({ ...prev, [itemQuote.tokenId]: e.target.value }))}
+                      disabled={isProcessing}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    >
+                      {itemQuote.options.map(option => (
+                        <option key={option.transporter} value={option.transporter}>
+                          {option.name} - {formatEther(option.transportCost)} ETH
+                        </option>
+                      ))}
+                      <option value="">Let transporters bid after ordering</option>
+                    </select>
+                    {itemQuote.options.length === 0 && (
+                      <p className="text-xs text-gray-500">
+                        {itemQuote.distanceKm === null
+                          ? 'Distance unknown. Enter an estimated distance to compare transporters.'
+                          : itemQuote.isPerishable
+                            ? 'No refrigerated transporter with enough capacity is available.'
+                            : 'No transporter with enough capacity is available.'}
+                      </p>
+                    )}
+
+                    <div className="grid grid-cols-3 gap-2 text-xs text-gray-600">
+                      <div>
+                        <p>Crop</p>
+                        <CurrencyDisplay amount={Number(formatEther(itemQuote.cropCost))} currency="ETH" compact />
+                      </div>
+                      <div>
+                        <p>Transport{itemQuote.isPerishable && ' (refrigerated)'}</p>
+                        <CurrencyDisplay amount={Number(formatEther(transportCost))} currency="ETH" compact />
+                      </div>
+                      <div>
+                        <p>Marketplace fee</p>
+                        <CurrencyDisplay amount={Number(formatEther(itemQuote.marketplaceFee))} currency="ETH" compact />
+                      </div>
+                    </div>
+                    {itemQuote.royalty > 0n && itemQuote.royaltyReceiver && (
+                      <p className="text-xs text-purple-700">
+                        Resale: {formatEther(itemQuote.royalty)} ETH of the crop cost is a royalty owed to the original farmer ({formatAddress(itemQuote.royaltyReceiver)})
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+
+              <div className="pt-3 border-t border-gray-200 space-y-1 text-sm">
+                <div className="flex justify-between text-gray-600">
+                  <span>Crop cost</span>
+                  <CurrencyDisplay amount={Number(formatEther(quoteTotals.cropCost))} currency="ETH" compact />
+                </div>
+                <div className="flex justify-between text-gray-600">
+                  <span>Transport</span>
+                  <CurrencyDisplay amount={Number(formatEther(quoteTotals.transportCost))} currency="ETH" compact />
+                </div>
+                <div className="flex justify-between text-gray-600">
+                  <span>Marketplace fee</span>
+                  <CurrencyDisplay amount={Number(formatEther(quoteTotals.marketplaceFee))} currency="ETH" compact />
+                </div>
+                <div className="flex justify-between font-semibold text-gray-900 pt-1">
+                  <span>Total</span>
+                  <CurrencyDisplay amount={Number(formatEther(quoteTotals.total))} currency="ETH" showAllCurrencies />
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Checkout Progress */}
+        {Object.keys(itemProgress).length > 0 && (
+          <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Checkout Progress</h3>
+            <div className="space-y-2">
+              {Object.entries(itemProgress).map(([tokenId, progress]) => (
+                <div key={tokenId} className="flex items-start gap-3 text-sm">
+                  <div className="mt-0.5">{getProgressIcon(progress.status)}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900 truncate">{progress.name}</span>
+                      <span className={`text-xs ${
+                        progress.status === 'completed' ? 'text-green-700' :
+                        progress.status === 'failed' ? 'text-red-700' :
+                        'text-gray-600'
+                      }`}>
+                        {CHECKOUT_STATUS_LABELS[progress.status]}
+                        {progress.orderId && ` (Order #${progress.orderId})`}
+                      </span>
+                    </div>
+                    {progress.error && (
+                      <p className="text-xs text-red-600 mt-1 break-words">{progress.error}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Partial Failure Summary */}
+            {!isProcessing && Object.values(itemProgress).some(p => p.status === 'failed') && (
+              <div className="mt-3 pt-3 border-t border-gray-200 flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+                <p className="text-xs text-gray-700">
+                  {Object.values(itemProgress).filter(p => p.status === 'completed').length} of {Object.keys(itemProgress).length} orders
+                  were placed. Failed items are still in your cart and can be checked out again.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="space-y-3">
           <button
             onClick={handleCheckout}
-            disabled={!isConnected || isProcessing || totalItems === 0}
+            disabled={!isConnected || isProcessing || totalItems === 0 || !quote}
             className="w-full bg-green-600 text-white py-3 px-4 rounded-xl hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl"
           >
             {isProcessing ? (
@@ -6,7 +6,7 @@ import { ipfsToHttp } from '../utils/ipfs';
 import CurrencyDisplay from './CurrencyDisplay';
 
 const CartSidebar: React.FC = () => {
-  const { items, totalItems, isOpen, closeCart, removeFromCart, clearCart } = useCart();
+  const { items, totalItems, isOpen, closeCart, removeFromCart, updateQuantity, clearCart } = useCart();
   const { addToast } = useToast();
 
   const formatDate = (timestamp: number) => {
@@ -126,7 +126,19 @@ const CartSidebar: React.FC = () => {
                         </div>
                         <div className="flex items-center gap-1 text-xs text-gray-600">
                           <Scale className="h-3 w-3" />
-                          <span>{item.quantity} kg</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={item.maxQuantity}
+                            step={1}
+                            value={item.quantity}
+                            onChange={(e) => {
+                              const quantity = parseInt(e.target.value);
+                              if (quantity > 0) updateQuantity(item.tokenId, quantity);
+                            }}
+                            className="w-16 px-1 py-0.5 border border-gray-300 rounded focus:ring-1 focus:ring-green-500"
+                          />
+                          <span>kg{item.maxQuantity !== undefined && ` of ${item.maxQuantity}`}</span>
                         </div>
                         <div className="flex items-center gap-1 text-xs text-gray-600">
                           <MapPin className="h-3 w-3" />
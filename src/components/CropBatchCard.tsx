@@ -9,9 +9,12 @@ import { useCropBatchToken } from '../hooks/useCropBatchToken';
 interface CropBatchCardProps {
   batch: CropMetadata & { 
     tokenId: number;
+    listingId?: number;
     owner?: string;
     supplyChainStatus?: 'farmer' | 'transporter' | 'buyer';
     lastUpdated?: number;
+    royalty?: number; // ETH owed to the original farmer when this listing is a resale
+    royaltyReceiver?: string;
   };
 }
 
@@ -65,6 +68,9 @@ const CropBatchCard: React.FC<CropBatchCardProps> = ({ batch }) => {
       image: batch.image,
       price: batch.pricePerKg,
       owner: batch.owner || '',
+      listingId: batch.listingId,
+      maxQuantity: batch.listingId !== undefined ? batch.quantity : undefined,
+      location: batch.location,
     });
   };
 
@@ -187,6 +193,11 @@ const CropBatchCard: React.FC<CropBatchCardProps> = ({ batch }) => {
                 <div className="text-xs text-green-600">
                   {batch.pricePerKg} ETH/kg
                 </div>
+                {batch.royalty && (
+                  <div className="text-xs text-purple-700 mt-1">
+                    Includes {batch.royalty.toFixed(4)} ETH resale royalty
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -385,6 +396,12 @@ const CropBatchCard: React.FC<CropBatchCardProps> = ({ batch }) => {
                     </div>
                   </div>
 
+                  {batch.royalty && batch.royaltyReceiver && (
+                    <p className="text-sm text-purple-700 mb-2">
+                      This is a resale: {batch.royalty.toFixed(4)} ETH of the price is a royalty owed to the original farmer ({batch.royaltyReceiver.slice(0, 6)}...{batch.royaltyReceiver.slice(-4)}).
+                    </p>
+                  )}
+
                   {/* Multi-Currency Display */}
                   <CurrencyDisplay
                     amount={batch.pricePerKg * batch.quantity}
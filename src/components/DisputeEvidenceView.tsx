@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { FileText } from 'lucide-react';
+import { fetchDisputeEvidence, ipfsToHttp, DisputeEvidence } from '../utils/ipfs';
+import { formatAddress, formatDate } from '../utils';
+
+interface DisputeEvidenceViewProps {
+  evidenceUri: string;
+}
+
+/**
+ * Dispute Evidence View
+ *
+ * Loads the evidence bundle attached to a dispute from IPFS and shows
+ * the statement alongside thumbnails of any uploaded photos.
+ */
+const DisputeEvidenceView: React.FC<DisputeEvidenceViewProps> = ({ evidenceUri }) => {
+  const [evidence, setEvidence] = useState<DisputeEvidence | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!evidenceUri) return;
+
+    let cancelled = false;
+    fetchDisputeEvidence(evidenceUri)
+      .then(result => {
+        if (!cancelled) setEvidence(result);
+      })
+      .catch(error => {
+        console.warn('Failed to load dispute evidence:', error);
+        if (!cancelled) setLoadError('Evidence could not be loaded from IPFS');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [evidenceUri]);
+
+  if (!evidenceUri) {
+    return <p className="text-xs text-gray-500">No evidence attached.</p>;
+  }
+
+  if (loadError) {
+    return <p className="text-xs text-red-600">{loadError}</p>;
+  }
+
+  if (!evidence) {
+    return <p className="text-xs text-gray-500">Loading evidence...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start gap-2 text-sm text-gray-700">
+        <FileText className="h-4 w-4 text-gray-400 flex-shrink-0 mt-0.5" />
+        <p className="whitespace-pre-wrap">{evidence.statement}</p>
+      </div>
+      {evidence.files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {evidence.files.map(fileUri => (
+            <a key={fileUri} href={ipfsToHttp(fileUri)} target="_blank" rel="noopener noreferrer">
+              <img
+                src={ipfsToHttp(fileUri)}
+                alt="Dispute evidence"
+                className="h-20 w-20 object-cover rounded-lg border border-gray-200 hover:opacity-80 transition-opacity"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Submitted by {formatAddress(evidence.submittedBy)} on {formatDate(evidence.submittedAt)}
+      </p>
+    </div>
+  );
+};
+
+export default DisputeEvidenceView;
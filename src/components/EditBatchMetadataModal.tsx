@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { Lock, History, ExternalLink, ArrowRight } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useCropBatchToken, CropBatch, MetadataHistory } from '../hooks/useCropBatchToken';
+import { fetchMetadataFromIPFS, uploadCropBatchMetadata, ipfsToHttp, CropMetadata, CropBatchMetadataParams } from '../utils/ipfs';
+import { getErrorMessage, getBlockExplorerUrl, validateCropBatchField } from '../utils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface EditBatchMetadataModalProps {
+  batch: CropBatch;
+  onClose: () => void;
+  onUpdated?: () => void;
+}
+
+interface MetadataChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  notes: '',
+  harvestDate: '',
+  pricePerKg: '',
+  certifications: '',
+  location: '',
+};
+
+// Helper function to show a unix timestamp as the YYYY-MM-DD a date input uses
+const toDateInput = (timestamp: number): string =>
+  timestamp ? new Date(timestamp * 1000).toISOString().slice(0, 10) : '';
+
+// Helper function to list the fields that differ between two metadata versions
+const diffMetadata = (before: CropBatchMetadataParams, after: CropBatchMetadataParams): MetadataChange[] => {
+  const fields: { label: string; read: (params: CropBatchMetadataParams) => string }[] = [
+    { label: 'Name', read: params => params.name },
+    { label: 'Description', read: params => params.description },
+    { label: 'Notes', read: params => params.notes },
+    { label: 'Harvest Date', read: params => toDateInput(params.harvestDate) },
+    { label: 'Price per kg (ETH)', read: params => (params.pricePerKg ? params.pricePerKg.toString() : '') },
+    { label: 'Certifications', read: params => (params.certifications || []).join(', ') },
+    { label: 'Location', read: params => params.location?.address || '' },
+  ];
+
+  return fields
+    .map(field => ({ label: field.label, before: field.read(before), after: field.read(after) }))
+    .filter(change => change.before !== change.after);
+};
+
+/**
+ * Edit Batch Metadata Modal
+ *
+ * Lets the farmer who minted a batch correct its IPFS metadata: the edited
+ * metadata is re-pinned, the token is pointed at the new URI, and each
+ * version stays listed. Once the metadata is final it can be frozen,
+ * after which the contract refuses further updates. The batch's resale
+ * royalty is shown alongside.
+ */
+const EditBatchMetadataModal: React.FC<EditBatchMetadataModalProps> = ({ batch, onClose, onUpdated }) => {
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const { updateTokenUri, freezeMetadata, getMetadataHistory, triggerRefresh } = useCropBatchToken();
+
+  const [history, setHistory] = useState<MetadataHistory>({ versions: [] });
+  const [metadata, setMetadata] = useState<CropMetadata | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [pendingAction, setPendingAction] = useState<'update' | 'freeze' | null>(null);
+
+  const isFrozen = batch.metadataFrozen || history.frozenAt !== undefined;
+  const currentUri = history.versions[history.versions.length - 1]?.uri || batch.metadataUri;
+
+  const loadMetadata = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const batchHistory = await getMetadataHistory(batch.tokenId);
+      setHistory(batchHistory);
+
+      const uri = batchHistory.versions[batchHistory.versions.length - 1]?.uri || batch.metadataUri;
+      const current = await fetchMetadataFromIPFS(uri);
+      setMetadata(current);
+      setFormData({
+        name: current.name,
+        description: current.description,
+        notes: current.notes,
+        harvestDate: toDateInput(current.harvestDate),
+        pricePerKg: current.pricePerKg ? current.pricePerKg.toString() : '',
+        certifications: (current.certifications || []).join(', '),
+        location: current.location?.address || '',
+      });
+    } catch (error) {
+      console.error(`Failed to load metadata for batch ${batch.tokenId}:`, error);
+      addToast(`Failed to load batch metadata: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [batch.tokenId, batch.metadataUri, getMetadataHistory, addToast]);
+
+  useEffect(() => {
+    loadMetadata();
+  }, [loadMetadata]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const previous: CropBatchMetadataParams | null = metadata && {
+    name: metadata.name,
+    description: metadata.description,
+    cropType: metadata.cropType,
+    quantity: metadata.quantity,
+    pricePerKg: metadata.pricePerKg,
+    originFarm: metadata.originFarm,
+    harvestDate: metadata.harvestDate,
+    notes: metadata.notes,
+    certifications: metadata.certifications,
+    location: metadata.location,
+  };
+
+  // Crop type, quantity and origin farm are fixed at mint and stay as they are
+  const proposed: CropBatchMetadataParams | null = previous && {
+    ...previous,
+    name: formData.name.trim(),
+    description: formData.description.trim(),
+    notes: formData.notes.trim(),
+    harvestDate: formData.harvestDate ? Math.floor(new Date(formData.harvestDate).getTime() / 1000) : previous.harvestDate,
+    pricePerKg: formData.pricePerKg ? parseFloat(formData.pricePerKg) : undefined,
+    certifications: formData.certifications ? formData.certifications.split(',').map(c => c.trim()).filter(Boolean) : undefined,
+    location: formData.location.trim() ? { ...previous.location, address: formData.location.trim() } : undefined,
+  };
+
+  const changes = previous && proposed ? diffMetadata(previous, proposed) : [];
+
+  const handleReview = () => {
+    const error = validateCropBatchField('name', formData.name)
+      || validateCropBatchField('harvestDate', formData.harvestDate)
+      || (formData.pricePerKg ? validateCropBatchField('pricePerKg', formData.pricePerKg) : null);
+    if (error) {
+      addToast(error, 'warning');
+      return;
+    }
+
+    if (changes.length === 0) {
+      addToast('Nothing has changed', 'info');
+      return;
+    }
+
+    setIsReviewing(true);
+  };
+
+  // Helper function to wait for a transaction and fail loudly if it reverted
+  const confirmTransaction = async (hash: `0x${string}`) => {
+    if (!publicClient) return;
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted');
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!metadata || !proposed) return;
+
+    setPendingAction('update');
+    try {
+      const newUri = await uploadCropBatchMetadata(proposed, metadata.image);
+      await confirmTransaction(await updateTokenUri(batch.tokenId, newUri));
+
+      addToast(`Metadata for batch #${batch.tokenId} updated`, 'success');
+      setIsReviewing(false);
+      triggerRefresh();
+      onUpdated?.();
+      await loadMetadata();
+    } catch (error) {
+      console.error('Metadata update failed:', error);
+      addToast(`Failed to update metadata: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleFreeze = async () => {
+    if (!window.confirm(`Freeze the metadata of batch #${batch.tokenId}? It can never be edited again.`)) return;
+
+    setPendingAction('freeze');
+    try {
+      await confirmTransaction(await freezeMetadata(batch.tokenId));
+
+      addToast(`Metadata for batch #${batch.tokenId} is now frozen`, 'success');
+      triggerRefresh();
+      onUpdated?.();
+      await loadMetadata();
+    } catch (error) {
+      console.error('Metadata freeze failed:', error);
+      addToast(`Failed to freeze metadata: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 disabled:bg-gray-50';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Batch #{batch.tokenId} Metadata
+          </h3>
+          {isFrozen && (
+            <span className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+              <Lock className="h-3 w-3" />
+              Frozen
+            </span>
+          )}
+        </div>
+
+        {isLoading && !metadata ? (
+          <LoadingSpinner text="Loading metadata..." className="py-8" />
+        ) : !metadata ? (
+          <p className="text-sm text-red-600 py-4">The current metadata could not be loaded from IPFS.</p>
+        ) : isReviewing ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              These changes will be pinned as version {history.versions.length + 1} and the token pointed at it.
+            </p>
+            {changes.map(change => (
+              <div key={change.label} className="border border-gray-200 rounded-lg p-3 text-sm">
+                <p className="font-medium text-gray-700 mb-1">{change.label}</p>
+                <div className="flex flex-col md:flex-row md:items-center gap-2">
+                  <span className="flex-1 px-2 py-1 rounded bg-red-50 text-red-800 line-through break-words">
+                    {change.before || '(empty)'}
+                  </span>
+                  <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 px-2 py-1 rounded bg-green-50 text-green-800 break-words">
+                    {change.after || '(empty)'}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs text-gray-500">
+              {metadata.cropType} · {metadata.quantity} kg · {metadata.originFarm}. These were recorded at mint and cannot be changed.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input name="name" type="text" value={formData.name} onChange={handleChange} disabled={isFrozen} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Harvest Date</label>
+                <input name="harvestDate" type="date" value={formData.harvestDate} onChange={handleChange} disabled={isFrozen} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Price per kg (ETH)</label>
+                <input name="pricePerKg" type="number" min="0" step="any" value={formData.pricePerKg} onChange={handleChange} disabled={isFrozen} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+                <input name="location" type="text" value={formData.location} onChange={handleChange} disabled={isFrozen} className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Certifications</label>
+                <input name="certifications" type="text" value={formData.certifications} onChange={handleChange} disabled={isFrozen}
+                  placeholder="Comma separated" className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea name="description" rows={2} value={formData.description} onChange={handleChange} disabled={isFrozen} className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <textarea name="notes" rows={3} value={formData.notes} onChange={handleChange} disabled={isFrozen} className={inputClass} />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Version history */}
+        {history.versions.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-2">
+              <History className="h-4 w-4" />
+              Versions
+            </h4>
+            <ul className="space-y-1 text-xs">
+              {[...history.versions].reverse().map(version => (
+                <li key={version.transactionHash} className="flex items-center justify-between gap-2 text-gray-600">
+                  <span>
+                    v{version.version}{version.uri === currentUri && ' (current)'} · {version.timestamp ? new Date(version.timestamp).toLocaleString() : 'Unknown date'}
+                  </span>
+                  <span className="flex gap-3">
+                    <a href={ipfsToHttp(version.uri)} target="_blank" rel="noopener noreferrer" className="text-green-700 hover:underline">
+                      Metadata
+                    </a>
+                    <a href={getBlockExplorerUrl(version.transactionHash)} target="_blank" rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-green-700 hover:underline">
+                      Transaction
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {history.frozenAt !== undefined && (
+              <p className="text-xs text-blue-700 mt-2">Frozen {new Date(history.frozenAt).toLocaleString()}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3 mt-6">
+          <button
+            onClick={() => (isReviewing ? setIsReviewing(false) : onClose())}
+            disabled={pendingAction !== null}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            {isReviewing ? 'Back' : 'Close'}
+          </button>
+          {!isFrozen && metadata && !isReviewing && (
+            <button
+              onClick={handleFreeze}
+              disabled={pendingAction !== null}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-blue-700 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+            >
+              <Lock className="h-4 w-4" />
+              {pendingAction === 'freeze' ? 'Freezing...' : 'Freeze Metadata'}
+            </button>
+          )}
+          {!isFrozen && metadata && (
+            <button
+              onClick={isReviewing ? handleUpdate : handleReview}
+              disabled={pendingAction !== null}
+              className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+            >
+              {pendingAction === 'update' ? 'Saving...' : isReviewing ? 'Pin & Update Token' : 'Review Changes'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditBatchMetadataModal;
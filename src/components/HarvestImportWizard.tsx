@@ -0,0 +1,353 @@
+import React, { useState, useMemo } from 'react';
+import { Upload, FileSpreadsheet, Image, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { parseCsv } from '../utils/csv';
+import { CROP_CATEGORIES } from '../config/constants';
+import { BatchRow, createBatchRow, getBatchRowErrors } from './BatchTokenizationGrid';
+
+interface HarvestImportWizardProps {
+  priceCurrency: string;
+  onImport: (rows: BatchRow[]) => void;
+  onClose: () => void;
+}
+
+type ImportField = 'name' | 'cropType' | 'quantity' | 'pricePerKg' | 'originFarm' | 'harvestDate' | 'certifications' | 'location' | 'notes' | 'image';
+
+type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+interface ImportedRow {
+  line: number; // Line in the spreadsheet, counting the header as 1
+  row: BatchRow;
+  imageName: string;
+  errors: string[];
+}
+
+const IMPORT_FIELDS: { id: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { id: 'name', label: 'Batch Name', required: true, aliases: ['name', 'batch', 'batch name', 'lot'] },
+  { id: 'cropType', label: 'Crop Type', required: true, aliases: ['crop type', 'crop', 'category'] },
+  { id: 'quantity', label: 'Quantity (kg)', required: true, aliases: ['quantity', 'qty', 'kg', 'quantity kg', 'weight'] },
+  { id: 'pricePerKg', label: 'Price per kg', required: true, aliases: ['price per kg', 'price', 'price kg'] },
+  { id: 'originFarm', label: 'Origin Farm', required: true, aliases: ['origin farm', 'farm', 'origin', 'farm name'] },
+  { id: 'harvestDate', label: 'Harvest Date', required: true, aliases: ['harvest date', 'harvested', 'date'] },
+  { id: 'certifications', label: 'Certifications', required: false, aliases: ['certifications', 'certification', 'certs'] },
+  { id: 'location', label: 'Location', required: false, aliases: ['location', 'address', 'region', 'county'] },
+  { id: 'notes', label: 'Notes', required: false, aliases: ['notes', 'remarks', 'comments'] },
+  { id: 'image', label: 'Image File Name', required: true, aliases: ['image', 'image file', 'photo', 'file name', 'filename'] },
+];
+
+// Helper function to compare headers and file names without case, spacing or punctuation
+const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Helper function to strip any folder from a file name recorded in the sheet
+const baseName = (value: string): string => value.split(/[\\/]/).pop() || value;
+
+// Helper function to turn a spreadsheet date into the YYYY-MM-DD the grid uses.
+// Values that do not fit the format are kept so validation can report them.
+const toIsoDate = (value: string, format: DateFormat): string => {
+  const parts = value.split(/[-/.]/).map(part => part.trim());
+  if (parts.length !== 3) return value;
+
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? parts
+    : format === 'DD/MM/YYYY'
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]];
+
+  if (!/^\d{4}$/.test(year) || !/^\d{1,2}$/.test(month) || !/^\d{1,2}$/.test(day)) return value;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+const STEPS = ['File', 'Columns', 'Review'] as const;
+
+/**
+ * Harvest Import Wizard
+ *
+ * Imports harvest records exported from a spreadsheet as CSV. Columns are
+ * mapped onto crop batch fields, images are matched to rows by file name,
+ * and every row is checked with the same rules as the tokenization form
+ * before the valid ones are handed over for minting.
+ */
+const HarvestImportWizard: React.FC<HarvestImportWizardProps> = ({ priceCurrency, onImport, onClose }) => {
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, number>>>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat>('YYYY-MM-DD');
+  const [images, setImages] = useState<File[]>([]);
+  const [excluded, setExcluded] = useState<number[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileError(null);
+    if (/\.xlsx?$/i.test(file.name)) {
+      setFileError('Excel workbooks cannot be read directly. Save the sheet as CSV (File → Save As → CSV) and choose that file.');
+      return;
+    }
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      setFileError('The file needs a header row and at least one harvest row.');
+      return;
+    }
+
+    const [headerRow, ...dataRows] = rows;
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setRecords(dataRows);
+    setExcluded([]);
+
+    // Map each field to the first column whose header matches one of its names
+    const detected: Partial<Record<ImportField, number>> = {};
+    IMPORT_FIELDS.forEach(field => {
+      const index = headerRow.findIndex(header => field.aliases.some(alias => normalize(alias) === normalize(header)));
+      if (index >= 0) detected[field.id] = index;
+    });
+    setMapping(detected);
+    setStep(1);
+  };
+
+  const handleImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setImages(Array.from(e.target.files || []));
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.id] === undefined);
+
+  const imported = useMemo((): ImportedRow[] => {
+    const imagesByName = new Map(images.map(file => [file.name.toLowerCase(), file]));
+    const cell = (record: string[], field: ImportField) =>
+      mapping[field] !== undefined ? record[mapping[field]!] || '' : '';
+
+    return records.map((record, index) => {
+      const rawCrop = cell(record, 'cropType');
+      const cropType = CROP_CATEGORIES.find(category => normalize(category) === normalize(rawCrop)) || rawCrop;
+      const imageName = baseName(cell(record, 'image'));
+
+      const row: BatchRow = {
+        ...createBatchRow(),
+        name: cell(record, 'name'),
+        cropType,
+        quantity: cell(record, 'quantity'),
+        pricePerKg: cell(record, 'pricePerKg'),
+        originFarm: cell(record, 'originFarm'),
+        harvestDate: toIsoDate(cell(record, 'harvestDate'), dateFormat),
+        certifications: cell(record, 'certifications'),
+        location: cell(record, 'location'),
+        notes: cell(record, 'notes'),
+        imageFile: imageName ? imagesByName.get(imageName.toLowerCase()) || null : null,
+      };
+
+      const errors = Object.entries(getBatchRowErrors(row)).map(([field, message]) =>
+        field === 'imageFile' && imageName && !row.imageFile
+          ? `No selected image is named "${imageName}".`
+          : `${IMPORT_FIELDS.find(item => item.id === field)?.label || 'Image'}: ${message}`
+      );
+      if (cropType && !CROP_CATEGORIES.includes(cropType as typeof CROP_CATEGORIES[number])) {
+        errors.push(`Crop Type: "${rawCrop}" is not one of ${CROP_CATEGORIES.join(', ')}.`);
+      }
+
+      return { line: index + 2, row, imageName, errors };
+    });
+  }, [records, mapping, dateFormat, images]);
+
+  const validRows = imported.filter(item => item.errors.length === 0);
+  const selectedRows = validRows.filter(item => !excluded.includes(item.line));
+
+  const toggleExcluded = (line: number) => {
+    setExcluded(prev => (prev.includes(line) ? prev.filter(item => item !== line) : [...prev, line]));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5 text-green-600" />
+              Import Harvests
+            </h3>
+            <div className="flex gap-4 mt-2 text-sm">
+              {STEPS.map((label, index) => (
+                <span key={label} className={index === step ? 'text-green-700 font-medium' : 'text-gray-400'}>
+                  {index + 1}. {label}
+                </span>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {/* Step 1: file */}
+          {step === 0 && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Choose a CSV export of your harvest sheet. The first row must hold the column names.
+                Excel and Google Sheets can both save a sheet as CSV.
+              </p>
+              <label className="flex flex-col items-center justify-center gap-2 px-3 py-10 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-green-500 transition-colors">
+                <Upload className="h-8 w-8 text-gray-400" />
+                <span className="text-sm text-gray-600">{fileName || 'Choose a .csv file'}</span>
+                <input type="file" accept=".csv,text/csv,.xlsx,.xls" onChange={handleFile} className="hidden" />
+              </label>
+              {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+            </div>
+          )}
+
+          {/* Step 2: column mapping and images */}
+          {step === 1 && (
+            <div className="space-y-6">
+              <div>
+                <p className="text-sm text-gray-600 mb-3">
+                  {records.length} row(s) found in {fileName}. Match each field to a column; prices are read in {priceCurrency}.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {IMPORT_FIELDS.map(field => (
+                    <div key={field.id} className="flex items-center gap-3">
+                      <label className="w-36 text-sm font-medium text-gray-700">
+                        {field.label}{field.required && <span className="text-red-500"> *</span>}
+                      </label>
+                      <select
+                        value={mapping[field.id] ?? ''}
+                        onChange={(e) => setMapping(prev => ({
+                          ...prev,
+                          [field.id]: e.target.value === '' ? undefined : Number(e.target.value),
+                        }))}
+                        className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      >
+                        <option value="">Not in sheet</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-3">
+                    <label className="w-36 text-sm font-medium text-gray-700">Date Format</label>
+                    <select
+                      value={dateFormat}
+                      onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    >
+                      <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                      <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                      <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Batch Images</label>
+                <label className="flex items-center justify-center gap-2 px-3 py-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-green-500 transition-colors">
+                  <Image className="h-5 w-5 text-gray-400" />
+                  <span className="text-sm text-gray-600">
+                    {images.length > 0
+                      ? `${images.length} image${images.length !== 1 ? 's' : ''} selected`
+                      : 'Choose every image named in the sheet'}
+                  </span>
+                  <input type="file" accept="image/*" multiple onChange={handleImages} className="hidden" />
+                </label>
+                <p className="mt-1 text-xs text-gray-500">Images are matched to rows by file name.</p>
+              </div>
+
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Map a column for: {missingRequired.map(field => field.label).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Step 3: review */}
+          {step === 2 && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {validRows.length} of {imported.length} row(s) are ready to mint.
+                {validRows.length < imported.length && ' Fix the others in the sheet and import again, or mint the valid rows now.'}
+              </p>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['', 'Line', 'Name', 'Crop', 'Qty', 'Farm', 'Harvested', 'Image', 'Problems'].map(header => (
+                        <th key={header} className="px-3 py-2 text-left font-medium text-gray-500">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {imported.map(item => {
+                      const valid = item.errors.length === 0;
+                      return (
+                        <tr key={item.line} className={valid ? '' : 'bg-red-50'}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={valid && !excluded.includes(item.line)}
+                              disabled={!valid}
+                              onChange={() => toggleExcluded(item.line)}
+                              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-gray-500">{item.line}</td>
+                          <td className="px-3 py-2 text-gray-900">{item.row.name}</td>
+                          <td className="px-3 py-2 text-gray-700">{item.row.cropType}</td>
+                          <td className="px-3 py-2 text-gray-700">{item.row.quantity}</td>
+                          <td className="px-3 py-2 text-gray-700">{item.row.originFarm}</td>
+                          <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{item.row.harvestDate}</td>
+                          <td className="px-3 py-2">
+                            {item.row.imageFile
+                              ? <CheckCircle className="h-4 w-4 text-green-600" />
+                              : <AlertCircle className="h-4 w-4 text-red-500" />}
+                          </td>
+                          <td className="px-3 py-2 text-xs text-red-700">
+                            {item.errors.map(error => <p key={error}>{error}</p>)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 flex justify-between">
+          <button
+            onClick={() => (step === 0 ? onClose() : setStep(step - 1))}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            {step === 0 ? 'Cancel' : 'Back'}
+          </button>
+          {step === 1 && (
+            <button
+              onClick={() => setStep(2)}
+              disabled={missingRequired.length > 0}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Check Rows
+            </button>
+          )}
+          {step === 2 && (
+            <button
+              onClick={() => onImport(selectedRows.map(item => item.row))}
+              disabled={selectedRows.length === 0}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Mint {selectedRows.length} Valid Row{selectedRows.length === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HarvestImportWizard;
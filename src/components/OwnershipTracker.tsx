@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { RefreshCw, User, Clock, CheckCircle, AlertCircle } from 'lucide-react';
-import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { useCropBatchToken, TokenHolding } from '../hooks/useCropBatchToken';
 import { useToast } from '../contexts/ToastContext';
 
 interface OwnershipTrackerProps {
@@ -11,7 +11,7 @@ interface OwnershipTrackerProps {
 const OwnershipTracker: React.FC<OwnershipTrackerProps> = ({ tokenId, className = '' }) => {
   const { getBatchDetails, refreshTrigger } = useCropBatchToken();
   const { addToast } = useToast();
-  const [owner, setOwner] = useState<string>('');
+  const [holders, setHolders] = useState<TokenHolding[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<number>(Date.now());
   const [updateCount, setUpdateCount] = useState(0);
@@ -21,13 +21,13 @@ const OwnershipTracker: React.FC<OwnershipTrackerProps> = ({ tokenId, className
     try {
       const batch = await getBatchDetails(tokenId);
       if (batch) {
-        const newOwner = batch.owner;
-        if (newOwner !== owner && owner !== '') {
-          // Ownership changed!
-          addToast(`Token #${tokenId} ownership changed to ${newOwner.slice(0, 6)}...${newOwner.slice(-4)}`, 'success');
+        const newHolders = batch.holders;
+        if (holders !== null && getHoldingsKey(newHolders) !== getHoldingsKey(holders)) {
+          // Holdings changed!
+          addToast(`Token #${tokenId} holdings changed - now split across ${newHolders.length} holder${newHolders.length !== 1 ? 's' : ''}`, 'success');
           setUpdateCount(prev => prev + 1);
         }
-        setOwner(newOwner);
+        setHolders(newHolders);
         setLastUpdated(Date.now());
       }
     } catch (error) {
@@ -50,6 +50,10 @@ const OwnershipTracker: React.FC<OwnershipTrackerProps> = ({ tokenId, className
     }
   }, [refreshTrigger]);
 
+  const getHoldingsKey = (holdings: TokenHolding[]) => {
+    return holdings.map(holding => `${holding.address}:${holding.quantity}`).join(',');
+  };
+
   const formatAddress = (address: string) => {
     if (!address || address === '0x0000000000000000000000000000000000000000') {
       return 'No owner';
@@ -73,7 +77,7 @@ const OwnershipTracker: React.FC<OwnershipTrackerProps> = ({ tokenId, className
     <div className={`bg-white rounded-lg border border-gray-200 p-4 ${className}`}>
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-sm font-semibold text-gray-900">
-          Token #{tokenId} Ownership
+          Token #{tokenId} Holders
         </h3>
         <button
           onClick={fetchOwnership}
@@ -85,20 +89,33 @@ const OwnershipTracker: React.FC<OwnershipTrackerProps> = ({ tokenId, className
       </div>
 
       <div className="space-y-2">
-        <div className="flex items-center gap-2">
-          <User className="h-4 w-4 text-gray-500" />
-          <span className="text-sm font-mono text-gray-900">
-            {formatAddress(owner)}
-          </span>
-          {updateCount > 0 && (
-            <div className="flex items-center gap-1">
-              <CheckCircle className="h-3 w-3 text-green-600" />
-              <span className="text-xs text-green-600">
-                Updated {updateCount} time{updateCount !== 1 ? 's' : ''}
-              </span>
-            </div>
-          )}
-        </div>
+        {holders && holders.length > 0 ? (
+          <ul className="space-y-1">
+            {holders.map(holding => (
+              <li key={holding.address} className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <User className="h-4 w-4 text-gray-500" />
+                  <span className="text-sm font-mono text-gray-900">{formatAddress(holding.address)}</span>
+                </span>
+                <span className="text-sm text-gray-700">{holding.quantity} kg</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex items-center gap-2">
+            <User className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-mono text-gray-900">{formatAddress('')}</span>
+          </div>
+        )}
+
+        {updateCount > 0 && (
+          <div className="flex items-center gap-1">
+            <CheckCircle className="h-3 w-3 text-green-600" />
+            <span className="text-xs text-green-600">
+              Updated {updateCount} time{updateCount !== 1 ? 's' : ''}
+            </span>
+          </div>
+        )}
 
         <div className="flex items-center gap-2 text-xs text-gray-500">
           <Clock className="h-3 w-3" />
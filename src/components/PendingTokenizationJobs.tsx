@@ -0,0 +1,118 @@
+import React from 'react';
+import { Clock, RotateCcw, Trash2, Upload, ExternalLink, AlertCircle } from 'lucide-react';
+import { TokenizationJob, NEXT_STEP_LABELS } from '../hooks/useTokenizationJobs';
+import { formatTxHash, getBlockExplorerUrl } from '../utils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PendingTokenizationJobsProps {
+  jobs: TokenizationJob[];
+  runningJobId: string | null;
+  onResume: (jobId: string, imageFile?: File) => void;
+  onAbandon: (job: TokenizationJob) => void;
+}
+
+/**
+ * Pending Tokenization Jobs
+ *
+ * Lists tokenizations that stopped before provenance was initialized, with
+ * the step each one will resume from. Jobs whose image never reached IPFS
+ * ask for the image again, since files cannot be kept across reloads.
+ */
+const PendingTokenizationJobs: React.FC<PendingTokenizationJobsProps> = ({ jobs, runningJobId, onResume, onAbandon }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="p-6 border-b border-gray-200 space-y-3">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+        <Clock className="h-5 w-5 text-yellow-600" />
+        Pending Tokenizations
+      </h3>
+      {jobs.map(job => {
+        const isRunning = job.id === runningJobId;
+        const busy = runningJobId !== null;
+        const txHash = job.provenanceTxHash || job.mintTxHash;
+
+        return (
+          <div key={job.id} className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 text-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {job.params.name}
+                  {job.tokenId !== undefined && <span className="text-green-700"> · Token #{job.tokenId}</span>}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {job.params.cropType} · {job.params.quantity} kg · Started {new Date(job.createdAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-gray-700 mt-1">Next: {NEXT_STEP_LABELS[job.step]}</p>
+                {txHash && (
+                  <a
+                    href={getBlockExplorerUrl(txHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-xs text-green-700 hover:underline"
+                  >
+                    {formatTxHash(txHash)}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                {isRunning ? (
+                  <span className="flex items-center gap-2 px-3 py-2 text-blue-800">
+                    <LoadingSpinner variant="minimal" size="sm" />
+                    Running...
+                  </span>
+                ) : job.step === 'created' ? (
+                  <label
+                    className={`flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg transition-colors ${
+                      busy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-green-700'
+                    }`}
+                  >
+                    <Upload className="h-4 w-4" />
+                    Choose {job.imageName}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      disabled={busy}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onResume(job.id, file);
+                      }}
+                    />
+                  </label>
+                ) : (
+                  <button
+                    onClick={() => onResume(job.id)}
+                    disabled={busy}
+                    className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Resume
+                  </button>
+                )}
+                <button
+                  onClick={() => onAbandon(job)}
+                  disabled={busy}
+                  className="flex items-center gap-2 px-3 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Abandon
+                </button>
+              </div>
+            </div>
+            {job.error && !isRunning && (
+              <p className="flex items-start gap-1 text-xs text-red-600 mt-2">
+                <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                {job.error}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PendingTokenizationJobs;
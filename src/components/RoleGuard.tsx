@@ -0,0 +1,58 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { useWeb3Enhanced, UserRole } from '../contexts/Web3ContextEnhanced';
+import LoadingSpinner from './LoadingSpinner';
+
+interface RoleGuardProps {
+  roles: UserRole['id'][]; // Any one of these grants access
+  children: React.ReactNode;
+}
+
+const ROLE_LABELS: Record<UserRole['id'], string> = {
+  farmer: 'Farmer',
+  transporter: 'Transporter',
+  buyer: 'Buyer',
+  admin: 'Admin',
+};
+
+/**
+ * Role Guard
+ *
+ * Renders its children only when the connected account holds one of the
+ * required roles on-chain. Roles are still being read on first render, so
+ * the guard waits for them instead of flashing the denied state.
+ */
+const RoleGuard: React.FC<RoleGuardProps> = ({ roles, children }) => {
+  const { hasRole, isLoadingRoles } = useWeb3Enhanced();
+
+  if (isLoadingRoles) {
+    return <LoadingSpinner text="Checking your on-chain roles..." className="py-24" />;
+  }
+
+  if (roles.some(role => hasRole(role))) {
+    return <>{children}</>;
+  }
+
+  const requiredRoles = roles.map(role => ROLE_LABELS[role]).join(' or ');
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg border border-yellow-200 p-8 text-center">
+        <Lock className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{requiredRoles} Role Required</h2>
+        <p className="text-gray-600 mb-6">
+          This page needs the {requiredRoles} role registered on-chain for your wallet.
+        </p>
+        <Link
+          to="/profile"
+          className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+        >
+          View your roles
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default RoleGuard;
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Upload, FileText, Clock, CheckCircle, XCircle, Loader2, AlertTriangle } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import { useMyRoleRequests, RoleRequestStatus } from '../hooks/useUserManagement';
+import { RoleRequestRole, ipfsToHttp } from '../utils/ipfs';
+import { getErrorMessage, formatDate } from '../utils';
+import { VALIDATION_LIMITS } from '../config/constants';
+
+interface RoleRequestPanelProps {
+  initialRole?: RoleRequestRole;
+  onClose?: () => void;
+  notify?: boolean; // Announce decisions; off when the host view already does
+}
+
+const REQUESTABLE_ROLES: { id: RoleRequestRole; label: string }[] = [
+  { id: 'farmer', label: 'Farmer' },
+  { id: 'transporter', label: 'Transporter' },
+];
+
+const STATUS_STYLES: Record<RoleRequestStatus, { label: string; className: string; icon: React.ElementType }> = {
+  pending: { label: 'Under review', className: 'bg-yellow-100 text-yellow-800', icon: Clock },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800', icon: CheckCircle },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800', icon: XCircle },
+};
+
+/**
+ * Role Request Panel
+ *
+ * Farmer and transporter roles are vetted by the cooperative. Applicants
+ * submit their details and supporting documents here, and the panel shows
+ * where each of their requests stands.
+ */
+const RoleRequestPanel: React.FC<RoleRequestPanelProps> = ({ initialRole = 'farmer', onClose, notify = false }) => {
+  const { hasRole } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const { requests, isLoading, isSubmitting, submitRequest } = useMyRoleRequests({ notify });
+
+  const [role, setRole] = useState<RoleRequestRole>(initialRole);
+  const [farmName, setFarmName] = useState('');
+  const [registrationNumber, setRegistrationNumber] = useState('');
+  const [contactEmail, setContactEmail] = useState('');
+  const [notes, setNotes] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+
+  const openRoles = REQUESTABLE_ROLES.filter(item =>
+    !hasRole(item.id) && !requests.some(request => request.role === item.id && request.status === 'pending')
+  );
+  // Fall back to the first open role when the chosen one was just requested or granted
+  const selectedRole = openRoles.some(item => item.id === role) ? role : openRoles[0]?.id;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const oversized = selected.filter(file => file.size > VALIDATION_LIMITS.MAX_IMAGE_SIZE_BYTES);
+
+    if (oversized.length > 0) {
+      addToast(`Files must be under ${VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB}MB: ${oversized.map(file => file.name).join(', ')}`, 'warning');
+    }
+
+    setFiles(selected.filter(file => file.size <= VALIDATION_LIMITS.MAX_IMAGE_SIZE_BYTES));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await submitRequest({ role: selectedRole, farmName, registrationNumber, contactEmail, notes, files });
+      addToast('Role request submitted. You will be notified once an admin has reviewed it.', 'success');
+      setFarmName('');
+      setRegistrationNumber('');
+      setContactEmail('');
+      setNotes('');
+      setFiles([]);
+    } catch (error) {
+      console.error('Role request failed:', error);
+      addToast(`Failed to submit role request: ${getErrorMessage(error)}`, 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Existing requests */}
+      {requests.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Your Role Requests</h3>
+          {requests.map(request => {
+            const status = STATUS_STYLES[request.status];
+            const StatusIcon = status.icon;
+            return (
+              <div key={request.uri} className="border border-gray-200 rounded-lg p-4 text-sm">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {REQUESTABLE_ROLES.find(item => item.id === request.role)?.label} · {request.farmName}
+                    </p>
+                    <p className="text-xs text-gray-500">Submitted {formatDate(request.submittedAt)}</p>
+                  </div>
+                  <span className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                    <StatusIcon className="h-3 w-3" />
+                    {status.label}
+                  </span>
+                </div>
+                {request.status === 'rejected' && request.reason && (
+                  <p className="text-xs text-red-600 mt-2">Reason: {request.reason}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Request form */}
+      {openRoles.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          {isLoading ? 'Loading your requests...' : 'You hold or have requested every vetted role.'}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Request a Vetted Role</h3>
+            <p className="text-sm text-gray-600">
+              Farmer and transporter roles are granted by a cooperative admin after reviewing your details.
+            </p>
+          </div>
+
+          <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-800">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              Everything you submit here, including your registration number, contact email and documents, is
+              pinned to IPFS unencrypted and can be read by anyone with the link. Only share what you are happy to make public.
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+              <select
+                value={selectedRole}
+                onChange={(e) => setRole(e.target.value as RoleRequestRole)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              >
+                {openRoles.map(item => (
+                  <option key={item.id} value={item.id}>{item.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Farm or Company Name</label>
+              <input
+                type="text"
+                value={farmName}
+                onChange={(e) => setFarmName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Registration Number</label>
+              <input
+                type="text"
+                value={registrationNumber}
+                onChange={(e) => setRegistrationNumber(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Contact Email</label>
+              <input
+                type="email"
+                value={contactEmail}
+                onChange={(e) => setContactEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <textarea
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Anything the reviewer should know"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Supporting Documents</label>
+            <label className="flex items-center justify-center gap-2 px-3 py-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-green-500 transition-colors">
+              <Upload className="h-5 w-5 text-gray-400" />
+              <span className="text-sm text-gray-600">
+                {files.length > 0
+                  ? `${files.length} file${files.length !== 1 ? 's' : ''} selected`
+                  : 'Choose registration certificates, licences or ID'}
+              </span>
+              <input type="file" accept="image/*,application/pdf" multiple onChange={handleFiles} className="hidden" />
+            </label>
+            {files.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {files.map(file => (
+                  <li key={file.name} className="flex items-center gap-2 text-xs text-gray-600">
+                    <FileText className="h-3 w-3" />
+                    {file.name}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            {onClose && (
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors rounded-lg hover:bg-gray-100"
+              >
+                Back
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex items-center gap-2 px-6 py-2 rounded-lg font-medium bg-green-600 hover:bg-green-700 text-white shadow-md disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isSubmitting ? 'Uploading...' : 'Submit Request'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Documents already on file */}
+      {requests.some(request => request.status === 'pending' && request.documents.length > 0) && (
+        <p className="text-xs text-gray-500">
+          Documents on file:{' '}
+          {requests
+            .filter(request => request.status === 'pending')
+            .flatMap(request => request.documents)
+            .map((uri, index) => (
+              <a
+                key={uri}
+                href={ipfsToHttp(uri)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-green-700 hover:underline mr-2"
+              >
+                Document {index + 1}
+              </a>
+            ))}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RoleRequestPanel;
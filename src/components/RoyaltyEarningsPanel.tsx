@@ -0,0 +1,124 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { formatEther } from 'viem';
+import { Coins, RefreshCw } from 'lucide-react';
+import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { useOrderList, Order } from '../hooks/useOrderManager';
+import { ORDER_STATUS } from '../config/constants';
+import { formatDate } from '../utils';
+import CurrencyDisplay from './CurrencyDisplay';
+import LoadingSpinner from './LoadingSpinner';
+
+interface RoyaltyEarningsPanelProps {
+  account: string;
+  mintedTokenIds: number[];
+}
+
+interface RoyaltyEarning {
+  order: Order;
+  royalty: bigint;
+}
+
+/**
+ * Royalty Earnings Panel
+ *
+ * Totals the royalties owed to a farmer from completed resales of batches
+ * they minted: orders on those batches sold by someone else, priced with
+ * royaltyInfo. Payments are not split on-chain, so these are amounts
+ * owed by the resellers rather than funds already received.
+ */
+const RoyaltyEarningsPanel: React.FC<RoyaltyEarningsPanelProps> = ({ account, mintedTokenIds }) => {
+  const { getRoyaltyQuotes } = useCropBatchToken();
+  const { getAllOrders } = useOrderList();
+
+  const [earnings, setEarnings] = useState<RoyaltyEarning[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEarnings = useCallback(async () => {
+    if (mintedTokenIds.length === 0) {
+      setEarnings([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const minted = new Set(mintedTokenIds);
+      const resales = (await getAllOrders()).filter(order =>
+        order.status === ORDER_STATUS.COMPLETED
+        && minted.has(Number(order.tokenId))
+        && order.farmer.toLowerCase() !== account.toLowerCase()
+      );
+
+      const quotes = await getRoyaltyQuotes(
+        resales.map(order => ({ tokenId: Number(order.tokenId), salePrice: order.cropPrice }))
+      );
+      setEarnings(
+        resales
+          .map((order, index) => ({ order, quote: quotes[index] }))
+          .filter(({ quote }) => quote && quote.amount > 0n && quote.receiver.toLowerCase() === account.toLowerCase())
+          .map(({ order, quote }) => ({ order, royalty: quote.amount }))
+      );
+    } catch (error) {
+      console.error('Failed to load royalty earnings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, mintedTokenIds, getAllOrders, getRoyaltyQuotes]);
+
+  useEffect(() => {
+    loadEarnings();
+  }, [loadEarnings]);
+
+  const total = earnings.reduce((sum, earning) => sum + earning.royalty, 0n);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+          <Coins className="h-5 w-5 text-purple-600" />
+          Royalty Earnings
+        </h2>
+        <button
+          onClick={loadEarnings}
+          disabled={isLoading}
+          className="flex items-center gap-1 px-3 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Royalties owed to you from completed resales of batches you minted. Payments are not split on-chain, so settle these with the reseller.
+      </p>
+
+      {isLoading && earnings.length === 0 ? (
+        <LoadingSpinner text="Loading resales..." className="py-8" />
+      ) : earnings.length === 0 ? (
+        <p className="text-gray-600 text-center py-8">None of your batches have been resold yet.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between p-3 mb-3 bg-purple-50 border border-purple-200 rounded-lg">
+            <span className="text-sm font-medium text-purple-900">
+              {earnings.length} resale{earnings.length === 1 ? '' : 's'}
+            </span>
+            <CurrencyDisplay amount={Number(formatEther(total))} currency="ETH" showAllCurrencies />
+          </div>
+          <div className="divide-y divide-gray-100 text-sm">
+            {earnings.map(({ order, royalty }) => (
+              <div key={order.orderId.toString()} className="flex items-center justify-between gap-4 py-2">
+                <div>
+                  <p className="font-medium text-gray-900">Order #{order.orderId.toString()} · Batch #{order.tokenId.toString()}</p>
+                  <p className="text-xs text-gray-600">
+                    {order.quantity.toString()} kg for {formatEther(order.cropPrice)} ETH · {formatDate(Number(order.createdAt))}
+                  </p>
+                </div>
+                <span className="font-medium text-purple-800">{formatEther(royalty)} ETH</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RoyaltyEarningsPanel;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { Percent } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useCropBatchToken, RoyaltySettings } from '../hooks/useCropBatchToken';
+import { getErrorMessage, formatAddress } from '../utils';
+
+// Sale price used to illustrate the royalty, in ETH
+const EXAMPLE_SALE_PRICE = 1;
+
+// Batch ids start at 1. The contract only reports the royalty for a minted batch,
+// and every batch carries the same one, so the first batch stands in for all of them.
+const FIRST_TOKEN_ID = 1;
+
+/**
+ * Royalty Settings Panel
+ *
+ * Shows and edits the ERC-2981 royalty owed on resales. The contract keeps a
+ * single receiver and rate for every batch - there is no per-batch royalty -
+ * and only lets administrators change them.
+ */
+const RoyaltySettingsPanel: React.FC = () => {
+  const { addToast } = useToast();
+  const { account, isAdmin } = useWeb3Enhanced();
+  const publicClient = usePublicClient();
+  const { getRoyaltySettings, setRoyaltyInfo } = useCropBatchToken();
+
+  const [settings, setSettings] = useState<RoyaltySettings | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [percent, setPercent] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const current = await getRoyaltySettings(FIRST_TOKEN_ID);
+      setSettings(current);
+      if (current) {
+        setRecipient(current.receiver);
+        setPercent((current.basisPoints / 100).toString());
+      }
+    } catch (error) {
+      console.warn('Failed to load royalty settings:', error);
+    }
+  }, [getRoyaltySettings]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleSave = async () => {
+    const basisPoints = Math.round(parseFloat(percent) * 100);
+    if (isNaN(basisPoints)) {
+      addToast('Enter a royalty percentage', 'warning');
+      return;
+    }
+
+    if (!window.confirm(`Set a ${basisPoints / 100}% royalty to ${formatAddress(recipient)}? This applies to every batch.`)) return;
+
+    setIsSaving(true);
+    try {
+      const hash = await setRoyaltyInfo(recipient.trim(), basisPoints);
+      if (publicClient) {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Transaction reverted');
+        }
+      }
+
+      addToast('Royalty updated', 'success');
+      await loadSettings();
+    } catch (error) {
+      console.error('Royalty update failed:', error);
+      addToast(`Failed to update royalty: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500';
+
+  return (
+    <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 text-sm">
+      <h4 className="font-semibold text-gray-900 flex items-center gap-2 mb-2">
+        <Percent className="h-4 w-4 text-purple-700" />
+        Contract-wide Resale Royalty
+      </h4>
+
+      {!settings ? (
+        <p className="text-gray-600">The current royalty could not be read. It can only be read once a batch has been minted.</p>
+      ) : (
+        <p className="text-gray-700">
+          {settings.basisPoints > 0
+            ? <>
+                {settings.basisPoints / 100}% to {formatAddress(settings.receiver)}
+                {account && settings.receiver.toLowerCase() === account.toLowerCase() && ' (you)'}.
+                {' '}A {EXAMPLE_SALE_PRICE} ETH resale owes {(EXAMPLE_SALE_PRICE * settings.basisPoints) / 10000} ETH.
+              </>
+            : 'No royalty is set.'}
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        One royalty applies to every batch on this contract and only administrators can change it.
+      </p>
+
+      {isAdmin && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Recipient</label>
+            <input type="text" value={recipient} onChange={(e) => setRecipient(e.target.value)} placeholder="0x..." className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Royalty (%)</label>
+            <input type="number" min="0" max="100" step="0.01" value={percent} onChange={(e) => setPercent(e.target.value)} className={inputClass} />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !recipient.trim()}
+            className="md:col-span-3 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save Royalty'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoyaltySettingsPanel;
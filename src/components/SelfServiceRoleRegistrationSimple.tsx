@@ -1,7 +1,10 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { User, Truck, ShoppingCart, Shield, X, Check, AlertCircle, Loader2 } from 'lucide-react';
-import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { User, Truck, ShoppingCart, Shield, X, Check, AlertCircle, Loader2, Clock } from 'lucide-react';
+import { useWeb3Enhanced, RoleRegistrationStep } from '../contexts/Web3ContextEnhanced';
 import { useToast } from '../contexts/ToastContext';
+import { useMyRoleRequests } from '../hooks/useUserManagement';
+import { RoleRequestRole } from '../utils/ipfs';
+import RoleRequestPanel from './RoleRequestPanel';
 
 interface SelfServiceRoleRegistrationSimpleProps {
   onRegistrationComplete: () => void;
@@ -21,6 +24,7 @@ interface RoleOption {
   bgColor: string;
   benefits: string[];
   restrictions?: string[];
+  requiresApproval?: boolean; // Requested from an admin instead of self-registered
 }
 
 const roleOptions: RoleOption[] = [
@@ -37,7 +41,12 @@ const roleOptions: RoleOption[] = [
       'Verify crop authenticity',
       'Direct market access',
       'Transparent pricing'
-    ]
+    ],
+    restrictions: [
+      'Reviewed by a cooperative admin',
+      'Farm details and documents required'
+    ],
+    requiresApproval: true
   },
   {
     id: 'transporter',
@@ -52,7 +61,12 @@ const roleOptions: RoleOption[] = [
       'Verify delivery completion',
       'Earn transport fees',
       'Build reputation score'
-    ]
+    ],
+    restrictions: [
+      'Reviewed by a cooperative admin',
+      'Company details and documents required'
+    ],
+    requiresApproval: true
   },
   {
     id: 'buyer',
@@ -100,8 +114,9 @@ const roleOptions: RoleOption[] = [
  * 
  * Key Features:
  * - Self-service role selection
+ * - Farmer and transporter roles requested for admin approval
  * - Multiple role support
- * - Local storage persistence
+ * - Roles confirmed on-chain before they take effect
  * - No external Web3 library dependencies
  * - Clear role descriptions and benefits
  * - Responsive design
@@ -120,12 +135,26 @@ const SelfServiceRoleRegistrationSimple: React.FC<SelfServiceRoleRegistrationSim
   showSkipOption = true,
   isModal = true
 }) => {
-  const { account, isConnected, registerRoles, isRegistering } = useWeb3Enhanced();
+  const {
+    isConnected,
+    userRoles,
+    registrationSteps,
+    registerRoles,
+    retryFailedRoles,
+    dismissRegistration,
+    isRegistering,
+  } = useWeb3Enhanced();
   const { addToast } = useToast();
 
+  // Announces decisions, so an approval lifts this overlay without a reload
+  const { requests } = useMyRoleRequests({ notify: true });
+
   // Local state
   const [selectedRoles, setSelectedRoles] = useState<UserRole[]>([]);
-  const [showConfirmation, setShowConfirmation] = useState(false);
+  const [requestRole, setRequestRole] = useState<RoleRequestRole | null>(null);
+  const pendingRequests = requests.filter(request => request.status === 'pending');
+  const showProgress = registrationSteps.length > 0;
+  const failedSteps = registrationSteps.filter(step => step.status === 'failed');
 
   // Helper function to render icons
   const renderIcon = (iconType: string) => {
@@ -144,27 +173,21 @@ const SelfServiceRoleRegistrationSimple: React.FC<SelfServiceRoleRegistrationSim
     }
   };
 
-  // Check if user already has roles
+  // Registration is complete once the contract reports a role for the user
   useEffect(() => {
-    if (account) {
-      const stored = localStorage.getItem(`greenledger_user_roles_${account}`);
-      if (stored) {
-        try {
-          const data = JSON.parse(stored);
-          if (data.roles && data.roles.length > 0) {
-            // User already has roles, complete registration
-            onRegistrationComplete();
-            return;
-          }
-        } catch (error) {
-          console.error('Failed to parse stored roles:', error);
-        }
-      }
+    if (userRoles.length > 0 && registrationSteps.length === 0) {
+      onRegistrationComplete();
     }
-  }, [account, onRegistrationComplete]);
+  }, [userRoles, registrationSteps, onRegistrationComplete]);
 
   // Toggle role selection
   const toggleRole = useCallback((roleId: UserRole) => {
+    // Vetted roles go through the request form instead of direct registration
+    if (roleOptions.find(role => role.id === roleId)?.requiresApproval) {
+      setRequestRole(roleId as RoleRequestRole);
+      return;
+    }
+
     setSelectedRoles(prev => {
       if (prev.includes(roleId)) {
         return prev.filter(id => id !== roleId);
@@ -192,28 +215,44 @@ const SelfServiceRoleRegistrationSimple: React.FC<SelfServiceRoleRegistrationSim
     }
 
     try {
-      // Use the Web3Enhanced registerRoles method
+      // Submits the registration; the context tracks it as pending until it is mined
       await registerRoles(selectedRoles);
-
-      addToast(
-        `Successfully registered as: ${selectedRoles.map(role =>
-          roleOptions.find(r => r.id === role)?.title
-        ).join(', ')}`,
-        'success'
-      );
-
-      setShowConfirmation(true);
-
-      // Auto-close confirmation after 3 seconds
-      setTimeout(() => {
-        onRegistrationComplete();
-      }, 3000);
-
     } catch (error: any) {
       console.error('Role registration failed:', error);
-      addToast('Failed to register roles. Please try again.', 'error');
     }
-  }, [isConnected, selectedRoles, registerRoles, addToast, onRegistrationComplete]);
+  }, [isConnected, selectedRoles, registerRoles, addToast]);
+
+  // Helper function to describe where a role's registration stands
+  const renderStepStatus = (step: RoleRegistrationStep) => {
+    switch (step.status) {
+      case 'queued':
+        return <span className="text-gray-500">Waiting</span>;
+      case 'signing':
+        return (
+          <span className="flex items-center gap-1 text-blue-600">
+            <Loader2 className="w-4 h-4 animate-spin" /> Confirm in your wallet
+          </span>
+        );
+      case 'confirming':
+        return (
+          <span className="flex items-center gap-1 text-yellow-600">
+            <Loader2 className="w-4 h-4 animate-spin" /> Awaiting on-chain confirmation
+          </span>
+        );
+      case 'confirmed':
+        return (
+          <span className="flex items-center gap-1 text-green-600">
+            <Check className="w-4 h-4" /> Confirmed
+          </span>
+        );
+      case 'failed':
+        return (
+          <span className="flex items-center gap-1 text-red-600">
+            <AlertCircle className="w-4 h-4" /> Failed
+          </span>
+        );
+    }
+  };
 
   // Handle skip
   const handleSkip = useCallback(() => {
@@ -236,28 +275,62 @@ const SelfServiceRoleRegistrationSimple: React.FC<SelfServiceRoleRegistrationSim
   return (
     <div className={containerClasses}>
       <div className={contentClasses}>
-        {/* Success Confirmation */}
-        {showConfirmation && (
-          <div className="p-8 text-center">
-            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <Check className="w-8 h-8 text-green-600" />
-            </div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">
-              Registration Complete!
+        {/* Registration Progress */}
+        {showProgress && (
+          <div className="p-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">
+              {isRegistering ? 'Registering Your Roles' : failedSteps.length > 0 ? 'Some Roles Were Not Registered' : 'Finishing Up'}
             </h2>
-            <p className="text-gray-600 mb-4">
-              You've successfully registered as: {selectedRoles.map(role => 
-                roleOptions.find(r => r.id === role)?.title
-              ).join(', ')}
-            </p>
-            <p className="text-sm text-gray-500">
-              Redirecting to dashboard...
+            <p className="text-gray-600 mb-6 text-center">
+              Each role is a separate transaction and takes effect once it is confirmed on-chain.
             </p>
+
+            <div className="space-y-3 max-w-xl mx-auto">
+              {registrationSteps.map(step => (
+                <div key={step.roleId} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-900">
+                      {roleOptions.find(r => r.id === step.roleId)?.title}
+                    </span>
+                    {renderStepStatus(step)}
+                  </div>
+                  {step.error && (
+                    <p className="text-xs text-red-600 mt-2 break-words">{step.error}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {!isRegistering && failedSteps.length > 0 && (
+              <div className="flex justify-center gap-3 mt-6">
+                {userRoles.length > 0 && (
+                  <button
+                    onClick={dismissRegistration}
+                    className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors rounded-lg hover:bg-gray-100"
+                  >
+                    Continue without them
+                  </button>
+                )}
+                <button
+                  onClick={() => retryFailedRoles()}
+                  className="px-6 py-2 rounded-lg font-medium bg-green-600 hover:bg-green-700 text-white shadow-md hover:shadow-lg transition-all"
+                >
+                  Retry {failedSteps.length} Failed {failedSteps.length > 1 ? 'Roles' : 'Role'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Role Request */}
+        {!showProgress && requestRole && (
+          <div className="p-6">
+            <RoleRequestPanel initialRole={requestRole} onClose={() => setRequestRole(null)} />
           </div>
         )}
 
         {/* Main Registration Form */}
-        {!showConfirmation && (
+        {!showProgress && !requestRole && (
           <>
             {/* Header */}
             <div className="p-6 border-b border-gray-200">
@@ -292,6 +365,19 @@ const SelfServiceRoleRegistrationSimple: React.FC<SelfServiceRoleRegistrationSim
               </div>
             )}
 
+            {/* Pending Role Requests */}
+            {pendingRequests.length > 0 && (
+              <div className="p-4 bg-blue-50 border-b border-blue-200">
+                <div className="flex items-center space-x-2 text-blue-800 text-sm">
+                  <Clock className="w-5 h-5" />
+                  <span>
+                    Your {pendingRequests.map(request => roleOptions.find(r => r.id === request.role)?.title).join(' and ')}{' '}
+                    request{pendingRequests.length > 1 ? 's are' : ' is'} awaiting admin review. You will be notified when it is decided.
+                  </span>
+                </div>
+              </div>
+            )}
+
             {/* Role Selection */}
             <div className="p-6">
               <div className="mb-6">
@@ -300,6 +386,7 @@ const SelfServiceRoleRegistrationSimple: React.FC<SelfServiceRoleRegistrationSim
                 </h3>
                 <p className="text-gray-600 text-sm">
                   You can select multiple roles. Each role provides different capabilities within the platform.
+                  Farmer and transporter roles are requested from a cooperative admin.
                 </p>
               </div>
 
@@ -426,7 +513,7 @@ const SelfServiceRoleRegistrationSimple: React.FC<SelfServiceRoleRegistrationSim
               <div className="flex items-center justify-between">
                 <div className="text-sm text-gray-600">
                   <p>You can change your roles later in your profile settings</p>
-                  <p className="text-xs mt-1">Roles are stored locally and will sync when blockchain features are available</p>
+                  <p className="text-xs mt-1">Roles are read from the UserManagement contract and apply once confirmed on-chain</p>
                 </div>
                 
                 <div className="flex space-x-3">
@@ -1,5 +1,6 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
+import { useWeb3Enhanced, UserRole } from '../contexts/Web3ContextEnhanced';
 import {
   Home,
   ShoppingCart,
@@ -11,7 +12,16 @@ import {
   Shield,
   Coins,
   Send,
-  Search
+  Search,
+  Tag,
+  ClipboardList,
+  Navigation,
+  Gavel,
+  Fuel,
+  Users,
+  UserCheck,
+  KeyRound,
+  Percent
 } from 'lucide-react';
 
 interface SidebarSimpleProps {
@@ -19,15 +29,25 @@ interface SidebarSimpleProps {
   toggleSidebar: () => void;
 }
 
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: React.ComponentType<{ className?: string }>;
+  description: string;
+  roles?: UserRole['id'][]; // Same as the route's RoleGuard; any one of these shows the item
+}
+
 /**
  * Simple Sidebar Component
  * 
  * A clean, responsive sidebar navigation that works without
  * complex Web3 dependencies. Provides navigation to all
- * main application features.
+ * main application features the connected account's roles allow.
  */
 const SidebarSimple: React.FC<SidebarSimpleProps> = ({ isOpen, toggleSidebar }) => {
-  const navigationItems = [
+  const { hasRole } = useWeb3Enhanced();
+
+  const navigationItems: NavigationItem[] = [
     {
       name: 'Dashboard',
       href: '/',
@@ -38,13 +58,15 @@ const SidebarSimple: React.FC<SidebarSimpleProps> = ({ isOpen, toggleSidebar })
       name: 'Tokenize Crop',
       href: '/tokenize',
       icon: Coins,
-      description: 'Create NFT with provenance'
+      description: 'Create NFT with provenance',
+      roles: ['farmer', 'admin']
     },
     {
       name: 'Transfer Ownership',
       href: '/transfer',
       icon: Send,
-      description: 'Transfer tokens with tracking'
+      description: 'Transfer tokens with tracking',
+      roles: ['farmer', 'transporter']
     },
     {
       name: 'Supply Chain Explorer',
@@ -58,12 +80,73 @@ const SidebarSimple: React.FC<SidebarSimpleProps> = ({ isOpen, toggleSidebar })
       icon: ShoppingCart,
       description: 'Browse crop batches'
     },
+    {
+      name: 'My Listings',
+      href: '/listings',
+      icon: Tag,
+      description: 'List and manage your batches'
+    },
     {
       name: 'Checkout and Track',
       href: '/track',
       icon: Truck,
       description: 'Complete purchases and track batches'
     },
+    {
+      name: 'My Orders',
+      href: '/orders',
+      icon: ClipboardList,
+      description: 'Payment and fulfilment status',
+      roles: ['buyer', 'farmer', 'transporter']
+    },
+    {
+      name: 'Transport',
+      href: '/transport',
+      icon: Navigation,
+      description: 'Transporter profile and job board',
+      roles: ['transporter']
+    },
+    {
+      name: 'Connected Operators',
+      href: '/operators',
+      icon: KeyRound,
+      description: 'Who can move your tokens'
+    },
+    {
+      name: 'Disputes',
+      href: '/disputes',
+      icon: Gavel,
+      description: 'Review and resolve disputes',
+      roles: ['admin']
+    },
+    {
+      name: 'Gas Sponsorship',
+      href: '/paymaster',
+      icon: Fuel,
+      description: 'Paymaster funds and rules',
+      roles: ['admin']
+    },
+    {
+      name: 'Users & Roles',
+      href: '/admin/users',
+      icon: Users,
+      description: 'Grant and revoke user roles',
+      roles: ['admin']
+    },
+    {
+      name: 'Role Requests',
+      href: '/admin/role-requests',
+      icon: UserCheck,
+      description: 'Review farmer and transporter applications',
+      roles: ['admin']
+    },
+    {
+      name: 'Resale Royalty',
+      href: '/admin/royalty',
+      icon: Percent,
+      description: 'Royalty owed on every batch resale',
+      roles: ['admin']
+    },
     {
       name: 'Profile',
       href: '/profile',
@@ -78,6 +161,8 @@ const SidebarSimple: React.FC<SidebarSimpleProps> = ({ isOpen, toggleSidebar })
     }
   ];
 
+  const visibleItems = navigationItems.filter(item => !item.roles || item.roles.some(role => hasRole(role)));
+
   return (
     <>
       {/* Mobile Overlay */}
@@ -117,7 +202,7 @@ const SidebarSimple: React.FC<SidebarSimpleProps> = ({ isOpen, toggleSidebar })
 
         {/* Navigation */}
         <nav className="p-4 space-y-2">
-          {navigationItems.map((item) => {
+          {visibleItems.map((item) => {
             const Icon = item.icon;
             return (
               <NavLink
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { formatEther } from 'viem';
+import type { SponsoredOperation } from '../hooks/usePaymaster';
+
+interface SponsoredOperationsChartProps {
+  operations: SponsoredOperation[];
+  days?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sponsored Operations Chart
+ *
+ * Daily bar chart of the user operations the paymaster has paid for,
+ * with the gas spent on each day shown on hover.
+ */
+const SponsoredOperationsChart: React.FC<SponsoredOperationsChartProps> = ({ operations, days = 30 }) => {
+  const buckets = useMemo(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const firstDay = today.getTime() - (days - 1) * DAY_MS;
+
+    const result = Array.from({ length: days }, (_, index) => ({
+      day: new Date(firstDay + index * DAY_MS),
+      count: 0,
+      gasCost: 0n,
+    }));
+
+    operations.forEach(operation => {
+      const index = Math.floor((operation.timestamp - firstDay) / DAY_MS);
+      if (index >= 0 && index < days) {
+        result[index].count += 1;
+        result[index].gasCost += operation.actualGasCost;
+      }
+    });
+
+    return result;
+  }, [operations, days]);
+
+  const maxCount = Math.max(1, ...buckets.map(bucket => bucket.count));
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-40 border-b border-l border-gray-200 px-1">
+        {buckets.map(bucket => (
+          <div
+            key={bucket.day.getTime()}
+            className="flex-1 flex flex-col justify-end h-full group relative"
+          >
+            <div
+              className={`w-full rounded-t ${bucket.count > 0 ? 'bg-green-500 group-hover:bg-green-600' : 'bg-gray-100'}`}
+              style={{ height: `${Math.max(2, (bucket.count / maxCount) * 100)}%` }}
+            />
+            <div className="hidden group-hover:block absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-gray-900 text-white text-xs rounded whitespace-nowrap z-10">
+              <p>{bucket.day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</p>
+              <p>{bucket.count} operation{bucket.count === 1 ? '' : 's'}</p>
+              <p>{formatEther(bucket.gasCost)} ETH gas</p>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{buckets[0].day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+};
+
+export default SponsoredOperationsChart;
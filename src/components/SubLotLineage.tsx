@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GitBranch, Sprout, ArrowDown, ExternalLink } from 'lucide-react';
+import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { findHolderLots, getLotLineage, SubLot } from '../utils/subLots';
+import { formatAddress, getBlockExplorerUrl } from '../utils';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SubLotLineageProps {
+  tokenId: number;
+  holder?: string;
+  className?: string;
+}
+
+/**
+ * Sub-lot Lineage
+ *
+ * Shows each lot of a batch the holder owns, traced through every partial
+ * sale or transfer it was split from back to the original harvest.
+ */
+const SubLotLineage: React.FC<SubLotLineageProps> = ({ tokenId, holder, className = '' }) => {
+  const { getSubLots, refreshTrigger } = useCropBatchToken();
+  const [lineages, setLineages] = useState<SubLot[][]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadLineage = useCallback(async () => {
+    if (!holder) return;
+
+    setIsLoading(true);
+    try {
+      const roots = await getSubLots(tokenId);
+      setLineages(findHolderLots(roots, holder).map(lot => getLotLineage(roots, lot.id)));
+    } catch (error) {
+      console.error(`Failed to load sub-lots for token ${tokenId}:`, error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenId, holder, getSubLots]);
+
+  useEffect(() => {
+    loadLineage();
+  }, [loadLineage, refreshTrigger]);
+
+  if (!holder) return null;
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-4 ${className}`}>
+      <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+        <GitBranch className="h-4 w-4 text-green-600" />
+        Your Lots of Token #{tokenId}
+      </h3>
+
+      {isLoading && lineages.length === 0 ? (
+        <LoadingSpinner variant="minimal" size="sm" text="Tracing lots..." />
+      ) : lineages.length === 0 ? (
+        <p className="text-sm text-gray-600">You don't hold any of this batch.</p>
+      ) : (
+        <div className="space-y-4">
+          {lineages.map(lineage => {
+            const lot = lineage[lineage.length - 1];
+            return (
+              <div key={lot.id} className="border border-gray-100 rounded-lg p-3">
+                <p className="text-sm font-medium text-gray-900 mb-2">
+                  Lot #{lot.id} · {lot.remaining} kg held
+                </p>
+                <ol className="space-y-1">
+                  {lineage.map((step, index) => (
+                    <li key={step.id}>
+                      {index > 0 && <ArrowDown className="h-3 w-3 text-gray-400 ml-1 mb-1" />}
+                      <div className="flex items-center justify-between gap-2 text-xs text-gray-700">
+                        <span className="flex items-center gap-1">
+                          {index === 0 && <Sprout className="h-3 w-3 text-green-600" />}
+                          {index === 0 ? 'Harvest lot' : 'Sub-lot'} #{step.id} · {step.quantity} kg to {formatAddress(step.holder)}
+                          {step.timestamp ? ` · ${new Date(step.timestamp).toLocaleDateString()}` : ''}
+                        </span>
+                        <a
+                          href={getBlockExplorerUrl(step.transactionHash)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-green-700 hover:underline flex-shrink-0"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubLotLineage;
@@ -21,6 +21,27 @@ export const CONTRACT_ADDRESSES = {
   SupplyChainManager: import.meta.env.VITE_SUPPLY_CHAIN_MANAGER_CONTRACT_ADDRESS || '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
 } as const;
 
+// Event Indexer Configuration
+export const INDEXER_CONFIG = {
+  // Block the contracts were deployed at, where scanning starts; required, the indexer refuses to sync without it
+  START_BLOCK: import.meta.env.VITE_INDEXER_START_BLOCK ? Number(import.meta.env.VITE_INDEXER_START_BLOCK) : null,
+  LOG_CHUNK_SIZE: 10000, // blocks per getLogs request
+  BLOCK_FETCH_CONCURRENCY: 10, // getBlock requests in flight at once
+  MIN_LOG_CHUNK_SIZE: 500,
+  REORG_DEPTH: 64, // blocks re-indexed when a reorg is detected
+  MIN_SYNC_INTERVAL_MS: 5000,
+} as const;
+
+// Gas Sponsorship (ERC-4337) Configuration
+export const SPONSORSHIP_CONFIG = {
+  // Sponsorship is off when no bundler is configured; every write then goes out as a regular transaction
+  BUNDLER_URL: import.meta.env.VITE_BUNDLER_URL || '',
+  // Solady smart account factory; viem's default deployment is used when unset
+  SMART_ACCOUNT_FACTORY: import.meta.env.VITE_SMART_ACCOUNT_FACTORY_ADDRESS || '',
+  PAYMASTER_VERIFICATION_GAS_LIMIT: 150000n,
+  PAYMASTER_POST_OP_GAS_LIMIT: 50000n,
+} as const;
+
 // WalletConnect Configuration
 export const WALLETCONNECT_PROJECT_ID = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || 'a2b252199b53298a09b4344c2ae77d33';
 
@@ -141,6 +162,13 @@ export const TRANSPORTER_STATUS = {
 // Default Admin Role Hash for AccessControl
 export const DEFAULT_ADMIN_ROLE = '0x0000000000000000000000000000000000000000000000000000000000000000';
 
+// UserManagement Role Hashes (keccak256 of 'FARMER_ROLE' etc.)
+export const ROLE_HASHES = {
+  FARMER: '0x7c6181838a71a779e445600d4c6ecbe16bacf2b3c5bda69c29fada66d1b645d1',
+  TRANSPORTER: '0xddaa901e2fe3bda354fe0ede2785152d5c109282a613fe024a056a3e66c41bb3',
+  BUYER: '0xf8cd32ed93fc2f9fc78152a14807c9609af3d99c5fe4dc6b106a801aaddfe90e',
+} as const;
+
 // Form Validation Constants
 export const VALIDATION_LIMITS = {
   MAX_QUANTITY_KG: 100,
@@ -149,6 +177,19 @@ export const VALIDATION_LIMITS = {
   MAX_IMAGE_SIZE_BYTES: 10 * 1024 * 1024,
 } as const;
 
+// Crop categories offered when tokenizing a batch
+export const CROP_CATEGORIES = [
+  'Cereals',
+  'Fruits',
+  'Legumes',
+  'Livestock',
+  'Vegetables',
+  'Nuts & Seeds',
+  'Herbs & Spices',
+  'Fiber Crops',
+  'Other',
+] as const;
+
 // Toast Configuration
 export const TOAST_CONFIG = {
   DEFAULT_DURATION: 5000,
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { useToast } from './ToastContext';
+import { CropMetadata } from '../utils/ipfs';
 
 // Types
 export interface CartItem {
@@ -11,6 +12,9 @@ export interface CartItem {
   harvestDate: number;
   image?: string;
   price?: number; // Future implementation
+  listingId?: number; // Marketplace listing the order is created against
+  maxQuantity?: number; // kg still available in the listing; quantity is a sub-lot of at most this
+  location?: CropMetadata['location']; // Farm location, used for transport quotes
   owner: string;
   addedAt: number;
 }
@@ -83,6 +87,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       const newItem: CartItem = {
         ...item,
+        quantity: item.maxQuantity !== undefined ? Math.min(item.quantity, item.maxQuantity) : item.quantity,
         addedAt: Date.now(),
       };
 
@@ -102,21 +107,30 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   }, [addToast]);
 
-  // Update item quantity (for future use when quantities can be modified)
+  // Update the kg to buy, capped at what the listing still has available
   const updateQuantity = useCallback((tokenId: number, quantity: number) => {
-    if (quantity <= 0) {
+    const wholeKg = Math.floor(quantity);
+    if (wholeKg <= 0) {
       removeFromCart(tokenId);
       return;
     }
 
+    // Warn here rather than in the updater, which StrictMode runs twice
+    const item = items.find(cartItem => cartItem.tokenId === tokenId);
+    const capped = item?.maxQuantity !== undefined && wholeKg > item.maxQuantity;
+    if (capped) {
+      addToast(`Only ${item.maxQuantity} kg of ${item.name} is available`, 'warning');
+    }
+
     setItems(currentItems =>
-      currentItems.map(item =>
-        item.tokenId === tokenId
-          ? { ...item, quantity }
-          : item
-      )
+      currentItems.map(cartItem => {
+        if (cartItem.tokenId !== tokenId) return cartItem;
+
+        const available = cartItem.maxQuantity ?? wholeKg;
+        return { ...cartItem, quantity: Math.min(wholeKg, available) };
+      })
     );
-  }, [removeFromCart]);
+  }, [items, removeFromCart, addToast]);
 
   // Clear entire cart
   const clearCart = useCallback(() => {
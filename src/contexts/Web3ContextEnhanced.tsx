@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useCallback, useState, useEffect } from "react";
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { useAccount, usePublicClient, useReadContract, useWriteContract } from "wagmi";
 import { CONTRACT_ADDRESSES, DEFAULT_ADMIN_ROLE } from "../config/constants";
+import { getErrorMessage } from "../utils";
 import { useToast } from "./ToastContext";
 
 // Types
@@ -11,20 +12,32 @@ export interface UserRole {
   timestamp: number;
 }
 
+export type RoleRegistrationStatus = 'queued' | 'signing' | 'confirming' | 'confirmed' | 'failed';
+
+export interface RoleRegistrationStep {
+  roleId: UserRole['id'];
+  status: RoleRegistrationStatus;
+  error?: string;
+}
+
 export interface Web3ContextEnhancedType {
   // Account & Connection
   account: string | undefined;
   isConnected: boolean;
   
-  // Role Management
+  // Role Management (read from UserManagement only)
   userRoles: UserRole[];
   hasRole: (roleId: string) => boolean;
   isAdmin: boolean;
+  isLoadingRoles: boolean;
   needsRoleRegistration: boolean;
   
   // Role Registration
   registerRoles: (roles: string[]) => Promise<void>;
+  retryFailedRoles: () => Promise<void>;
+  dismissRegistration: () => void;
   isRegistering: boolean;
+  registrationSteps: RoleRegistrationStep[]; // Progress of the current registration, one step per role
   
   // Contract Interactions
   isContractReady: boolean;
@@ -32,7 +45,6 @@ export interface Web3ContextEnhancedType {
   
   // Utility Methods
   refreshUserData: () => Promise<void>;
-  clearLocalData: () => void;
 }
 
 // Context
@@ -46,26 +58,45 @@ const ROLE_MAPPING = {
   admin: 3,
 } as const;
 
+const ROLE_TITLES: Record<UserRole['id'], string> = {
+  farmer: 'Farmer',
+  transporter: 'Transporter',
+  buyer: 'Buyer',
+  admin: 'Admin',
+};
+
+// Roles used to be cached under this prefix. Those entries were never verified
+// on-chain, so they are removed rather than trusted.
+const LEGACY_ROLE_STORAGE_PREFIX = 'greenledger_user_roles_';
+
+// Helper function to remove role entries left in localStorage by earlier versions
+const clearLegacyRoleStorage = () => {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(LEGACY_ROLE_STORAGE_PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.warn('Failed to clear stored roles:', error);
+  }
+};
+
 // Provider Component
 export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { address: account, isConnected } = useAccount();
+  const publicClient = usePublicClient();
   const { addToast } = useToast();
   
   // Local state
   const [userRoles, setUserRoles] = useState<UserRole[]>([]);
   const [isRegistering, setIsRegistering] = useState(false);
+  const [registrationSteps, setRegistrationSteps] = useState<RoleRegistrationStep[]>([]);
   const [contractError, setContractError] = useState<string | null>(null);
-  const [needsRoleRegistration, setNeedsRoleRegistration] = useState(false);
 
   // Contract hooks
-  const { writeContract, data: hash, error: writeError, isPending: isWritePending } = useWriteContract();
-  
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
+  const { writeContractAsync, error: writeError } = useWriteContract();
 
   // Read user roles from contract (if available)
-  const { data: contractRoles, error: readError, refetch: refetchRoles } = useReadContract({
+  const { data: contractRoles, error: readError, isLoading: isLoadingContractRoles, refetch: refetchRoles } = useReadContract({
     address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
     abi: [
       {
@@ -90,7 +121,7 @@ export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }
   });
 
   // Check if user has admin role on-chain
-  const { data: hasAdminRole } = useReadContract({
+  const { data: hasAdminRole, isLoading: isLoadingAdminRole, refetch: refetchAdminRole } = useReadContract({
     address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
     abi: [
       {
@@ -111,75 +142,58 @@ export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }
     },
   });
 
-  // Load user roles on account change
+  // Drop stale role entries from earlier versions once per session
   useEffect(() => {
-    if (account && isConnected) {
-      loadUserRoles();
-    } else {
+    clearLegacyRoleStorage();
+  }, []);
+
+  // Forget registration progress when the account changes
+  useEffect(() => {
+    setRegistrationSteps([]);
+    setIsRegistering(false);
+  }, [account]);
+
+  // Build roles from the contract reads only
+  useEffect(() => {
+    if (!account || !isConnected) {
       setUserRoles([]);
-      setNeedsRoleRegistration(false);
+      return;
     }
-  }, [account, isConnected]);
 
-  // Handle contract role data
-  useEffect(() => {
+    const onChainRoles: UserRole['id'][] = [];
     if (contractRoles && Array.isArray(contractRoles) && contractRoles.length === 3) {
       const [isFarmer, isTransporter, isBuyer] = contractRoles;
-      const onChainRoles: UserRole[] = [];
-
-      if (isFarmer) {
-        onChainRoles.push({
-          id: 'farmer',
-          title: 'Farmer',
-          onChain: true,
-          timestamp: Date.now(),
-        });
-      }
-
-      if (isTransporter) {
-        onChainRoles.push({
-          id: 'transporter',
-          title: 'Transporter',
-          onChain: true,
-          timestamp: Date.now(),
-        });
-      }
-
-      if (isBuyer) {
-        onChainRoles.push({
-          id: 'buyer',
-          title: 'Buyer',
-          onChain: true,
-          timestamp: Date.now(),
-        });
-      }
-
-      // Merge with local roles
-      const localRoles = getLocalRoles();
-      const mergedRoles = mergeRoles(localRoles, onChainRoles);
-      setUserRoles(mergedRoles);
-      setNeedsRoleRegistration(mergedRoles.length === 0);
+      if (isFarmer) onChainRoles.push('farmer');
+      if (isTransporter) onChainRoles.push('transporter');
+      if (isBuyer) onChainRoles.push('buyer');
     }
-  }, [contractRoles, account]);
+    if (hasAdminRole) onChainRoles.push('admin');
 
-  // Handle transaction confirmation
+    setUserRoles(onChainRoles.map(id => ({
+      id,
+      title: ROLE_TITLES[id],
+      onChain: true,
+      timestamp: Date.now(),
+    })));
+  }, [contractRoles, hasAdminRole, account, isConnected]);
+
+  // Registration is finished once every role it sent is reported by the contract
   useEffect(() => {
-    if (isConfirmed && hash) {
-      addToast('Role registration confirmed on blockchain!', 'success');
-      setIsRegistering(false);
-      refreshUserData();
+    if (
+      registrationSteps.length > 0 &&
+      registrationSteps.every(step => step.status === 'confirmed' && userRoles.some(role => role.id === step.roleId))
+    ) {
+      setRegistrationSteps([]);
     }
-  }, [isConfirmed, hash, addToast]);
+  }, [registrationSteps, userRoles]);
 
   // Handle errors
   useEffect(() => {
     if (writeError) {
       console.error('Contract write error:', writeError);
       setContractError(writeError.message);
-      addToast('Failed to register roles on blockchain', 'error');
-      setIsRegistering(false);
     }
-  }, [writeError, addToast]);
+  }, [writeError]);
 
   useEffect(() => {
     if (readError) {
@@ -188,62 +202,17 @@ export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }
     }
   }, [readError]);
 
-  // Load user roles from local storage and contract
-  const loadUserRoles = useCallback(async () => {
+  // Refresh user data
+  const refreshUserData = useCallback(async () => {
     if (!account) return;
+    await Promise.all([refetchRoles(), refetchAdminRole()]);
+  }, [account, refetchRoles, refetchAdminRole]);
 
-    try {
-      const localRoles = getLocalRoles();
-      setUserRoles(localRoles);
-      
-      // If no local roles, user needs registration
-      if (localRoles.length === 0) {
-        setNeedsRoleRegistration(true);
-      }
-
-      // Refetch contract data
-      await refetchRoles();
-    } catch (error) {
-      console.error('Failed to load user roles:', error);
-    }
-  }, [account, refetchRoles]);
-
-  // Get local roles from storage
-  const getLocalRoles = useCallback((): UserRole[] => {
-    if (!account) return [];
-
-    try {
-      const stored = localStorage.getItem(`greenledger_user_roles_${account}`);
-      if (stored) {
-        const data = JSON.parse(stored);
-        return data.roles || [];
-      }
-    } catch (error) {
-      console.error('Failed to parse stored roles:', error);
-    }
-    return [];
-  }, [account]);
-
-  // Merge local and on-chain roles
-  const mergeRoles = useCallback((localRoles: UserRole[], onChainRoles: UserRole[]): UserRole[] => {
-    const roleMap = new Map<string, UserRole>();
-
-    // Add local roles first
-    localRoles.forEach(role => {
-      roleMap.set(role.id, role);
-    });
-
-    // Override with on-chain roles (they take precedence)
-    onChainRoles.forEach(role => {
-      roleMap.set(role.id, role);
-    });
-
-    return Array.from(roleMap.values());
-  }, []);
-
-  // Register roles (both locally and on-chain)
+  // Register roles on-chain. UserManagement takes one role per registerUser call and has
+  // no batch variant, so each missing role is sent as its own transaction, in sequence.
+  // Roles the contract already reports are skipped, which makes a retry resend only the failures.
   const registerRoles = useCallback(async (roleIds: string[]) => {
-    if (!account || !isConnected) {
+    if (!account || !isConnected || !publicClient) {
       addToast('Please connect your wallet first', 'warning');
       return;
     }
@@ -253,42 +222,28 @@ export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }
       return;
     }
 
+    const missingRoles = (roleIds as UserRole['id'][]).filter(roleId => !userRoles.some(role => role.id === roleId));
+    if (missingRoles.length === 0) {
+      addToast('You already hold the selected roles', 'info');
+      return;
+    }
+
     setIsRegistering(true);
     setContractError(null);
+    setRegistrationSteps(prev => [
+      ...prev.filter(step => !missingRoles.includes(step.roleId)),
+      ...missingRoles.map(roleId => ({ roleId, status: 'queued' as const })),
+    ]);
 
-    try {
-      // Store roles locally first (immediate access)
-      const newRoles: UserRole[] = roleIds.map(roleId => ({
-        id: roleId as UserRole['id'],
-        title: roleId.charAt(0).toUpperCase() + roleId.slice(1),
-        onChain: false,
-        timestamp: Date.now(),
-      }));
-
-      const roleData = {
-        address: account,
-        roles: newRoles,
-        timestamp: Date.now(),
-        isOnChain: false,
-      };
-
-      localStorage.setItem(`greenledger_user_roles_${account}`, JSON.stringify(roleData));
-      setUserRoles(newRoles);
-      setNeedsRoleRegistration(false);
-
-      addToast(
-        `Roles registered locally: ${newRoles.map(r => r.title).join(', ')}`,
-        'success'
-      );
-
-      // Try to register on-chain (optional, can fail gracefully)
-      // Note: UserManagement contract only supports single role registration
-      try {
-        // Register the first role on-chain (UserManagement limitation)
-        const primaryRoleId = roleIds[0];
-        const contractRoleId = ROLE_MAPPING[primaryRoleId as keyof typeof ROLE_MAPPING];
+    const updateStep = (roleId: UserRole['id'], update: Partial<RoleRegistrationStep>) => {
+      setRegistrationSteps(prev => prev.map(step => (step.roleId === roleId ? { ...step, ...update } : step)));
+    };
 
-        await writeContract({
+    let failures = 0;
+    for (const roleId of missingRoles) {
+      try {
+        updateStep(roleId, { status: 'signing', error: undefined });
+        const hash = await writeContractAsync({
           address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
           abi: [
             {
@@ -303,49 +258,51 @@ export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }
             },
           ],
           functionName: "registerUser",
-          args: [account as `0x${string}`, contractRoleId],
+          args: [account as `0x${string}`, ROLE_MAPPING[roleId]],
         });
 
-        addToast(`Submitting ${primaryRoleId} role registration to blockchain...`, 'info');
-        if (roleIds.length > 1) {
-          addToast('Note: Only primary role registered on-chain. Additional roles stored locally.', 'warning');
+        updateStep(roleId, { status: 'confirming' });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Transaction reverted');
         }
-      } catch (contractError) {
-        console.warn('On-chain registration failed, but local registration succeeded:', contractError);
-        addToast('Roles registered locally. Blockchain registration will be attempted later.', 'warning');
-        setIsRegistering(false);
+        updateStep(roleId, { status: 'confirmed' });
+      } catch (error) {
+        console.error(`${ROLE_TITLES[roleId]} registration failed:`, error);
+        failures += 1;
+        updateStep(roleId, { status: 'failed', error: getErrorMessage(error) });
       }
+    }
+
+    await refreshUserData();
+    setIsRegistering(false);
 
-    } catch (error: any) {
-      console.error('Role registration failed:', error);
-      addToast('Failed to register roles. Please try again.', 'error');
-      setIsRegistering(false);
+    if (failures === 0) {
+      addToast('Role registration confirmed on blockchain!', 'success');
+    } else {
+      addToast(`${failures} of ${missingRoles.length} role registration(s) failed. You can retry them.`, 'error');
     }
-  }, [account, isConnected, writeContract, addToast]);
+  }, [account, isConnected, publicClient, userRoles, writeContractAsync, refreshUserData, addToast]);
+
+  // Resend only the roles whose registration failed
+  const retryFailedRoles = useCallback(async () => {
+    const failedRoles = registrationSteps.filter(step => step.status === 'failed').map(step => step.roleId);
+    await registerRoles(failedRoles);
+  }, [registrationSteps, registerRoles]);
+
+  // Leave the registration flow, keeping whichever roles were confirmed
+  const dismissRegistration = useCallback(() => {
+    if (!isRegistering) {
+      setRegistrationSteps([]);
+    }
+  }, [isRegistering]);
 
   // Check if user has specific role
   const hasRole = useCallback((roleId: string): boolean => {
     return userRoles.some(role => role.id === roleId);
   }, [userRoles]);
 
-  // Check if user is admin
-  const isAdmin = useCallback((): boolean => {
-    return hasRole('admin') || Boolean(hasAdminRole);
-  }, [hasRole, hasAdminRole]);
-
-  // Refresh user data
-  const refreshUserData = useCallback(async () => {
-    await loadUserRoles();
-  }, [loadUserRoles]);
-
-  // Clear local data
-  const clearLocalData = useCallback(() => {
-    if (account) {
-      localStorage.removeItem(`greenledger_user_roles_${account}`);
-      setUserRoles([]);
-      setNeedsRoleRegistration(true);
-    }
-  }, [account]);
+  const isLoadingRoles = isConnected && !!account && (isLoadingContractRoles || isLoadingAdminRole);
 
   // Context value
   const contextValue: Web3ContextEnhancedType = {
@@ -356,12 +313,16 @@ export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }
     // Role Management
     userRoles,
     hasRole,
-    isAdmin: isAdmin(),
-    needsRoleRegistration,
+    isAdmin: Boolean(hasAdminRole),
+    isLoadingRoles,
+    needsRoleRegistration: isConnected && !isLoadingRoles && !readError && (userRoles.length === 0 || registrationSteps.length > 0),
     
     // Role Registration
     registerRoles,
-    isRegistering: isRegistering || isWritePending || isConfirming,
+    retryFailedRoles,
+    dismissRegistration,
+    isRegistering,
+    registrationSteps,
     
     // Contract Interactions
     isContractReady: !readError && !writeError,
@@ -369,7 +330,6 @@ export const Web3ContextEnhancedProvider: React.FC<{ children: React.ReactNode }
     
     // Utility Methods
     refreshUserData,
-    clearLocalData,
   };
 
   return (
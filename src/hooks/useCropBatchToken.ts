@@ -1,8 +1,13 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, usePublicClient, useWatchContractEvent } from 'wagmi';
-import { parseEther, formatEther, getAddress } from 'viem';
+import { parseEther, formatEther, parseEventLogs, isAddress, type Abi, type Hash, type TransactionReceipt } from 'viem';
 import { CONTRACT_ADDRESSES } from '../config/constants';
 import { useToast } from '../contexts/ToastContext';
+import { useSponsoredWriteContract, useOwnAddresses } from './useSponsoredWriteContract';
+import { loadIndexedEvents, getBlockTimestamps, invalidateEventIndex, IndexedEvent } from '../utils/eventIndexer';
+import { readBatchDetails, readTokensExist, readMetadataFrozen, readBalances, readRoyaltyInfo, RoyaltyQuery, RoyaltyQuote } from '../utils/tokenReads';
+import { buildSubLotTree, SubLot } from '../utils/subLots';
+import type { ContractCall } from '../utils/userOperations';
 import CropBatchTokenABI from '../contracts/CropBatchToken.json';
 
 export interface CropBatch {
@@ -13,9 +18,16 @@ export interface CropBatch {
   harvestDate: number;
   notes: string;
   metadataUri: string;
-  owner: string;
+  owner: string; // Largest current holder; see holders for split holdings
+  holders: TokenHolding[]; // Every address with a non-zero balance, largest first
   minter: string;
   timestamp: number;
+  metadataFrozen?: boolean;
+}
+
+export interface TokenHolding {
+  address: string;
+  quantity: number;
 }
 
 export interface MintParams {
@@ -28,6 +40,34 @@ export interface MintParams {
   metadataUri: string;
 }
 
+export interface MintedBatch {
+  tokenId: number;
+  metadataUri: string;
+}
+
+export interface MetadataVersion {
+  version: number; // 1 is the URI the batch was minted with
+  uri: string;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface MetadataHistory {
+  versions: MetadataVersion[]; // Oldest first; the last entry is the current URI
+  frozenAt?: number;
+}
+
+export interface RoyaltySettings {
+  receiver: string;
+  basisPoints: number; // 100 basis points = 1% of the sale price
+}
+
+export interface OperatorApproval {
+  operator: string;
+  approvedAt: number; // When the current approval was granted, in milliseconds
+  transactionHash: string;
+}
+
 export interface TransferParams {
   from: string;
   to: string;
@@ -35,6 +75,82 @@ export interface TransferParams {
   amount: number;
 }
 
+export interface BatchTransferParams {
+  from: string;
+  to: string;
+  transfers: { tokenId: number; amount: number }[];
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Helper function to replay TransferSingle/TransferBatch events into per-holder balances by token.
+// Mints come from and burns go to the zero address, which is never counted as a holder.
+const getBalancesFromTransfers = (events: IndexedEvent[]): Map<number, Map<string, bigint>> => {
+  const balancesByToken = new Map<number, Map<string, bigint>>();
+
+  const adjust = (tokenId: number, holder: string, delta: bigint) => {
+    if (holder === ZERO_ADDRESS) return;
+    const balances = balancesByToken.get(tokenId) || new Map<string, bigint>();
+    balances.set(holder, (balances.get(holder) || 0n) + delta);
+    balancesByToken.set(tokenId, balances);
+  };
+
+  for (const event of events) {
+    if (event.eventName !== 'TransferSingle' && event.eventName !== 'TransferBatch') continue;
+
+    const values: readonly bigint[] = event.eventName === 'TransferBatch' ? event.args.values : [event.args.value];
+    event.tokenIds.forEach((tokenId, index) => {
+      adjust(tokenId, event.args.from, -values[index]);
+      adjust(tokenId, event.args.to, values[index]);
+    });
+  }
+
+  return balancesByToken;
+};
+
+// Helper function to build the mintNewBatch call for one batch
+const toMintCall = (params: MintParams): ContractCall => ({
+  address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+  abi: CropBatchTokenABI as Abi,
+  functionName: 'mintNewBatch',
+  args: [
+    params.to,
+    params.cropType,
+    BigInt(params.quantity),
+    params.originFarm,
+    BigInt(params.harvestDate),
+    params.notes,
+    params.metadataUri,
+  ],
+});
+
+// Helper function to read the batches a transaction minted from its CropBatchMinted events, in mint order.
+// Only mints by the given minters count: a sponsored mint lands in a bundle transaction that can
+// carry other users' mints too.
+export const getMintedBatches = (receipt: TransactionReceipt, minters: string[]): MintedBatch[] => {
+  const logs = parseEventLogs({
+    abi: CropBatchTokenABI as Abi,
+    eventName: 'CropBatchMinted',
+    logs: receipt.logs,
+  });
+
+  return logs
+    .filter(log => log.address.toLowerCase() === CONTRACT_ADDRESSES.CropBatchToken.toLowerCase())
+    .map(log => log.args as { tokenId: bigint; minter: string; metadataUri: string })
+    .filter(args => minters.includes(args.minter.toLowerCase()))
+    .map(args => ({ tokenId: Number(args.tokenId), metadataUri: args.metadataUri }));
+};
+
+// Helper function to list the non-zero holders of a token, largest first
+const toHoldings = (balances?: Map<string, bigint>): TokenHolding[] => {
+  if (!balances) return [];
+
+  return Array.from(balances.entries())
+    .filter(([, balance]) => balance > 0n)
+    .sort(([, a], [, b]) => (a > b ? -1 : a < b ? 1 : 0))
+    .map(([holder, balance]) => ({ address: holder, quantity: Number(balance) }));
+};
+
 export const useCropBatchToken = () => {
   const { address } = useAccount();
   const { addToast } = useToast();
@@ -44,13 +160,22 @@ export const useCropBatchToken = () => {
   const [error, setError] = useState<string | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
-  // Contract write hook
+  // Contract write hook; writes are gas-sponsored when the paymaster allows them
   const { 
-    writeContract, 
+    writeContractAsync, 
+    writeContractsAsync,
     data: hash, 
     error: writeError, 
-    isPending: isWritePending 
-  } = useWriteContract();
+    isPending: isWritePending,
+    sponsorship
+  } = useSponsoredWriteContract();
+
+  // Plain wallet writes, for calls that act on msg.sender's own tokens. Sponsored, the smart
+  // account would be msg.sender and the call would apply to its tokens instead of the wallet's.
+  const { writeContractAsync: writeDirectAsync } = useWriteContract();
+
+  // The wallet and its smart account, either of which can be the minter of the user's batches
+  const { resolveOwnAddresses } = useOwnAddresses();
 
   // Transaction receipt hook
   const { 
@@ -72,110 +197,87 @@ export const useCropBatchToken = () => {
     functionName: 'nextTokenId',
   });
 
-  // Get batch details
-  const getBatchDetails = useCallback(async (tokenId: number): Promise<CropBatch | null> => {
-    if (!publicClient) return null;
-    
-    try {
-      setIsLoading(true);
-      setError(null);
+  // Most batches the contract accepts in one go; bulk mints are chunked to it
+  const { data: maxBatchSize } = useReadContract({
+    address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+    abi: CropBatchTokenABI,
+    functionName: 'MAX_BATCH_SIZE',
+  });
 
-      const batchDetails = await publicClient.readContract({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        abi: CropBatchTokenABI,
-        functionName: 'batchDetails',
-        args: [BigInt(tokenId)],
-      });
+  // Get details for many batches at once: contract state via multicall, history from the event index
+  const getBatchesByIds = useCallback(async (tokenIds: number[]): Promise<CropBatch[]> => {
+    if (!publicClient || tokenIds.length === 0) return [];
 
-      if (!batchDetails || !Array.isArray(batchDetails)) {
-        throw new Error('Invalid batch details response');
-      }
+    const [detailsById, existsById, frozenById] = await Promise.all([
+      readBatchDetails(publicClient, tokenIds),
+      readTokensExist(publicClient, tokenIds),
+      readMetadataFrozen(publicClient, tokenIds),
+    ]);
 
-      const [cropType, quantity, originFarm, harvestDate, notes, metadataUri] = batchDetails;
+    let balancesByToken = new Map<number, Map<string, bigint>>();
+    const minterById = new Map<number, string>();
+    const mintBlockById = new Map<number, number>();
+    let timestamps = new Map<number, number>();
 
-      // Find the current owner by checking transfer events
-      let currentOwner = '0x0000000000000000000000000000000000000000';
+    try {
+      const tokenEvents = await loadIndexedEvents(publicClient, {
+        eventNames: ['CropBatchMinted', 'TransferSingle', 'TransferBatch'],
+      });
 
-      try {
-        // Get all transfer events for this token to find current owner
-        const transferLogs = await publicClient.getLogs({
-          address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-          event: {
-            type: 'event',
-            name: 'TransferSingle',
-            inputs: [
-              { name: 'operator', type: 'address', indexed: true },
-              { name: 'from', type: 'address', indexed: true },
-              { name: 'to', type: 'address', indexed: true },
-              { name: 'id', type: 'uint256', indexed: false },
-              { name: 'value', type: 'uint256', indexed: false },
-            ],
-          },
-          args: {
-            id: BigInt(tokenId),
-          },
-          fromBlock: 'earliest',
-          toBlock: 'latest',
+      balancesByToken = getBalancesFromTransfers(tokenEvents);
+      tokenEvents
+        .filter(event => event.eventName === 'CropBatchMinted')
+        .forEach(event => {
+          minterById.set(event.tokenIds[0], event.args.minter);
+          mintBlockById.set(event.tokenIds[0], event.blockNumber);
         });
 
-        // Find the most recent transfer to get current owner
-        if (transferLogs.length > 0) {
-          const latestTransfer = transferLogs[transferLogs.length - 1];
-          currentOwner = latestTransfer.args?.to || currentOwner;
-        }
-      } catch (error) {
-        console.warn('Failed to fetch transfer events for ownership:', error);
-        // Fallback: check if current user owns it
-        const balance = await publicClient.readContract({
-          address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-          abi: CropBatchTokenABI,
-          functionName: 'balanceOf',
-          args: [address || '0x0000000000000000000000000000000000000000', BigInt(tokenId)],
+      timestamps = await getBlockTimestamps(
+        publicClient,
+        tokenIds.filter(id => mintBlockById.has(id)).map(id => mintBlockById.get(id)!)
+      );
+    } catch (error) {
+      console.warn('Failed to read indexed events for ownership:', error);
+      // Fallback: only the current user's balances can be read directly
+      if (address) {
+        const balances = await readBalances(publicClient, tokenIds.map(tokenId => ({ account: address, tokenId })));
+        tokenIds.forEach((tokenId, index) => {
+          balancesByToken.set(tokenId, new Map([[address, balances[index]]]));
         });
-        if (Number(balance) > 0) {
-          currentOwner = address || '0x0000000000000000000000000000000000000000';
-        }
       }
+    }
 
-      // Get minting event to find original minter
-      const logs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'CropBatchMinted',
-          inputs: [
-            { name: 'tokenId', type: 'uint256', indexed: true },
-            { name: 'minter', type: 'address', indexed: true },
-            { name: 'metadataUri', type: 'string', indexed: false },
-            { name: 'cropType', type: 'string', indexed: false },
-            { name: 'quantity', type: 'uint256', indexed: false },
-          ],
-        },
-        args: {
-          tokenId: BigInt(tokenId),
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest',
+    return tokenIds
+      .filter(tokenId => detailsById.has(tokenId) && existsById.get(tokenId) !== false)
+      .map(tokenId => {
+        const mintBlock = mintBlockById.get(tokenId);
+        const holders = toHoldings(balancesByToken.get(tokenId));
+        return {
+          tokenId,
+          ...detailsById.get(tokenId)!,
+          owner: holders[0]?.address || ZERO_ADDRESS,
+          holders,
+          minter: minterById.get(tokenId) || ZERO_ADDRESS,
+          timestamp: (mintBlock !== undefined && timestamps.get(mintBlock)) || Date.now(),
+          metadataFrozen: frozenById.get(tokenId) ?? false,
+        };
       });
+  }, [publicClient, address]);
 
-      const mintEvent = logs[0];
-      const minter = mintEvent?.args?.minter || '0x0000000000000000000000000000000000000000';
-      const timestamp = mintEvent?.blockNumber ? 
-        Number((await publicClient.getBlock({ blockNumber: mintEvent.blockNumber })).timestamp) * 1000 : 
-        Date.now();
-
-      return {
-        tokenId,
-        cropType: cropType as string,
-        quantity: Number(quantity),
-        originFarm: originFarm as string,
-        harvestDate: Number(harvestDate),
-        notes: notes as string,
-        metadataUri: metadataUri as string,
-        owner: currentOwner,
-        minter: minter as string,
-        timestamp,
-      };
+  // Get batch details
+  const getBatchDetails = useCallback(async (tokenId: number): Promise<CropBatch | null> => {
+    if (!publicClient) return null;
+    
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [batch] = await getBatchesByIds([tokenId]);
+      if (!batch) {
+        throw new Error('Invalid batch details response');
+      }
+
+      return batch;
 
     } catch (err) {
       console.error('Error fetching batch details:', err);
@@ -184,9 +286,9 @@ export const useCropBatchToken = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [publicClient, address]);
+  }, [publicClient, getBatchesByIds]);
 
-  // Get user's tokens
+  // Get the tokens a user currently holds a balance of, including partial holdings
   const getUserTokens = useCallback(async (userAddress?: string): Promise<CropBatch[]> => {
     if (!publicClient || !userAddress) return [];
     
@@ -194,39 +296,18 @@ export const useCropBatchToken = () => {
       setIsLoading(true);
       setError(null);
 
-      // Get all minting events for this user
-      const logs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'CropBatchMinted',
-          inputs: [
-            { name: 'tokenId', type: 'uint256', indexed: true },
-            { name: 'minter', type: 'address', indexed: true },
-            { name: 'metadataUri', type: 'string', indexed: false },
-            { name: 'cropType', type: 'string', indexed: false },
-            { name: 'quantity', type: 'uint256', indexed: false },
-          ],
-        },
-        args: {
-          minter: getAddress(userAddress),
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest',
+      const transferEvents = await loadIndexedEvents(publicClient, {
+        eventNames: ['TransferSingle', 'TransferBatch'],
       });
-
-      const tokens: CropBatch[] = [];
-      
-      for (const log of logs) {
-        if (log.args?.tokenId) {
-          const tokenId = Number(log.args.tokenId);
-          const batch = await getBatchDetails(tokenId);
-          if (batch) {
-            tokens.push(batch);
-          }
-        }
-      }
-
+      const tokenIds = Array.from(getBalancesFromTransfers(transferEvents).entries())
+        .filter(([, balances]) =>
+          Array.from(balances.entries()).some(
+            ([holder, balance]) => holder.toLowerCase() === userAddress.toLowerCase() && balance > 0n
+          )
+        )
+        .map(([tokenId]) => tokenId);
+
+      const tokens = await getBatchesByIds(tokenIds);
       return tokens.sort((a, b) => b.timestamp - a.timestamp);
 
     } catch (err) {
@@ -236,31 +317,42 @@ export const useCropBatchToken = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [publicClient, getBatchDetails]);
-
-  // Mint new batch
-  const mintNewBatch = useCallback(async (params: MintParams) => {
+  }, [publicClient, getBatchesByIds]);
+
+  // Mint new batch. The token id is decoded from the receipt's CropBatchMinted event rather than
+  // read from nextTokenId, which another farmer's mint can move in the meantime. The event is
+  // matched on minter and metadata URI, since a sponsored receipt can hold other users' mints.
+  // onSubmitted receives the hash before confirmation, for callers that record it.
+  const mintNewBatch = useCallback(async (
+    params: MintParams,
+    onSubmitted?: (hash: Hash) => void
+  ): Promise<{ hash: Hash; tokenId: number }> => {
     if (!address) {
       throw new Error('Wallet not connected');
     }
 
+    if (!publicClient) {
+      throw new Error('Public client not available');
+    }
+
     try {
       setError(null);
       
-      await writeContract({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        abi: CropBatchTokenABI,
-        functionName: 'mintNewBatch',
-        args: [
-          params.to,
-          params.cropType,
-          BigInt(params.quantity),
-          params.originFarm,
-          BigInt(params.harvestDate),
-          params.notes,
-          params.metadataUri,
-        ],
-      });
+      const hash = await writeContractAsync(toMintCall(params));
+      onSubmitted?.(hash);
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Mint transaction reverted');
+      }
+
+      const minted = getMintedBatches(receipt, await resolveOwnAddresses())
+        .find(batch => batch.metadataUri === params.metadataUri);
+      if (!minted) {
+        throw new Error('The mint transaction did not emit CropBatchMinted for this batch');
+      }
+
+      return { hash, tokenId: minted.tokenId };
 
     } catch (err) {
       console.error('Error minting batch:', err);
@@ -268,7 +360,61 @@ export const useCropBatchToken = () => {
       setError(errorMessage);
       throw err;
     }
-  }, [address, writeContract]);
+  }, [address, publicClient, writeContractAsync, resolveOwnAddresses]);
+
+  // Mint several batches in chunks of MAX_BATCH_SIZE. Each chunk is one sponsored user
+  // operation when the paymaster covers it, otherwise one transaction per batch.
+  // onMinted reports the batches each transaction minted as it lands, in input order.
+  const mintNewBatches = useCallback(async (
+    batches: MintParams[],
+    onMinted?: (minted: MintedBatch[]) => void
+  ): Promise<number[]> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!publicClient) {
+      throw new Error('Public client not available');
+    }
+
+    const chunkSize = Math.max(1, Number(maxBatchSize ?? 1));
+    const tokenIds: number[] = [];
+
+    try {
+      setError(null);
+
+      const minters = await resolveOwnAddresses();
+      for (let start = 0; start < batches.length; start += chunkSize) {
+        const chunk = batches.slice(start, start + chunkSize);
+        let carried = 0;
+        await writeContractsAsync(chunk.map(toMintCall), async (hash, callCount) => {
+          const receipt = await publicClient.waitForTransactionReceipt({ hash });
+          const events = getMintedBatches(receipt, minters);
+
+          // Pair each batch this transaction carried with its own event by metadata URI,
+          // rather than by position in a receipt that can hold other users' mints
+          const minted = chunk.slice(carried, carried + callCount).map(batch => {
+            const index = events.findIndex(event => event.metadataUri === batch.metadataUri);
+            if (index === -1) {
+              throw new Error(`No CropBatchMinted event found for ${batch.metadataUri}`);
+            }
+            return events.splice(index, 1)[0];
+          });
+          carried += callCount;
+
+          tokenIds.push(...minted.map(batch => batch.tokenId));
+          onMinted?.(minted);
+        });
+      }
+
+      return tokenIds;
+    } catch (err) {
+      console.error('Error minting batches:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to mint batches';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [address, publicClient, maxBatchSize, writeContractsAsync, resolveOwnAddresses]);
 
   // Transfer token
   const transferToken = useCallback(async (params: TransferParams) => {
@@ -279,9 +425,9 @@ export const useCropBatchToken = () => {
     try {
       setError(null);
       
-      await writeContract({
+      await writeContractAsync({
         address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        abi: CropBatchTokenABI,
+        abi: CropBatchTokenABI as Abi,
         functionName: 'safeTransferFrom',
         args: [
           params.from,
@@ -298,46 +444,277 @@ export const useCropBatchToken = () => {
       setError(errorMessage);
       throw err;
     }
-  }, [address, writeContract]);
+  }, [address, writeContractAsync]);
 
-  // Get all batches (for marketplace/explorer)
-  const getAllBatches = useCallback(async (): Promise<CropBatch[]> => {
+  // Move several batches in one safeBatchTransferFrom, checked against balanceOfBatch first
+  const transferTokens = useCallback(async (params: BatchTransferParams): Promise<Hash> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!publicClient) {
+      throw new Error('Public client not available');
+    }
+
+    if (params.transfers.length === 0) {
+      throw new Error('Select at least one token to transfer');
+    }
+
+    const tokenIds = params.transfers.map(transfer => transfer.tokenId);
+    if (new Set(tokenIds).size !== tokenIds.length) {
+      throw new Error('Each token can only appear once in a batch transfer');
+    }
+
+    const invalid = params.transfers.find(transfer => !Number.isInteger(transfer.amount) || transfer.amount <= 0);
+    if (invalid) {
+      throw new Error(`Enter a whole quantity for token #${invalid.tokenId}`);
+    }
+
+    try {
+      setError(null);
+
+      const balances = await readBalances(
+        publicClient,
+        params.transfers.map(transfer => ({ account: params.from, tokenId: transfer.tokenId }))
+      );
+      const shortIndex = params.transfers.findIndex((transfer, index) => BigInt(transfer.amount) > balances[index]);
+      if (shortIndex !== -1) {
+        const short = params.transfers[shortIndex];
+        throw new Error(`Token #${short.tokenId}: ${short.amount} kg requested but only ${balances[shortIndex].toString()} kg held`);
+      }
+
+      return await writeContractAsync({
+        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+        abi: CropBatchTokenABI as Abi,
+        functionName: 'safeBatchTransferFrom',
+        args: [
+          params.from,
+          params.to,
+          params.transfers.map(transfer => BigInt(transfer.tokenId)),
+          params.transfers.map(transfer => BigInt(transfer.amount)),
+          '0x', // data
+        ],
+      });
+
+    } catch (err) {
+      console.error('Error batch transferring tokens:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to transfer tokens';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [address, publicClient, writeContractAsync]);
+
+  // Point a batch at re-pinned metadata; the contract refuses once the metadata is frozen
+  const updateTokenUri = useCallback(async (tokenId: number, newUri: string): Promise<Hash> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!newUri) {
+      throw new Error('New metadata URI is required');
+    }
+
+    try {
+      setError(null);
+
+      return await writeContractAsync({
+        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+        abi: CropBatchTokenABI as Abi,
+        functionName: 'updateTokenUri',
+        args: [BigInt(tokenId), newUri],
+      });
+
+    } catch (err) {
+      console.error('Error updating token URI:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update token URI';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [address, writeContractAsync]);
+
+  // Make a batch's current metadata permanent
+  const freezeMetadata = useCallback(async (tokenId: number): Promise<Hash> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      setError(null);
+
+      return await writeContractAsync({
+        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+        abi: CropBatchTokenABI as Abi,
+        functionName: 'freezeMetadata',
+        args: [BigInt(tokenId)],
+      });
+
+    } catch (err) {
+      console.error('Error freezing metadata:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to freeze metadata';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [address, writeContractAsync]);
+
+  // Every metadata URI a batch has pointed at, from its mint and MetadataUpdated events
+  const getMetadataHistory = useCallback(async (tokenId: number): Promise<MetadataHistory> => {
+    if (!publicClient) return { versions: [] };
+
+    const events = await loadIndexedEvents(publicClient, {
+      tokenId,
+      eventNames: ['CropBatchMinted', 'MetadataUpdated', 'MetadataFrozen'],
+    });
+    const timestamps = await getBlockTimestamps(publicClient, events.map(event => event.blockNumber));
+
+    const versions = events
+      .filter(event => event.eventName !== 'MetadataFrozen')
+      .map((event, index) => ({
+        version: index + 1,
+        uri: event.eventName === 'CropBatchMinted' ? event.args.metadataUri : event.args.newUri,
+        transactionHash: event.transactionHash,
+        timestamp: timestamps.get(event.blockNumber) || 0,
+      }));
+    const frozen = events.find(event => event.eventName === 'MetadataFrozen');
+
+    return { versions, frozenAt: frozen ? timestamps.get(frozen.blockNumber) : undefined };
+  }, [publicClient]);
+
+  // How a batch was split into sub-lots by partial sales and transfers, from its transfer events
+  const getSubLots = useCallback(async (tokenId: number): Promise<SubLot[]> => {
     if (!publicClient) return [];
 
+    const events = await loadIndexedEvents(publicClient, {
+      tokenId,
+      eventNames: ['TransferSingle', 'TransferBatch'],
+    });
+    const timestamps = await getBlockTimestamps(publicClient, events.map(event => event.blockNumber));
+
+    return buildSubLotTree(tokenId, events, timestamps);
+  }, [publicClient]);
+
+  // ERC-2981 royalty for each (token id, sale price) pair, in the order given
+  const getRoyaltyQuotes = useCallback(async (queries: RoyaltyQuery[]): Promise<RoyaltyQuote[]> => {
+    if (!publicClient || queries.length === 0) return [];
+    return readRoyaltyInfo(publicClient, queries);
+  }, [publicClient]);
+
+  // Current royalty receiver and rate for a batch; a sale price of 10,000 wei makes the amount the rate in basis points
+  const getRoyaltySettings = useCallback(async (tokenId: number): Promise<RoyaltySettings | null> => {
+    if (!publicClient) return null;
+
+    const [quote] = await readRoyaltyInfo(publicClient, [{ tokenId, salePrice: 10000n }]);
+    return quote ? { receiver: quote.receiver, basisPoints: Number(quote.amount) } : null;
+  }, [publicClient]);
+
+  // Set the royalty receiver and rate. The contract keeps one setting for every batch and only lets administrators change it.
+  const setRoyaltyInfo = useCallback(async (recipient: string, basisPoints: number): Promise<Hash> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!isAddress(recipient)) {
+      throw new Error('Royalty recipient must be a valid address');
+    }
+
+    if (!Number.isInteger(basisPoints) || basisPoints < 0 || basisPoints > 10000) {
+      throw new Error('Royalty must be between 0% and 100%');
+    }
+
     try {
-      setIsLoading(true);
       setError(null);
 
-      // Get all minting events
-      const logs = await publicClient.getLogs({
+      return await writeContractAsync({
         address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'CropBatchMinted',
-          inputs: [
-            { name: 'tokenId', type: 'uint256', indexed: true },
-            { name: 'minter', type: 'address', indexed: true },
-            { name: 'metadataUri', type: 'string', indexed: false },
-            { name: 'cropType', type: 'string', indexed: false },
-            { name: 'quantity', type: 'uint256', indexed: false },
-          ],
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest',
+        abi: CropBatchTokenABI as Abi,
+        functionName: 'setRoyaltyInfo',
+        args: [recipient, BigInt(basisPoints)],
       });
 
-      const batches: CropBatch[] = [];
+    } catch (err) {
+      console.error('Error setting royalty info:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to set royalty';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [address, writeContractAsync]);
 
-      for (const log of logs) {
-        if (log.args?.tokenId) {
-          const tokenId = Number(log.args.tokenId);
-          const batch = await getBatchDetails(tokenId);
-          if (batch) {
-            batches.push(batch);
-          }
-        }
-      }
+  // Operators an account currently approves, found from ApprovalForAll events and confirmed with isApprovedForAll
+  const getOperatorApprovals = useCallback(async (owner: string): Promise<OperatorApproval[]> => {
+    if (!publicClient) return [];
+
+    const events = await loadIndexedEvents(publicClient, { eventNames: ['ApprovalForAll'] });
+    const latestByOperator = new Map<string, IndexedEvent>();
+    events
+      .filter(event => (event.args.account as string).toLowerCase() === owner.toLowerCase())
+      .forEach(event => latestByOperator.set((event.args.operator as string).toLowerCase(), event));
+
+    const granted = Array.from(latestByOperator.values()).filter(event => event.args.approved);
+    const [stillApproved, timestamps] = await Promise.all([
+      Promise.all(granted.map(event =>
+        publicClient.readContract({
+          address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+          abi: CropBatchTokenABI,
+          functionName: 'isApprovedForAll',
+          args: [owner, event.args.operator],
+        }) as Promise<boolean>
+      )),
+      getBlockTimestamps(publicClient, granted.map(event => event.blockNumber)),
+    ]);
+
+    return granted
+      .filter((_, index) => stillApproved[index])
+      .map(event => ({
+        operator: event.args.operator as string,
+        approvedAt: timestamps.get(event.blockNumber) || 0,
+        transactionHash: event.transactionHash,
+      }));
+  }, [publicClient]);
+
+  // Let an operator move all of the connected account's batches, or take that permission back
+  const setApprovalForAll = useCallback(async (operator: string, approved: boolean): Promise<Hash> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
 
+    if (!isAddress(operator)) {
+      throw new Error('Operator must be a valid address');
+    }
+
+    if (operator.toLowerCase() === address.toLowerCase()) {
+      throw new Error('You cannot approve your own address as an operator');
+    }
+
+    try {
+      setError(null);
+
+      // Never sponsored: approvals are granted for msg.sender's tokens, which must be the wallet's
+      return await writeDirectAsync({
+        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+        abi: CropBatchTokenABI,
+        functionName: 'setApprovalForAll',
+        args: [operator, approved],
+      });
+
+    } catch (err) {
+      console.error('Error setting operator approval:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update operator approval';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [address, writeDirectAsync]);
+
+  // Get all batches (for marketplace/explorer)
+  const getAllBatches = useCallback(async (): Promise<CropBatch[]> => {
+    if (!publicClient) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      // Get all minting events
+      const logs = await loadIndexedEvents(publicClient, { eventNames: ['CropBatchMinted'] });
+
+      const batches = await getBatchesByIds(logs.map(log => log.tokenIds[0]));
       return batches.sort((a, b) => b.timestamp - a.timestamp);
 
     } catch (err) {
@@ -347,7 +724,7 @@ export const useCropBatchToken = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [publicClient, getBatchDetails]);
+  }, [publicClient, getBatchesByIds]);
 
   // Clear errors
   const clearError = useCallback(() => {
@@ -357,10 +734,14 @@ export const useCropBatchToken = () => {
   // Effect to handle transaction confirmation
   useEffect(() => {
     if (isConfirmed && hash) {
-      addToast('Transaction confirmed successfully!', 'success');
+      addToast(
+        sponsorship?.mode === 'sponsored' ? 'Transaction confirmed - gas was sponsored!' : 'Transaction confirmed successfully!',
+        'success'
+      );
+      invalidateEventIndex();
       refetchNextTokenId();
     }
-  }, [isConfirmed, hash, addToast, refetchNextTokenId]);
+  }, [isConfirmed, hash, sponsorship, addToast, refetchNextTokenId]);
 
   // Effect to handle errors
   useEffect(() => {
@@ -386,6 +767,7 @@ export const useCropBatchToken = () => {
     eventName: 'TransferSingle',
     onLogs(logs) {
       console.log('Transfer event detected:', logs);
+      invalidateEventIndex();
       // Trigger refresh for components using this hook
       setRefreshTrigger(prev => prev + 1);
       addToast('Ownership transfer detected - updating data...', 'info');
@@ -399,6 +781,7 @@ export const useCropBatchToken = () => {
     eventName: 'TransferBatch',
     onLogs(logs) {
       console.log('Batch transfer event detected:', logs);
+      invalidateEventIndex();
       setRefreshTrigger(prev => prev + 1);
       addToast('Batch transfer detected - updating data...', 'info');
     },
@@ -406,6 +789,7 @@ export const useCropBatchToken = () => {
 
   // Function to manually trigger refresh
   const triggerRefresh = useCallback(() => {
+    invalidateEventIndex();
     setRefreshTrigger(prev => prev + 1);
   }, []);
 
@@ -415,16 +799,30 @@ export const useCropBatchToken = () => {
     error,
     hash,
     isWritePending,
+    sponsorship,
     isConfirming,
     isConfirmed,
     nextTokenId: nextTokenId ? Number(nextTokenId) : undefined,
     isLoadingNextTokenId,
+    maxBatchSize: maxBatchSize !== undefined ? Number(maxBatchSize) : undefined,
     refreshTrigger, // For components to watch for changes
 
     // Functions
     mintNewBatch,
+    mintNewBatches,
     transferToken,
+    transferTokens,
+    updateTokenUri,
+    freezeMetadata,
+    getMetadataHistory,
+    getSubLots,
+    getRoyaltyQuotes,
+    getRoyaltySettings,
+    setRoyaltyInfo,
+    getOperatorApprovals,
+    setApprovalForAll,
     getBatchDetails,
+    getBatchesByIds,
     getUserTokens,
     getAllBatches,
     clearError,
@@ -454,3 +852,9 @@ export const useCropBatchTokens = () => {
     refetch: getAllBatches,
   };
 };
+
+// Helper function to get how much of a batch an address holds
+export const getHolderQuantity = (batch: CropBatch, holder?: string): number => {
+  if (!holder) return 0;
+  return batch.holders.find(holding => holding.address.toLowerCase() === holder.toLowerCase())?.quantity ?? 0;
+};
@@ -0,0 +1,324 @@
+import { useState, useCallback } from 'react';
+import { usePublicClient, useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi';
+import { Log, parseEventLogs, TransactionReceipt, type Abi } from 'viem';
+import { CONTRACT_ADDRESSES, LISTING_STATUS } from '../config/constants';
+import MarketplaceABI from '../contracts/Marketplace.json';
+
+export interface Listing {
+  listingId: bigint;
+  tokenId: bigint;
+  farmer: string;
+  pricePerKg: bigint;
+  quantityAvailable: bigint;
+  quantityReserved: bigint;
+  description: string;
+  farmLocation: string;
+  createdAt: bigint;
+  expiresAt: bigint;
+  status: number;
+}
+
+export type MarketplaceEventName =
+  | 'CropListed'
+  | 'ListingUpdated'
+  | 'ListingCancelled'
+  | 'ListingStatusChanged'
+  | 'QuantityReserved'
+  | 'QuantityReleased';
+
+export const useCreateListing = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const createListing = async (args: {
+    tokenId: bigint;
+    pricePerKg: bigint;
+    quantity: bigint;
+    description: string;
+    farmLocation: string;
+    duration: bigint;
+  }) => {
+    if (!args.tokenId || args.tokenId <= 0n) {
+      throw new Error('Invalid token ID provided');
+    }
+
+    if (!args.pricePerKg || args.pricePerKg <= 0n) {
+      throw new Error('Price per kg must be greater than zero');
+    }
+
+    if (!args.quantity || args.quantity <= 0n) {
+      throw new Error('Quantity must be greater than zero');
+    }
+
+    if (!args.duration || args.duration <= 0n) {
+      throw new Error('Listing duration must be greater than zero');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      functionName: 'createListing',
+      args: [args.tokenId, args.pricePerKg, args.quantity, args.description, args.farmLocation, args.duration],
+    });
+  };
+
+  return {
+    writeAsync: createListing,
+    ...rest,
+  };
+};
+
+export const useUpdateListing = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const updateListing = async (args: {
+    listingId: bigint;
+    pricePerKg: bigint;
+    quantity: bigint;
+    description: string;
+  }) => {
+    if (!args.pricePerKg || args.pricePerKg <= 0n) {
+      throw new Error('Price per kg must be greater than zero');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      functionName: 'updateListing',
+      args: [args.listingId, args.pricePerKg, args.quantity, args.description],
+    });
+  };
+
+  return {
+    writeAsync: updateListing,
+    ...rest,
+  };
+};
+
+export const useCancelListing = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const cancelListing = async (args: { listingId: bigint }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      functionName: 'cancelListing',
+      args: [args.listingId],
+    });
+  };
+
+  return {
+    writeAsync: cancelListing,
+    ...rest,
+  };
+};
+
+export const useListing = (listingId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+    abi: MarketplaceABI,
+    functionName: 'getListing',
+    args: listingId ? [listingId] : undefined,
+    query: {
+      enabled: !!listingId,
+    },
+  });
+};
+
+export const useActiveListings = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+    abi: MarketplaceABI,
+    functionName: 'getActiveListings',
+  });
+};
+
+export const useFarmerListings = (farmerAddress?: string) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+    abi: MarketplaceABI,
+    functionName: 'getFarmerListings',
+    args: farmerAddress ? [farmerAddress] : undefined,
+    query: {
+      enabled: !!farmerAddress,
+    },
+  });
+};
+
+export const useTokenListings = (tokenId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+    abi: MarketplaceABI,
+    functionName: 'getTokenListings',
+    args: tokenId ? [tokenId] : undefined,
+    query: {
+      enabled: !!tokenId,
+    },
+  });
+};
+
+export const useCalculateTotalPrice = (listingId?: bigint, quantity?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+    abi: MarketplaceABI,
+    functionName: 'calculateTotalPrice',
+    args: listingId && quantity ? [listingId, quantity] : undefined,
+    query: {
+      enabled: !!listingId && !!quantity,
+    },
+  });
+};
+
+export const useMarketplaceFee = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+    abi: MarketplaceABI,
+    functionName: 'marketplaceFeePercentage',
+  });
+};
+
+export const useMarketplaceListings = () => {
+  const publicClient = usePublicClient();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch listing structs for a list of listing ids
+  const getListingsByIds = useCallback(async (listingIds: readonly bigint[]): Promise<Listing[]> => {
+    if (!publicClient || listingIds.length === 0) return [];
+
+    const results = await Promise.allSettled(
+      listingIds.map(listingId =>
+        publicClient.readContract({
+          address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+          abi: MarketplaceABI,
+          functionName: 'getListing',
+          args: [listingId],
+        }) as Promise<Listing>
+      )
+    );
+
+    return results
+      .filter((result): result is PromiseFulfilledResult<Listing> => result.status === 'fulfilled')
+      .map(result => result.value);
+  }, [publicClient]);
+
+  // Get all active listings (for marketplace)
+  const getActiveListings = useCallback(async (): Promise<Listing[]> => {
+    if (!publicClient) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const listingIds = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+        abi: MarketplaceABI,
+        functionName: 'getActiveListings',
+      }) as readonly bigint[];
+
+      const listings = await getListingsByIds(listingIds);
+      return listings.filter(listing => listing.status === LISTING_STATUS.ACTIVE);
+    } catch (err) {
+      console.error('Error fetching active listings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch listings');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, getListingsByIds]);
+
+  // Get every listing created by a farmer, whatever its status
+  const getFarmerListings = useCallback(async (farmerAddress?: string): Promise<Listing[]> => {
+    if (!publicClient || !farmerAddress) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const listingIds = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+        abi: MarketplaceABI,
+        functionName: 'getFarmerListings',
+        args: [farmerAddress],
+      }) as readonly bigint[];
+
+      const listings = await getListingsByIds(listingIds);
+      return listings.sort((a, b) => Number(b.createdAt - a.createdAt));
+    } catch (err) {
+      console.error('Error fetching farmer listings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch listings');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, getListingsByIds]);
+
+  return {
+    isLoading,
+    error,
+    getListingsByIds,
+    getActiveListings,
+    getFarmerListings,
+  };
+};
+
+export const useMarketplaceEvents = (
+  eventName: MarketplaceEventName,
+  onLogs: (logs: Log[]) => void,
+  enabled: boolean = true
+) => {
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+    abi: MarketplaceABI,
+    eventName,
+    onLogs,
+    enabled,
+  });
+};
+
+// Helper function to read the listing id from a CropListed event in a receipt
+export const getListingIdFromReceipt = (receipt: TransactionReceipt): bigint | null => {
+  const logs = parseEventLogs({
+    abi: MarketplaceABI as Abi,
+    eventName: 'CropListed',
+    logs: receipt.logs,
+  });
+
+  const listingLog = logs.find(
+    log => log.address.toLowerCase() === CONTRACT_ADDRESSES.Marketplace.toLowerCase()
+  );
+
+  return listingLog ? (listingLog.args as { listingId: bigint }).listingId : null;
+};
+
+// Helper function to get listing status label
+export const getListingStatusLabel = (status: number): string => {
+  switch (status) {
+    case LISTING_STATUS.ACTIVE:
+      return 'Active';
+    case LISTING_STATUS.SOLD:
+      return 'Sold';
+    case LISTING_STATUS.COMPLETED:
+      return 'Completed';
+    case LISTING_STATUS.CANCELLED:
+      return 'Cancelled';
+    default:
+      return 'Unknown';
+  }
+};
+
+// Helper function to get listing status color
+export const getListingStatusColor = (status: number): string => {
+  switch (status) {
+    case LISTING_STATUS.ACTIVE:
+      return 'bg-green-100 text-green-800 border-green-200';
+    case LISTING_STATUS.SOLD:
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case LISTING_STATUS.COMPLETED:
+      return 'bg-purple-100 text-purple-800 border-purple-200';
+    case LISTING_STATUS.CANCELLED:
+      return 'bg-red-100 text-red-800 border-red-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
@@ -0,0 +1,450 @@
+import { useState, useCallback } from 'react';
+import { usePublicClient, useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi';
+import { Log, parseEventLogs, TransactionReceipt, type Abi, zeroAddress } from 'viem';
+import { CONTRACT_ADDRESSES, ORDER_STATUS, ORDER_STATUS_LABELS } from '../config/constants';
+import OrderManagerABI from '../contracts/OrderManager.json';
+
+export interface Order {
+  orderId: bigint;
+  listingId: bigint;
+  tokenId: bigint;
+  buyer: string;
+  farmer: string;
+  transporter: string;
+  quantity: bigint;
+  cropPrice: bigint;
+  transportPrice: bigint;
+  marketplaceFee: bigint;
+  totalAmount: bigint;
+  deliveryLocation: string;
+  pickupLocation: string;
+  requestedDeliveryDate: bigint;
+  createdAt: bigint;
+  paymentId: bigint;
+  status: number;
+}
+
+export interface TrackingUpdate {
+  location: string;
+  statusUpdate: string;
+  timestamp: bigint;
+  updatedBy: string;
+}
+
+export type OrderManagerEventName =
+  | 'OrderCreated'
+  | 'TransporterSelected'
+  | 'PaymentProcessed'
+  | 'OrderConfirmed'
+  | 'OrderShipped'
+  | 'TrackingUpdated'
+  | 'OrderDelivered'
+  | 'OrderCompleted'
+  | 'OrderCancelled'
+  | 'OrderDisputed';
+
+export const useCreateOrder = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const createOrder = async (args: {
+    listingId: bigint;
+    quantity: bigint;
+    deliveryLocation: string;
+    requestedDeliveryDate: bigint;
+  }) => {
+    if (!args.listingId || args.listingId <= 0n) {
+      throw new Error('Invalid listing ID provided');
+    }
+
+    if (!args.quantity || args.quantity <= 0n) {
+      throw new Error('Quantity must be greater than zero');
+    }
+
+    if (!args.deliveryLocation || args.deliveryLocation.trim() === '') {
+      throw new Error('Delivery location is required');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'createOrder',
+      args: [args.listingId, args.quantity, args.deliveryLocation, args.requestedDeliveryDate],
+    });
+  };
+
+  return {
+    writeAsync: createOrder,
+    ...rest,
+  };
+};
+
+export const useSelectTransporter = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const selectTransporter = async (args: {
+    orderId: bigint;
+    transporter: string;
+    transportPrice: bigint;
+  }) => {
+    if (!args.transporter || args.transporter === '0x0000000000000000000000000000000000000000') {
+      throw new Error('Invalid transporter address provided');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'selectTransporter',
+      args: [args.orderId, args.transporter, args.transportPrice],
+    });
+  };
+
+  return {
+    writeAsync: selectTransporter,
+    ...rest,
+  };
+};
+
+export const useProcessPayment = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const processPayment = async (args: {
+    orderId: bigint;
+    value: bigint;
+  }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'processPayment',
+      args: [args.orderId],
+      value: args.value,
+    });
+  };
+
+  return {
+    writeAsync: processPayment,
+    ...rest,
+  };
+};
+
+export const useConfirmOrder = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const confirmOrder = async (args: { orderId: bigint }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'confirmOrder',
+      args: [args.orderId],
+    });
+  };
+
+  return {
+    writeAsync: confirmOrder,
+    ...rest,
+  };
+};
+
+export const useShipOrder = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const shipOrder = async (args: {
+    orderId: bigint;
+    pickupLocation: string;
+  }) => {
+    if (!args.pickupLocation || args.pickupLocation.trim() === '') {
+      throw new Error('Pickup location is required');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'shipOrder',
+      args: [args.orderId, args.pickupLocation],
+    });
+  };
+
+  return {
+    writeAsync: shipOrder,
+    ...rest,
+  };
+};
+
+export const useUpdateTracking = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const updateTracking = async (args: {
+    orderId: bigint;
+    currentLocation: string;
+    statusUpdate: string;
+  }) => {
+    if (!args.currentLocation || args.currentLocation.trim() === '') {
+      throw new Error('Current location is required');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'updateTracking',
+      args: [args.orderId, args.currentLocation, args.statusUpdate],
+    });
+  };
+
+  return {
+    writeAsync: updateTracking,
+    ...rest,
+  };
+};
+
+export const useMarkDelivered = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const markDelivered = async (args: { orderId: bigint }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'markDelivered',
+      args: [args.orderId],
+    });
+  };
+
+  return {
+    writeAsync: markDelivered,
+    ...rest,
+  };
+};
+
+export const useCompleteOrder = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const completeOrder = async (args: { orderId: bigint }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'completeOrder',
+      args: [args.orderId],
+    });
+  };
+
+  return {
+    writeAsync: completeOrder,
+    ...rest,
+  };
+};
+
+export const useCancelOrder = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const cancelOrder = async (args: { orderId: bigint }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+      abi: OrderManagerABI,
+      functionName: 'cancelOrder',
+      args: [args.orderId],
+    });
+  };
+
+  return {
+    writeAsync: cancelOrder,
+    ...rest,
+  };
+};
+
+export const useOrder = (orderId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+    abi: OrderManagerABI,
+    functionName: 'getOrder',
+    args: orderId ? [orderId] : undefined,
+    query: {
+      enabled: !!orderId,
+    },
+  });
+};
+
+export const useUserOrders = (userAddress?: string) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+    abi: OrderManagerABI,
+    functionName: 'getUserOrders',
+    args: userAddress ? [userAddress] : undefined,
+    query: {
+      enabled: !!userAddress,
+    },
+  });
+};
+
+export const useTrackingInfo = (orderId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+    abi: OrderManagerABI,
+    functionName: 'getTrackingInfo',
+    args: orderId ? [orderId] : undefined,
+    query: {
+      enabled: !!orderId,
+    },
+  });
+};
+
+export const useOrdersAwaitingTransporter = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+    abi: OrderManagerABI,
+    functionName: 'getOrdersAwaitingTransporter',
+  });
+};
+
+export const useOrderList = () => {
+  const publicClient = usePublicClient();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch order structs for a list of order ids
+  const getOrdersByIds = useCallback(async (orderIds: readonly bigint[]): Promise<Order[]> => {
+    if (!publicClient || orderIds.length === 0) return [];
+
+    const results = await Promise.allSettled(
+      orderIds.map(orderId =>
+        publicClient.readContract({
+          address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+          abi: OrderManagerABI,
+          functionName: 'getOrder',
+          args: [orderId],
+        }) as Promise<Order>
+      )
+    );
+
+    return results
+      .filter((result): result is PromiseFulfilledResult<Order> => result.status === 'fulfilled')
+      .map(result => result.value);
+  }, [publicClient]);
+
+  // Get every order the user takes part in as buyer, farmer or transporter, newest first
+  const getUserOrders = useCallback(async (userAddress?: string): Promise<Order[]> => {
+    if (!publicClient || !userAddress) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const orderIds = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+        abi: OrderManagerABI,
+        functionName: 'getUserOrders',
+        args: [userAddress],
+      }) as readonly bigint[];
+
+      const orders = await getOrdersByIds(orderIds);
+      return orders.sort((a, b) => Number(b.createdAt - a.createdAt));
+    } catch (err) {
+      console.error('Error fetching user orders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch orders');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, getOrdersByIds]);
+
+  // Get every order ever created, newest first. Unused ids read back as empty orders and are dropped.
+  const getAllOrders = useCallback(async (): Promise<Order[]> => {
+    if (!publicClient) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const nextOrderId = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+        abi: OrderManagerABI,
+        functionName: 'nextOrderId',
+      }) as bigint;
+
+      const orderIds = Array.from({ length: Number(nextOrderId) }, (_, index) => BigInt(index));
+      const orders = await getOrdersByIds(orderIds);
+      return orders
+        .filter(order => order.buyer !== zeroAddress)
+        .sort((a, b) => Number(b.createdAt - a.createdAt));
+    } catch (err) {
+      console.error('Error fetching all orders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch orders');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, getOrdersByIds]);
+
+  return {
+    isLoading,
+    error,
+    getOrdersByIds,
+    getUserOrders,
+    getAllOrders,
+  };
+};
+
+export const useOrderManagerEvents = (
+  eventName: OrderManagerEventName,
+  onLogs: (logs: Log[]) => void,
+  enabled: boolean = true
+) => {
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESSES.OrderManager as `0x${string}`,
+    abi: OrderManagerABI,
+    eventName,
+    onLogs,
+    enabled,
+  });
+};
+
+// Helper function to read the order id from an OrderCreated event in a receipt
+export const getOrderIdFromReceipt = (receipt: TransactionReceipt): bigint | null => {
+  const logs = parseEventLogs({
+    abi: OrderManagerABI as Abi,
+    eventName: 'OrderCreated',
+    logs: receipt.logs,
+  });
+
+  const orderLog = logs.find(
+    log => log.address.toLowerCase() === CONTRACT_ADDRESSES.OrderManager.toLowerCase()
+  );
+
+  return orderLog ? (orderLog.args as { orderId: bigint }).orderId : null;
+};
+
+// Helper function to work out which side of an order an address is on
+export const getOrderRole = (order: Order, address?: string): 'buyer' | 'farmer' | 'transporter' | null => {
+  if (!address) return null;
+  const normalized = address.toLowerCase();
+  if (order.buyer.toLowerCase() === normalized) return 'buyer';
+  if (order.farmer.toLowerCase() === normalized) return 'farmer';
+  if (order.transporter.toLowerCase() === normalized) return 'transporter';
+  return null;
+};
+
+// Helper function to get order status label
+export const getOrderStatusLabel = (status: number): string => {
+  return ORDER_STATUS_LABELS[status as keyof typeof ORDER_STATUS_LABELS] || 'Unknown';
+};
+
+// Helper function to get order status color
+export const getOrderStatusColor = (status: number): string => {
+  switch (status) {
+    case ORDER_STATUS.CREATED:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+    case ORDER_STATUS.PAID:
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case ORDER_STATUS.CONFIRMED:
+    case ORDER_STATUS.COMPLETED:
+      return 'bg-green-100 text-green-800 border-green-200';
+    case ORDER_STATUS.IN_TRANSIT:
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case ORDER_STATUS.DELIVERED:
+      return 'bg-purple-100 text-purple-800 border-purple-200';
+    case ORDER_STATUS.CANCELLED:
+      return 'bg-red-100 text-red-800 border-red-200';
+    case ORDER_STATUS.DISPUTED:
+      return 'bg-orange-100 text-orange-800 border-orange-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
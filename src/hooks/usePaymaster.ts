@@ -0,0 +1,361 @@
+import { useState, useCallback } from 'react';
+import { usePublicClient, useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi';
+import { Log, isAddress } from 'viem';
+import { entryPoint07Abi } from 'viem/account-abstraction';
+import { CONTRACT_ADDRESSES } from '../config/constants';
+import { loadIndexedEvents, getBlockTimestamps, invalidateEventIndex } from '../utils/eventIndexer';
+import GreenLedgerPaymasterABI from '../contracts/GreenLedgerPaymaster.json';
+
+export interface PaymasterRules {
+  operations: string[]; // Allowed 4-byte selectors
+  senders: string[]; // Allowed smart account addresses
+}
+
+export interface SponsoredOperation {
+  sender: string;
+  operation: string;
+  actualGasCost: bigint;
+  transactionHash: string;
+  timestamp: number; // Milliseconds
+}
+
+export interface StakeInfo {
+  deposit: bigint;
+  staked: boolean;
+  stake: bigint;
+  unstakeDelaySec: number;
+  withdrawTime: number; // Unix seconds; 0 until the stake is unlocked
+}
+
+export type PaymasterEventName =
+  | 'UserOperationSponsored'
+  | 'OperationStatusUpdated'
+  | 'SenderStatusUpdated';
+
+const SELECTOR_PATTERN = /^0x[0-9a-fA-F]{8}$/;
+
+// Helper function to replay status updates into the keys that are currently allowed
+const getAllowedKeys = (updates: { key: string; allowed: boolean }[]): string[] => {
+  const statuses = new Map<string, boolean>();
+  updates.forEach(update => statuses.set(update.key.toLowerCase(), update.allowed));
+  return Array.from(statuses.entries())
+    .filter(([, allowed]) => allowed)
+    .map(([key]) => key);
+};
+
+export const useSetOperationStatus = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const setOperationStatus = async (args: { operations: string[]; allowed: boolean }) => {
+    if (args.operations.length === 0) {
+      throw new Error('No function selectors provided');
+    }
+
+    const invalid = args.operations.find(operation => !SELECTOR_PATTERN.test(operation));
+    if (invalid) {
+      throw new Error(`Invalid function selector: ${invalid}`);
+    }
+
+    // The single setter is cheaper when only one selector changes
+    if (args.operations.length === 1) {
+      return await writeContractAsync({
+        address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+        abi: GreenLedgerPaymasterABI,
+        functionName: 'setOperationStatus',
+        args: [args.operations[0], args.allowed],
+      });
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      abi: GreenLedgerPaymasterABI,
+      functionName: 'setBatchOperationStatus',
+      args: [args.operations, args.allowed],
+    });
+  };
+
+  return {
+    writeAsync: setOperationStatus,
+    ...rest,
+  };
+};
+
+export const useSetSenderStatus = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const setSenderStatus = async (args: { senders: string[]; allowed: boolean }) => {
+    if (args.senders.length === 0) {
+      throw new Error('No sender addresses provided');
+    }
+
+    const invalid = args.senders.find(sender => !isAddress(sender));
+    if (invalid) {
+      throw new Error(`Invalid sender address: ${invalid}`);
+    }
+
+    if (args.senders.length === 1) {
+      return await writeContractAsync({
+        address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+        abi: GreenLedgerPaymasterABI,
+        functionName: 'setSenderStatus',
+        args: [args.senders[0], args.allowed],
+      });
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      abi: GreenLedgerPaymasterABI,
+      functionName: 'setBatchSenderStatus',
+      args: [args.senders, args.allowed],
+    });
+  };
+
+  return {
+    writeAsync: setSenderStatus,
+    ...rest,
+  };
+};
+
+export const useDepositToPaymaster = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const deposit = async (args: { amount: bigint }) => {
+    if (args.amount <= 0n) {
+      throw new Error('Deposit amount must be greater than zero');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      abi: GreenLedgerPaymasterABI,
+      functionName: 'deposit',
+      value: args.amount,
+    });
+  };
+
+  return {
+    writeAsync: deposit,
+    ...rest,
+  };
+};
+
+export const useWithdrawDeposit = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const withdrawTo = async (args: { withdrawAddress: string; amount: bigint }) => {
+    if (!isAddress(args.withdrawAddress)) {
+      throw new Error('Invalid withdrawal address');
+    }
+
+    if (args.amount <= 0n) {
+      throw new Error('Withdrawal amount must be greater than zero');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      abi: GreenLedgerPaymasterABI,
+      functionName: 'withdrawTo',
+      args: [args.withdrawAddress, args.amount],
+    });
+  };
+
+  return {
+    writeAsync: withdrawTo,
+    ...rest,
+  };
+};
+
+export const useAddStake = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const addStake = async (args: { amount: bigint; unstakeDelaySec: number }) => {
+    if (args.amount <= 0n) {
+      throw new Error('Stake amount must be greater than zero');
+    }
+
+    if (!Number.isInteger(args.unstakeDelaySec) || args.unstakeDelaySec <= 0) {
+      throw new Error('Unstake delay must be a positive number of seconds');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      abi: GreenLedgerPaymasterABI,
+      functionName: 'addStake',
+      args: [args.unstakeDelaySec],
+      value: args.amount,
+    });
+  };
+
+  return {
+    writeAsync: addStake,
+    ...rest,
+  };
+};
+
+export const useUnlockStake = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const unlockStake = async () => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      abi: GreenLedgerPaymasterABI,
+      functionName: 'unlockStake',
+    });
+  };
+
+  return {
+    writeAsync: unlockStake,
+    ...rest,
+  };
+};
+
+export const useWithdrawStake = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const withdrawStake = async (args: { withdrawAddress: string }) => {
+    if (!isAddress(args.withdrawAddress)) {
+      throw new Error('Invalid withdrawal address');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      abi: GreenLedgerPaymasterABI,
+      functionName: 'withdrawStake',
+      args: [args.withdrawAddress],
+    });
+  };
+
+  return {
+    writeAsync: withdrawStake,
+    ...rest,
+  };
+};
+
+export const usePaymasterEntryPoint = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+    abi: GreenLedgerPaymasterABI,
+    functionName: 'entryPoint',
+  });
+};
+
+// Deposit and stake as held by the EntryPoint on the paymaster's behalf
+export const usePaymasterStake = (entryPoint?: string) => {
+  const result = useReadContract({
+    address: entryPoint as `0x${string}`,
+    abi: entryPoint07Abi,
+    functionName: 'getDepositInfo',
+    args: [CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`],
+    query: {
+      enabled: !!entryPoint,
+    },
+  });
+
+  const info = result.data;
+  const stakeInfo: StakeInfo | undefined = info
+    ? {
+      deposit: info.deposit,
+      staked: info.staked,
+      stake: info.stake,
+      unstakeDelaySec: Number(info.unstakeDelaySec),
+      withdrawTime: Number(info.withdrawTime),
+    }
+    : undefined;
+
+  return {
+    ...result,
+    data: stakeInfo,
+  };
+};
+
+export const usePaymasterActivity = () => {
+  const publicClient = usePublicClient();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Allowed selectors and senders, rebuilt from status update events since the mappings can't be enumerated
+  const getRules = useCallback(async (): Promise<PaymasterRules> => {
+    if (!publicClient) return { operations: [], senders: [] };
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const events = await loadIndexedEvents(publicClient, {
+        eventNames: ['OperationStatusUpdated', 'SenderStatusUpdated'],
+      });
+
+      return {
+        operations: getAllowedKeys(
+          events
+            .filter(event => event.eventName === 'OperationStatusUpdated')
+            .map(event => ({ key: event.args.operation, allowed: event.args.allowed }))
+        ),
+        senders: getAllowedKeys(
+          events
+            .filter(event => event.eventName === 'SenderStatusUpdated')
+            .map(event => ({ key: event.args.sender, allowed: event.args.allowed }))
+        ),
+      };
+    } catch (err) {
+      console.error('Error fetching paymaster rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch paymaster rules');
+      return { operations: [], senders: [] };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient]);
+
+  // Every operation the paymaster has paid for, oldest first
+  const getSponsoredOperations = useCallback(async (): Promise<SponsoredOperation[]> => {
+    if (!publicClient) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const events = await loadIndexedEvents(publicClient, { eventNames: ['UserOperationSponsored'] });
+      const timestamps = await getBlockTimestamps(publicClient, events.map(event => event.blockNumber));
+
+      return events.map(event => ({
+        sender: event.args.sender,
+        operation: event.args.operation,
+        actualGasCost: event.args.actualGasCost,
+        transactionHash: event.transactionHash,
+        timestamp: timestamps.get(event.blockNumber) || 0,
+      }));
+    } catch (err) {
+      console.error('Error fetching sponsored operations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch sponsored operations');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient]);
+
+  return {
+    isLoading,
+    error,
+    getRules,
+    getSponsoredOperations,
+  };
+};
+
+export const usePaymasterEvents = (
+  eventName: PaymasterEventName,
+  onLogs: (logs: Log[]) => void,
+  enabled: boolean = true
+) => {
+  const handleLogs = useCallback((logs: Log[]) => {
+    invalidateEventIndex();
+    onLogs(logs);
+  }, [onLogs]);
+
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+    abi: GreenLedgerPaymasterABI,
+    eventName,
+    onLogs: handleLogs,
+    enabled,
+  });
+};
@@ -0,0 +1,292 @@
+import { useState, useCallback } from 'react';
+import { usePublicClient, useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi';
+import { Log } from 'viem';
+import { CONTRACT_ADDRESSES, PAYMENT_STATUS, PAYMENT_STATUS_LABELS } from '../config/constants';
+import PaymentProcessorABI from '../contracts/PaymentProcessor.json';
+
+export interface Payment {
+  paymentId: bigint;
+  orderId: bigint;
+  payer: string;
+  farmer: string;
+  transporter: string;
+  farmerAmount: bigint;
+  transporterAmount: bigint;
+  marketplaceFee: bigint;
+  totalAmount: bigint;
+  createdAt: bigint;
+  escrowedAt: bigint;
+  releasedAt: bigint;
+  status: number;
+}
+
+export interface Dispute {
+  paymentId: bigint;
+  raisedBy: string;
+  reason: string;
+  evidenceUri: string;
+  raisedAt: bigint;
+  resolved: boolean;
+  refunded: boolean;
+  resolution: string;
+  resolvedAt: bigint;
+}
+
+export type PaymentProcessorEventName =
+  | 'PaymentCreated'
+  | 'PaymentEscrowed'
+  | 'PaymentReleased'
+  | 'PaymentRefunded'
+  | 'DisputeRaised'
+  | 'DisputeResolved';
+
+export const useReleasePayment = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const releasePayment = async (args: { paymentId: bigint }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+      abi: PaymentProcessorABI,
+      functionName: 'releasePayment',
+      args: [args.paymentId],
+    });
+  };
+
+  return {
+    writeAsync: releasePayment,
+    ...rest,
+  };
+};
+
+export const useRefundPayment = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const refundPayment = async (args: { paymentId: bigint }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+      abi: PaymentProcessorABI,
+      functionName: 'refundPayment',
+      args: [args.paymentId],
+    });
+  };
+
+  return {
+    writeAsync: refundPayment,
+    ...rest,
+  };
+};
+
+export const useRaiseDispute = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const raiseDispute = async (args: {
+    paymentId: bigint;
+    reason: string;
+    evidenceUri: string;
+  }) => {
+    if (!args.paymentId || args.paymentId <= 0n) {
+      throw new Error('Invalid payment ID provided');
+    }
+
+    if (!args.reason || args.reason.trim() === '') {
+      throw new Error('A reason is required to raise a dispute');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+      abi: PaymentProcessorABI,
+      functionName: 'raiseDispute',
+      args: [args.paymentId, args.reason, args.evidenceUri],
+    });
+  };
+
+  return {
+    writeAsync: raiseDispute,
+    ...rest,
+  };
+};
+
+export const useResolveDispute = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const resolveDispute = async (args: {
+    paymentId: bigint;
+    refundBuyer: boolean;
+    resolution: string;
+  }) => {
+    if (!args.resolution || args.resolution.trim() === '') {
+      throw new Error('A resolution note is required');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+      abi: PaymentProcessorABI,
+      functionName: 'resolveDispute',
+      args: [args.paymentId, args.refundBuyer, args.resolution],
+    });
+  };
+
+  return {
+    writeAsync: resolveDispute,
+    ...rest,
+  };
+};
+
+export const usePaymentDetails = (paymentId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+    abi: PaymentProcessorABI,
+    functionName: 'getPaymentDetails',
+    args: paymentId ? [paymentId] : undefined,
+    query: {
+      enabled: !!paymentId,
+    },
+  });
+};
+
+export const usePaymentByOrder = (orderId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+    abi: PaymentProcessorABI,
+    functionName: 'getPaymentByOrder',
+    args: orderId ? [orderId] : undefined,
+    query: {
+      enabled: !!orderId,
+    },
+  });
+};
+
+export const useDispute = (paymentId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+    abi: PaymentProcessorABI,
+    functionName: 'getDispute',
+    args: paymentId ? [paymentId] : undefined,
+    query: {
+      enabled: !!paymentId,
+    },
+  });
+};
+
+export const useOpenDisputes = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+    abi: PaymentProcessorABI,
+    functionName: 'getOpenDisputes',
+  });
+};
+
+export const useDisputePeriod = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+    abi: PaymentProcessorABI,
+    functionName: 'disputePeriod',
+  });
+};
+
+export const usePaymentList = () => {
+  const publicClient = usePublicClient();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch payment structs for a list of payment ids, keyed by payment id
+  const getPaymentsByIds = useCallback(async (paymentIds: readonly bigint[]): Promise<Record<string, Payment>> => {
+    const ids = paymentIds.filter(paymentId => paymentId > 0n);
+    if (!publicClient || ids.length === 0) return {};
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const results = await Promise.allSettled(
+        ids.map(paymentId =>
+          publicClient.readContract({
+            address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+            abi: PaymentProcessorABI,
+            functionName: 'getPaymentDetails',
+            args: [paymentId],
+          }) as Promise<Payment>
+        )
+      );
+
+      return Object.fromEntries(
+        results
+          .filter((result): result is PromiseFulfilledResult<Payment> => result.status === 'fulfilled')
+          .map(result => [result.value.paymentId.toString(), result.value])
+      );
+    } catch (err) {
+      console.error('Error fetching payments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch payments');
+      return {};
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient]);
+
+  // Fetch dispute records for a list of payment ids, keyed by payment id
+  const getDisputesByIds = useCallback(async (paymentIds: readonly bigint[]): Promise<Record<string, Dispute>> => {
+    if (!publicClient || paymentIds.length === 0) return {};
+
+    const results = await Promise.allSettled(
+      paymentIds.map(paymentId =>
+        publicClient.readContract({
+          address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+          abi: PaymentProcessorABI,
+          functionName: 'getDispute',
+          args: [paymentId],
+        }) as Promise<Dispute>
+      )
+    );
+
+    return Object.fromEntries(
+      results
+        .filter((result): result is PromiseFulfilledResult<Dispute> => result.status === 'fulfilled')
+        .map(result => [result.value.paymentId.toString(), result.value])
+    );
+  }, [publicClient]);
+
+  return {
+    isLoading,
+    error,
+    getPaymentsByIds,
+    getDisputesByIds,
+  };
+};
+
+export const usePaymentProcessorEvents = (
+  eventName: PaymentProcessorEventName,
+  onLogs: (logs: Log[]) => void,
+  enabled: boolean = true
+) => {
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESSES.PaymentProcessor as `0x${string}`,
+    abi: PaymentProcessorABI,
+    eventName,
+    onLogs,
+    enabled,
+  });
+};
+
+// Helper function to get payment status label
+export const getPaymentStatusLabel = (status: number): string => {
+  return PAYMENT_STATUS_LABELS[status as keyof typeof PAYMENT_STATUS_LABELS] || 'Unknown';
+};
+
+// Helper function to get payment status color
+export const getPaymentStatusColor = (status: number): string => {
+  switch (status) {
+    case PAYMENT_STATUS.PENDING:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+    case PAYMENT_STATUS.ESCROWED:
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case PAYMENT_STATUS.RELEASED:
+      return 'bg-green-100 text-green-800 border-green-200';
+    case PAYMENT_STATUS.REFUNDED:
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case PAYMENT_STATUS.DISPUTED:
+      return 'bg-orange-100 text-orange-800 border-orange-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
@@ -0,0 +1,220 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useAccount, usePublicClient, useWalletClient, useWriteContract } from 'wagmi';
+import type { Hash } from 'viem';
+import { SPONSORSHIP_CONFIG } from '../config/constants';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils';
+import {
+  checkSponsorship,
+  getSmartAccount,
+  getSmartAccountAddress,
+  isUserRejection,
+  sendSponsoredCalls,
+  ContractCall,
+} from '../utils/userOperations';
+
+export interface SponsorshipStatus {
+  mode: 'sponsored' | 'direct';
+  reason?: string; // Why the write fell back to a regular transaction
+}
+
+/**
+ * Drop-in replacement for useWriteContract that tries a gasless, paymaster-sponsored
+ * user operation first and falls back to a regular transaction when the paymaster
+ * will not cover the call. The user is told why the fallback was taken, except for calls
+ * that can only come from the wallet (they need its tokens or roles), which are sent
+ * directly without a warning.
+ *
+ * writeContractsAsync sends several calls the same way: as one sponsored user
+ * operation when possible, otherwise as regular transactions one after another.
+ */
+export const useSponsoredWriteContract = () => {
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { addToast } = useToast();
+  const { writeContractAsync: writeDirectAsync } = useWriteContract();
+
+  const [data, setData] = useState<Hash | undefined>();
+  const [error, setError] = useState<Error | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [sponsorship, setSponsorship] = useState<SponsorshipStatus | null>(null);
+
+  // Helper function to find out why calls cannot be sponsored, sending them sponsored when they can
+  const trySponsored = useCallback(async (
+    calls: ContractCall[]
+  ): Promise<{ hash?: Hash; reason?: string; walletOnly?: boolean }> => {
+    if (!SPONSORSHIP_CONFIG.BUNDLER_URL) {
+      return { reason: 'gas sponsorship is not configured for this deployment' };
+    }
+
+    if (!publicClient || !walletClient?.account) {
+      return { reason: 'the wallet is not ready to sign sponsored operations' };
+    }
+
+    try {
+      const account = await getSmartAccount(walletClient, publicClient);
+      // Every call must qualify; a partly sponsored batch would split it across transactions
+      for (const call of calls) {
+        const check = await checkSponsorship(publicClient, account.address, call);
+        if (!check.sponsored) {
+          return { reason: check.reason, walletOnly: check.walletOnly };
+        }
+      }
+
+      return { hash: await sendSponsoredCalls(publicClient, account, calls) };
+    } catch (err) {
+      if (isUserRejection(err)) throw err;
+      console.warn('Sponsored operation failed:', err);
+      return { reason: `the sponsored operation failed (${getErrorMessage(err)})` };
+    }
+  }, [publicClient, walletClient]);
+
+  const writeContractAsync = useCallback(async (call: ContractCall): Promise<Hash> => {
+    setIsPending(true);
+    setError(null);
+    setData(undefined);
+
+    try {
+      const { hash: sponsoredHash, reason, walletOnly } = await trySponsored([call]);
+      if (sponsoredHash) {
+        setSponsorship({ mode: 'sponsored' });
+        setData(sponsoredHash);
+        return sponsoredHash;
+      }
+
+      setSponsorship({ mode: 'direct', reason });
+      // Without a bundler every write is a regular transaction, which is not worth a warning,
+      // and neither is a call only the wallet itself can make
+      if (SPONSORSHIP_CONFIG.BUNDLER_URL && !walletOnly) {
+        addToast(`Gas sponsorship unavailable: ${reason}. Sending a regular transaction - your wallet pays the gas.`, 'warning');
+      }
+
+      const hash = await writeDirectAsync({
+        address: call.address as `0x${string}`,
+        abi: call.abi,
+        functionName: call.functionName,
+        args: call.args,
+      });
+      setData(hash);
+      return hash;
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    } finally {
+      setIsPending(false);
+    }
+  }, [trySponsored, writeDirectAsync, addToast]);
+
+  // onConfirmed sees each transaction as it lands, with how many of the calls (in order)
+  // it carried, so a caller keeps the ones that went through when a later one fails
+  const writeContractsAsync = useCallback(async (
+    calls: ContractCall[],
+    onConfirmed?: (hash: Hash, callCount: number) => void | Promise<void>
+  ): Promise<Hash[]> => {
+    if (calls.length === 0) return [];
+
+    setIsPending(true);
+    setError(null);
+    setData(undefined);
+
+    try {
+      const { hash: sponsoredHash, reason, walletOnly } = await trySponsored(calls);
+      if (sponsoredHash) {
+        setSponsorship({ mode: 'sponsored' });
+        setData(sponsoredHash);
+        await onConfirmed?.(sponsoredHash, calls.length);
+        return [sponsoredHash];
+      }
+
+      setSponsorship({ mode: 'direct', reason });
+      if (SPONSORSHIP_CONFIG.BUNDLER_URL && !walletOnly) {
+        addToast(
+          `Gas sponsorship unavailable: ${reason}. Sending ${calls.length} regular transaction(s) - your wallet pays the gas.`,
+          'warning'
+        );
+      }
+
+      // Each transaction is confirmed before the next is sent, so a revert stops the rest
+      const hashes: Hash[] = [];
+      for (const call of calls) {
+        const hash = await writeDirectAsync({
+          address: call.address as `0x${string}`,
+          abi: call.abi,
+          functionName: call.functionName,
+          args: call.args,
+        });
+        const receipt = await publicClient!.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error(`${call.functionName} reverted`);
+        }
+        hashes.push(hash);
+        setData(hash);
+        await onConfirmed?.(hash, 1);
+      }
+      return hashes;
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    } finally {
+      setIsPending(false);
+    }
+  }, [publicClient, trySponsored, writeDirectAsync, addToast]);
+
+  const reset = useCallback(() => {
+    setData(undefined);
+    setError(null);
+    setSponsorship(null);
+  }, []);
+
+  return {
+    writeContractAsync,
+    writeContractsAsync,
+    data,
+    error,
+    isPending,
+    isSuccess: !!data,
+    sponsorship,
+    reset,
+  };
+};
+
+/**
+ * The addresses that act for the connected wallet, lowercased: the wallet itself and, when
+ * gas sponsorship is configured, its smart account. A sponsored write makes the smart account
+ * msg.sender, so anything the contracts record about the sender (such as the minter of a
+ * batch) must be compared against both.
+ *
+ * ownAddresses fills in once the smart account is resolved; resolveOwnAddresses waits for it.
+ */
+export const useOwnAddresses = () => {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const [ownAddresses, setOwnAddresses] = useState<string[]>([]);
+
+  const resolveOwnAddresses = useCallback(async (): Promise<string[]> => {
+    if (!address) return [];
+
+    const addresses = [address.toLowerCase()];
+    if (SPONSORSHIP_CONFIG.BUNDLER_URL && publicClient && walletClient?.account) {
+      try {
+        addresses.push((await getSmartAccountAddress(walletClient, publicClient)).toLowerCase());
+      } catch (err) {
+        console.warn('Failed to resolve smart account address:', err);
+      }
+    }
+    return addresses;
+  }, [address, publicClient, walletClient]);
+
+  useEffect(() => {
+    let cancelled = false;
+    resolveOwnAddresses().then(addresses => {
+      if (!cancelled) setOwnAddresses(addresses);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [resolveOwnAddresses]);
+
+  return { ownAddresses, resolveOwnAddresses };
+};
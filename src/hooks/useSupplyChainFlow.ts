@@ -1,10 +1,10 @@
 import { useState, useCallback, useEffect } from 'react';
 import { usePublicClient } from 'wagmi';
 import { getAddress } from 'viem';
-import { CONTRACT_ADDRESSES } from '../config/constants';
 import { useToast } from '../contexts/ToastContext';
 import CropBatchTokenABI from '../contracts/CropBatchToken.json';
 import { useCropBatchToken } from './useCropBatchToken';
+import { loadIndexedEvents, getBlockTimestamps, IndexedEvent } from '../utils/eventIndexer';
 
 export interface SupplyChainEvent {
   id: string;
@@ -30,6 +30,61 @@ export interface SupplyChainHistory {
   totalTransfers: number;
 }
 
+// Helper function to turn indexed mint and transfer events into supply chain events.
+// Mints also emit a TransferSingle from the zero address, which is skipped here;
+// a TransferBatch becomes one event per token it moved.
+const toSupplyChainEvents = (
+  indexedEvents: IndexedEvent[],
+  timestamps: Map<number, number>,
+  tokenId?: number
+): SupplyChainEvent[] => {
+  const events: SupplyChainEvent[] = [];
+
+  for (const event of indexedEvents) {
+    const timestamp = timestamps.get(event.blockNumber) ?? 0;
+
+    if (event.eventName === 'CropBatchMinted') {
+      events.push({
+        id: `mint-${event.transactionHash}-${event.logIndex}`,
+        tokenId: event.tokenIds[0],
+        eventType: 'minted',
+        from: '0x0000000000000000000000000000000000000000',
+        to: event.args.minter as string,
+        timestamp,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        metadata: {
+          cropType: event.args.cropType as string,
+          quantity: Number(event.args.quantity),
+          metadataUri: event.args.metadataUri as string,
+        },
+      });
+    } else if (
+      (event.eventName === 'TransferSingle' || event.eventName === 'TransferBatch') &&
+      event.args.from !== '0x0000000000000000000000000000000000000000'
+    ) {
+      event.tokenIds
+        .filter(id => tokenId === undefined || id === tokenId)
+        .forEach(id => {
+          events.push({
+            id: event.eventName === 'TransferBatch'
+              ? `transfer-${event.transactionHash}-${event.logIndex}-${id}`
+              : `transfer-${event.transactionHash}-${event.logIndex}`,
+            tokenId: id,
+            eventType: 'transferred',
+            from: event.args.from as string,
+            to: event.args.to as string,
+            timestamp,
+            blockNumber: event.blockNumber,
+            transactionHash: event.transactionHash,
+          });
+        });
+    }
+  }
+
+  return events;
+};
+
 export const useSupplyChainFlow = () => {
   const { addToast } = useToast();
   const publicClient = usePublicClient();
@@ -46,88 +101,12 @@ export const useSupplyChainFlow = () => {
       setIsLoading(true);
       setError(null);
 
-      const events: SupplyChainEvent[] = [];
-
-      // Get minting events
-      const mintLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'CropBatchMinted',
-          inputs: [
-            { name: 'tokenId', type: 'uint256', indexed: true },
-            { name: 'minter', type: 'address', indexed: true },
-            { name: 'metadataUri', type: 'string', indexed: false },
-            { name: 'cropType', type: 'string', indexed: false },
-            { name: 'quantity', type: 'uint256', indexed: false },
-          ],
-        },
-        args: {
-          tokenId: BigInt(tokenId),
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest',
-      });
-
-      // Process mint events
-      for (const log of mintLogs) {
-        if (log.args && log.blockNumber) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          events.push({
-            id: `mint-${log.transactionHash}-${log.logIndex}`,
-            tokenId,
-            eventType: 'minted',
-            from: '0x0000000000000000000000000000000000000000',
-            to: log.args.minter as string,
-            timestamp: Number(block.timestamp) * 1000,
-            blockNumber: Number(log.blockNumber),
-            transactionHash: log.transactionHash,
-            metadata: {
-              cropType: log.args.cropType as string,
-              quantity: Number(log.args.quantity),
-              metadataUri: log.args.metadataUri as string,
-            },
-          });
-        }
-      }
-
-      // Get transfer events
-      const transferLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'TransferSingle',
-          inputs: [
-            { name: 'operator', type: 'address', indexed: true },
-            { name: 'from', type: 'address', indexed: true },
-            { name: 'to', type: 'address', indexed: true },
-            { name: 'id', type: 'uint256', indexed: false },
-            { name: 'value', type: 'uint256', indexed: false },
-          ],
-        },
-        args: {
-          id: BigInt(tokenId),
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest',
+      const tokenEvents = await loadIndexedEvents(publicClient, {
+        tokenId,
+        eventNames: ['CropBatchMinted', 'TransferSingle', 'TransferBatch'],
       });
-
-      // Process transfer events (excluding mints)
-      for (const log of transferLogs) {
-        if (log.args && log.blockNumber && log.args.from !== '0x0000000000000000000000000000000000000000') {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          events.push({
-            id: `transfer-${log.transactionHash}-${log.logIndex}`,
-            tokenId,
-            eventType: 'transferred',
-            from: log.args.from as string,
-            to: log.args.to as string,
-            timestamp: Number(block.timestamp) * 1000,
-            blockNumber: Number(log.blockNumber),
-            transactionHash: log.transactionHash,
-          });
-        }
-      }
+      const timestamps = await getBlockTimestamps(publicClient, tokenEvents.map(event => event.blockNumber));
+      const events = toSupplyChainEvents(tokenEvents, timestamps, tokenId);
 
       // Sort events by timestamp
       events.sort((a, b) => a.timestamp - b.timestamp);
@@ -236,81 +215,13 @@ export const useSupplyChainFlow = () => {
       setIsLoading(true);
       setError(null);
 
-      const events: SupplyChainEvent[] = [];
-
-      // Get recent mint events
-      const mintLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'CropBatchMinted',
-          inputs: [
-            { name: 'tokenId', type: 'uint256', indexed: true },
-            { name: 'minter', type: 'address', indexed: true },
-            { name: 'metadataUri', type: 'string', indexed: false },
-            { name: 'cropType', type: 'string', indexed: false },
-            { name: 'quantity', type: 'uint256', indexed: false },
-          ],
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest',
+      // Indexed events come back in chain order, so the newest are at the end
+      const indexedEvents = await loadIndexedEvents(publicClient, {
+        eventNames: ['CropBatchMinted', 'TransferSingle', 'TransferBatch'],
       });
-
-      // Get recent transfer events
-      const transferLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'TransferSingle',
-          inputs: [
-            { name: 'operator', type: 'address', indexed: true },
-            { name: 'from', type: 'address', indexed: true },
-            { name: 'to', type: 'address', indexed: true },
-            { name: 'id', type: 'uint256', indexed: false },
-            { name: 'value', type: 'uint256', indexed: false },
-          ],
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest',
-      });
-
-      // Process and combine events
-      const allLogs = [...mintLogs, ...transferLogs];
-      
-      for (const log of allLogs.slice(-limit)) {
-        if (log.blockNumber) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          
-          if (log.eventName === 'CropBatchMinted' && log.args) {
-            events.push({
-              id: `mint-${log.transactionHash}-${log.logIndex}`,
-              tokenId: Number(log.args.tokenId),
-              eventType: 'minted',
-              from: '0x0000000000000000000000000000000000000000',
-              to: log.args.minter as string,
-              timestamp: Number(block.timestamp) * 1000,
-              blockNumber: Number(log.blockNumber),
-              transactionHash: log.transactionHash,
-              metadata: {
-                cropType: log.args.cropType as string,
-                quantity: Number(log.args.quantity),
-                metadataUri: log.args.metadataUri as string,
-              },
-            });
-          } else if (log.eventName === 'TransferSingle' && log.args && log.args.from !== '0x0000000000000000000000000000000000000000') {
-            events.push({
-              id: `transfer-${log.transactionHash}-${log.logIndex}`,
-              tokenId: Number(log.args.id),
-              eventType: 'transferred',
-              from: log.args.from as string,
-              to: log.args.to as string,
-              timestamp: Number(block.timestamp) * 1000,
-              blockNumber: Number(log.blockNumber),
-              transactionHash: log.transactionHash,
-            });
-          }
-        }
-      }
+      const recentEvents = toSupplyChainEvents(indexedEvents, new Map()).slice(-limit);
+      const timestamps = await getBlockTimestamps(publicClient, recentEvents.map(event => event.blockNumber));
+      const events = recentEvents.map(event => ({ ...event, timestamp: timestamps.get(event.blockNumber) ?? 0 }));
 
       return events.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit);
 
@@ -1,5 +1,9 @@
-import { useReadContract, useWriteContract } from 'wagmi';
+import { useCallback } from 'react';
+import { usePublicClient, useReadContract } from 'wagmi';
+import type { Abi } from 'viem';
 import { CONTRACT_ADDRESSES, SUPPLY_CHAIN_STATES } from '../config/constants';
+import { readProvenanceRecords } from '../utils/tokenReads';
+import { useSponsoredWriteContract } from './useSponsoredWriteContract';
 import SupplyChainManagerABI from '../contracts/SupplyChainManager.json';
 
 export interface ProvenanceRecord {
@@ -21,7 +25,7 @@ export interface ProvenanceStep {
 }
 
 export const useInitializeProvenance = () => {
-  const { writeContractAsync, ...rest } = useWriteContract();
+  const { writeContractAsync, ...rest } = useSponsoredWriteContract();
 
   const initializeProvenance = async (args: {
     tokenId: bigint;
@@ -57,7 +61,7 @@ export const useInitializeProvenance = () => {
     try {
       const result = await writeContractAsync({
         address: CONTRACT_ADDRESSES.SupplyChainManager as `0x${string}`,
-        abi: SupplyChainManagerABI,
+        abi: SupplyChainManagerABI as Abi,
         functionName: 'initializeProvenance',
         args: [args.tokenId, args.farmer, args.location, args.notes],
       });
@@ -76,21 +80,55 @@ export const useInitializeProvenance = () => {
   };
 };
 
+// Initializes provenance for several freshly minted tokens, as one sponsored user
+// operation when possible, otherwise one transaction per token
+export const useInitializeProvenanceBatch = () => {
+  const { writeContractsAsync, ...rest } = useSponsoredWriteContract();
+
+  const initializeProvenanceBatch = async (
+    entries: { tokenId: bigint; farmer: string; location: string; notes: string }[],
+    onConfirmed?: (hash: `0x${string}`, callCount: number) => void | Promise<void>
+  ) => {
+    const invalid = entries.find(entry =>
+      !entry.tokenId || entry.tokenId <= 0n || !entry.location.trim() || !entry.notes.trim() ||
+      !entry.farmer || entry.farmer === '0x0000000000000000000000000000000000000000'
+    );
+    if (invalid) {
+      throw new Error(`Invalid provenance details for token ${invalid.tokenId.toString()}`);
+    }
+
+    return await writeContractsAsync(
+      entries.map(entry => ({
+        address: CONTRACT_ADDRESSES.SupplyChainManager as `0x${string}`,
+        abi: SupplyChainManagerABI as Abi,
+        functionName: 'initializeProvenance',
+        args: [entry.tokenId, entry.farmer, entry.location, entry.notes],
+      })),
+      onConfirmed
+    );
+  };
+
+  return {
+    writeAsync: initializeProvenanceBatch,
+    ...rest,
+  };
+};
+
 export const useTransferWithProvenance = () => {
-  const { writeContractAsync, ...rest } = useWriteContract();
+  const { writeContractAsync, ...rest } = useSponsoredWriteContract();
 
   const transferWithProvenance = async (args: {
     tokenId: bigint;
+    from: string;
     to: string;
-    newState: number;
     location: string;
     notes: string;
   }) => {
     return await writeContractAsync({
       address: CONTRACT_ADDRESSES.SupplyChainManager as `0x${string}`,
-      abi: SupplyChainManagerABI,
+      abi: SupplyChainManagerABI as Abi,
       functionName: 'transferWithProvenance',
-      args: [args.tokenId, args.to, args.newState, args.location, args.notes],
+      args: [args.tokenId, args.from, args.to, args.location, args.notes],
     });
   };
 
@@ -100,19 +138,44 @@ export const useTransferWithProvenance = () => {
   };
 };
 
+// Records the provenance step of several transfers, as one sponsored user
+// operation when possible, otherwise one transaction per token
+export const useTransferWithProvenanceBatch = () => {
+  const { writeContractsAsync, ...rest } = useSponsoredWriteContract();
+
+  const transferWithProvenanceBatch = async (
+    entries: { tokenId: bigint; from: string; to: string; location: string; notes: string }[],
+    onConfirmed?: (hash: `0x${string}`, callCount: number) => void | Promise<void>
+  ) => {
+    return await writeContractsAsync(
+      entries.map(entry => ({
+        address: CONTRACT_ADDRESSES.SupplyChainManager as `0x${string}`,
+        abi: SupplyChainManagerABI as Abi,
+        functionName: 'transferWithProvenance',
+        args: [entry.tokenId, entry.from, entry.to, entry.location, entry.notes],
+      })),
+      onConfirmed
+    );
+  };
+
+  return {
+    writeAsync: transferWithProvenanceBatch,
+    ...rest,
+  };
+};
+
 export const useMarkAsConsumed = () => {
-  const { writeContractAsync, ...rest } = useWriteContract();
+  const { writeContractAsync, ...rest } = useSponsoredWriteContract();
 
   const markAsConsumed = async (args: {
     tokenId: bigint;
-    location: string;
     notes: string;
   }) => {
     return await writeContractAsync({
       address: CONTRACT_ADDRESSES.SupplyChainManager as `0x${string}`,
-      abi: SupplyChainManagerABI,
+      abi: SupplyChainManagerABI as Abi,
       functionName: 'markAsConsumed',
-      args: [args.tokenId, args.location, args.notes],
+      args: [args.tokenId, args.notes],
     });
   };
 
@@ -134,6 +197,20 @@ export const useProvenanceHistory = (tokenId?: bigint) => {
   });
 };
 
+export const useProvenanceRecords = () => {
+  const publicClient = usePublicClient();
+
+  // Provenance records for many tokens in batched multicall reads
+  const getProvenanceRecords = useCallback(async (tokenIds: number[]): Promise<Map<number, ProvenanceRecord>> => {
+    if (!publicClient || tokenIds.length === 0) return new Map();
+    return readProvenanceRecords(publicClient, tokenIds);
+  }, [publicClient]);
+
+  return {
+    getProvenanceRecords,
+  };
+};
+
 export const useProvenanceStep = (tokenId?: bigint, stepIndex?: bigint) => {
   return useReadContract({
     address: CONTRACT_ADDRESSES.SupplyChainManager as `0x${string}`,
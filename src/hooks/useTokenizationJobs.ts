@@ -0,0 +1,211 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { useCropBatchToken, getMintedBatches } from './useCropBatchToken';
+import { useOwnAddresses } from './useSponsoredWriteContract';
+import { useInitializeProvenance } from './useSupplyChainManager';
+import { uploadCropBatchImage, uploadCropBatchMetadata, unpinFromIPFS, CropBatchMetadataParams } from '../utils/ipfs';
+import {
+  loadTokenizationJobs,
+  saveTokenizationJob,
+  removeTokenizationJob,
+  TokenizationJob,
+  TokenizationStep,
+} from '../utils/tokenizationJobs';
+import { getErrorMessage, generateId } from '../utils';
+
+export type { TokenizationJob, TokenizationStep };
+
+// What a job is doing next, keyed by the last step it completed
+export const NEXT_STEP_LABELS: Record<TokenizationStep, string> = {
+  created: 'Uploading image to IPFS',
+  imageUploaded: 'Uploading metadata to IPFS',
+  metadataUploaded: 'Minting token',
+  mintSubmitted: 'Confirming mint transaction',
+  minted: 'Initializing provenance',
+  provenanceSubmitted: 'Confirming provenance transaction',
+  completed: 'Completed',
+};
+
+/**
+ * Single-batch tokenization as a persisted state machine: image upload,
+ * metadata upload, mint and provenance initialization. Every completed step
+ * is written to localStorage before the next one starts, so a job that was
+ * interrupted by a failure or a closed tab resumes where it stopped.
+ */
+export const useTokenizationJobs = () => {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { mintNewBatch } = useCropBatchToken();
+  const { resolveOwnAddresses } = useOwnAddresses();
+  const { writeAsync: initializeProvenance } = useInitializeProvenance();
+
+  const [jobs, setJobs] = useState<TokenizationJob[]>([]);
+  const [runningJobId, setRunningJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+
+  useEffect(() => {
+    setJobs(address ? loadTokenizationJobs(address) : []);
+  }, [address]);
+
+  const runJob = useCallback(async (job: TokenizationJob, imageFile?: File): Promise<TokenizationJob> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!publicClient) {
+      throw new Error('Public client not available');
+    }
+
+    let current = job;
+    const record = (update: Partial<TokenizationJob>) => {
+      current = { ...current, ...update, updatedAt: Date.now() };
+      saveTokenizationJob(address, current);
+      setJobs(loadTokenizationJobs(address));
+    };
+
+    setRunningJobId(job.id);
+    try {
+      record({ error: undefined });
+
+      if (current.step === 'created') {
+        if (!imageFile) {
+          throw new Error(`Choose ${current.imageName} again to resume this tokenization`);
+        }
+        setProgress(NEXT_STEP_LABELS.created);
+        record({ step: 'imageUploaded', imageUri: await uploadCropBatchImage(imageFile) });
+      }
+
+      if (current.step === 'imageUploaded') {
+        setProgress(NEXT_STEP_LABELS.imageUploaded);
+        record({ step: 'metadataUploaded', metadataUri: await uploadCropBatchMetadata(current.params, current.imageUri!) });
+      }
+
+      if (current.step === 'mintSubmitted') {
+        // A mint sent before the job was interrupted: use it if it landed, otherwise mint again
+        setProgress(NEXT_STEP_LABELS.mintSubmitted);
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: current.mintTxHash! });
+        if (receipt.status === 'success') {
+          // The receipt can be a whole bundle, so only this job's own mint counts
+          const minted = getMintedBatches(receipt, await resolveOwnAddresses())
+            .find(batch => batch.metadataUri === current.metadataUri);
+          if (!minted) {
+            throw new Error('The mint transaction did not emit CropBatchMinted for this batch');
+          }
+          record({ step: 'minted', tokenId: minted.tokenId });
+        } else {
+          record({ step: 'metadataUploaded', mintTxHash: undefined });
+        }
+      }
+
+      if (current.step === 'metadataUploaded') {
+        setProgress(NEXT_STEP_LABELS.metadataUploaded);
+        const { tokenId } = await mintNewBatch(
+          {
+            to: address,
+            cropType: current.params.cropType,
+            quantity: current.params.quantity,
+            originFarm: current.params.originFarm,
+            harvestDate: current.params.harvestDate,
+            notes: current.params.notes,
+            metadataUri: current.metadataUri!,
+          },
+          hash => record({ step: 'mintSubmitted', mintTxHash: hash })
+        );
+        record({ step: 'minted', tokenId });
+      }
+
+      if (current.step === 'minted') {
+        setProgress(NEXT_STEP_LABELS.minted);
+        const hash = await initializeProvenance({
+          tokenId: BigInt(current.tokenId!),
+          farmer: address,
+          location: current.provenanceLocation,
+          notes: current.provenanceNotes,
+        });
+        record({ step: 'provenanceSubmitted', provenanceTxHash: hash });
+      }
+
+      if (current.step === 'provenanceSubmitted') {
+        setProgress(NEXT_STEP_LABELS.provenanceSubmitted);
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: current.provenanceTxHash! });
+        if (receipt.status !== 'success') {
+          record({ step: 'minted', provenanceTxHash: undefined });
+          throw new Error('Provenance transaction reverted');
+        }
+
+        current = { ...current, step: 'completed', updatedAt: Date.now() };
+        removeTokenizationJob(address, current.id);
+        setJobs(loadTokenizationJobs(address));
+      }
+
+      return current;
+    } catch (error) {
+      record({ error: getErrorMessage(error) });
+      throw error;
+    } finally {
+      setRunningJobId(null);
+      setProgress('');
+    }
+  }, [address, publicClient, mintNewBatch, resolveOwnAddresses, initializeProvenance]);
+
+  // Record a new job and run it to completion
+  const startJob = useCallback(async (
+    params: CropBatchMetadataParams,
+    imageFile: File,
+    provenance: { location: string; notes: string }
+  ): Promise<TokenizationJob> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    const job: TokenizationJob = {
+      id: generateId(),
+      step: 'created',
+      params,
+      imageName: imageFile.name,
+      provenanceLocation: provenance.location,
+      provenanceNotes: provenance.notes,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    saveTokenizationJob(address, job);
+    setJobs(loadTokenizationJobs(address));
+
+    return runJob(job, imageFile);
+  }, [address, runJob]);
+
+  // Continue a stored job from its last completed step
+  const resumeJob = useCallback(async (jobId: string, imageFile?: File): Promise<TokenizationJob> => {
+    const job = address ? loadTokenizationJobs(address).find(item => item.id === jobId) : undefined;
+    if (!job) {
+      throw new Error('Tokenization job not found');
+    }
+
+    return runJob(job, imageFile);
+  }, [address, runJob]);
+
+  // Drop a job. Uploads that were never minted are unpinned so they do not linger on IPFS.
+  const abandonJob = useCallback(async (jobId: string) => {
+    if (!address) return;
+
+    const job = loadTokenizationJobs(address).find(item => item.id === jobId);
+    if (job && !job.mintTxHash && job.tokenId === undefined) {
+      const uris = [job.metadataUri, job.imageUri].filter((uri): uri is string => Boolean(uri));
+      await Promise.all(uris.map(uri =>
+        unpinFromIPFS(uri).catch(error => console.warn(`Failed to unpin ${uri}:`, error))
+      ));
+    }
+
+    removeTokenizationJob(address, jobId);
+    setJobs(loadTokenizationJobs(address));
+  }, [address]);
+
+  return {
+    jobs,
+    runningJobId,
+    progress,
+    startJob,
+    resumeJob,
+    abandonJob,
+  };
+};
@@ -0,0 +1,210 @@
+import { useState, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { CONTRACT_ADDRESSES, TRANSPORTER_STATUS, VEHICLE_TYPES } from '../config/constants';
+import { CartItem } from '../contexts/CartContext';
+import { Transporter } from './useTransportationManager';
+import {
+  GeoPoint,
+  isPerishableCrop,
+  estimateRoadDistanceKm,
+  geocodeAddress,
+} from '../utils/transportQuote';
+import { readRoyaltyInfo, getRoyaltyOwed } from '../utils/tokenReads';
+import MarketplaceABI from '../contracts/Marketplace.json';
+import TransportationManagerABI from '../contracts/TransportationManager.json';
+
+export interface TransporterQuote {
+  transporter: string;
+  name: string;
+  vehicleType: number;
+  transportCost: bigint;
+}
+
+export interface ItemQuote {
+  tokenId: number;
+  name: string;
+  quantity: number;
+  isPerishable: boolean;
+  distanceKm: number | null;
+  cropCost: bigint;
+  marketplaceFee: bigint;
+  royalty: bigint; // Part of cropCost the seller owes the original farmer on a resale; 0n otherwise
+  royaltyReceiver?: string;
+  // Cheapest first; empty when no registered transporter can carry the load
+  options: TransporterQuote[];
+}
+
+export interface CheckoutQuote {
+  deliveryPoint: GeoPoint | null;
+  items: ItemQuote[];
+}
+
+export const useTransportQuote = () => {
+  const publicClient = usePublicClient();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Active transporters with their on-chain rate cards
+  const getActiveTransporters = useCallback(async (): Promise<Transporter[]> => {
+    if (!publicClient) return [];
+
+    const addresses = await publicClient.readContract({
+      address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+      abi: TransportationManagerABI,
+      functionName: 'getActiveTransporters',
+    }) as readonly string[];
+
+    const results = await Promise.allSettled(
+      addresses.map(address =>
+        publicClient.readContract({
+          address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+          abi: TransportationManagerABI,
+          functionName: 'getTransporter',
+          args: [address],
+        }) as Promise<Transporter>
+      )
+    );
+
+    return results
+      .filter((result): result is PromiseFulfilledResult<Transporter> => result.status === 'fulfilled')
+      .map(result => result.value)
+      .filter(transporter => transporter.status === TRANSPORTER_STATUS.ACTIVE);
+  }, [publicClient]);
+
+  // Crop cost and marketplace fee exactly as the Marketplace charges them for a listing
+  const getListingPrice = useCallback(async (
+    listingId: number,
+    quantity: number
+  ): Promise<{ cropCost: bigint; marketplaceFee: bigint }> => {
+    if (!publicClient) throw new Error('Public client not available');
+
+    const [cropCost, marketplaceFee] = await publicClient.readContract({
+      address: CONTRACT_ADDRESSES.Marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      functionName: 'calculateTotalPrice',
+      args: [BigInt(listingId), BigInt(quantity)],
+    }) as readonly [bigint, bigint, bigint];
+
+    return { cropCost, marketplaceFee };
+  }, [publicClient]);
+
+  // What each transporter charges for a load, from the contract's own calculateTransportationCost;
+  // null where the call reverts, e.g. for a transporter deregistered since the list was read
+  const getTransportCosts = useCallback(async (
+    transporters: Transporter[],
+    distanceKm: number,
+    quantityKg: number,
+    isRefrigerated: boolean
+  ): Promise<(bigint | null)[]> => {
+    if (!publicClient) return transporters.map(() => null);
+
+    const results = await Promise.allSettled(
+      transporters.map(transporter =>
+        publicClient.readContract({
+          address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+          abi: TransportationManagerABI,
+          functionName: 'calculateTransportationCost',
+          args: [transporter.transporterAddress, BigInt(Math.ceil(distanceKm)), BigInt(Math.ceil(quantityKg)), isRefrigerated, false],
+        }) as Promise<bigint>
+      )
+    );
+
+    return results.map(result => (result.status === 'fulfilled' ? result.value : null));
+  }, [publicClient]);
+
+  // Quote every cart item against every transporter able to carry it. Addresses are
+  // only geocoded when the buyer opted in; otherwise the fallback distance is used.
+  const getQuote = useCallback(async (
+    items: CartItem[],
+    deliveryAddress: string,
+    fallbackDistanceKm?: number,
+    useGeocoding: boolean = false
+  ): Promise<CheckoutQuote | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const unlisted = items.find(item => item.listingId === undefined);
+      if (unlisted) {
+        throw new Error(`${unlisted.name} is not listed on the marketplace`);
+      }
+
+      const [transporters, deliveryPoint] = await Promise.all([
+        getActiveTransporters(),
+        useGeocoding ? geocodeAddress(deliveryAddress) : Promise.resolve(null),
+      ]);
+
+      const itemQuotes: ItemQuote[] = [];
+
+      for (const item of items) {
+        let farmPoint: GeoPoint | null = null;
+        if (item.location?.latitude !== undefined && item.location?.longitude !== undefined) {
+          farmPoint = { latitude: item.location.latitude, longitude: item.location.longitude };
+        } else if (deliveryPoint && item.location?.address) {
+          farmPoint = await geocodeAddress(item.location.address);
+        }
+
+        const distanceKm = farmPoint && deliveryPoint
+          ? estimateRoadDistanceKm(farmPoint, deliveryPoint)
+          : fallbackDistanceKm ?? null;
+
+        const { cropCost, marketplaceFee } = await getListingPrice(item.listingId!, item.quantity);
+        const isPerishable = isPerishableCrop(item.cropType);
+
+        // Perishables only travel in refrigerated vehicles, at the refrigerated rate
+        const capable = distanceKm === null ? [] : transporters
+          .filter(transporter => transporter.maxCapacity >= BigInt(item.quantity))
+          .filter(transporter => !isPerishable || transporter.vehicleType === VEHICLE_TYPES.REFRIGERATED);
+        const costs = distanceKm === null ? [] : await getTransportCosts(capable, distanceKm, item.quantity, isPerishable);
+
+        const options = capable
+          .map((transporter, index) => ({
+            transporter: transporter.transporterAddress,
+            name: transporter.name,
+            vehicleType: transporter.vehicleType,
+            transportCost: costs[index],
+          }))
+          .filter((option): option is TransporterQuote => option.transportCost !== null)
+          .sort((a, b) => (a.transportCost < b.transportCost ? -1 : a.transportCost > b.transportCost ? 1 : 0));
+
+        itemQuotes.push({
+          tokenId: item.tokenId,
+          name: item.name,
+          quantity: item.quantity,
+          isPerishable,
+          distanceKm,
+          cropCost,
+          marketplaceFee,
+          royalty: 0n,
+          options,
+        });
+      }
+
+      if (publicClient && itemQuotes.length > 0) {
+        const royalties = await readRoyaltyInfo(
+          publicClient,
+          itemQuotes.map(itemQuote => ({ tokenId: itemQuote.tokenId, salePrice: itemQuote.cropCost }))
+        );
+        itemQuotes.forEach((itemQuote, index) => {
+          itemQuote.royalty = getRoyaltyOwed(royalties[index], items[index].owner);
+          itemQuote.royaltyReceiver = itemQuote.royalty > 0n ? royalties[index].receiver : undefined;
+        });
+      }
+
+      return { deliveryPoint, items: itemQuotes };
+    } catch (err) {
+      console.error('Error calculating transport quote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to calculate quote');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, getActiveTransporters, getListingPrice, getTransportCosts]);
+
+  return {
+    isLoading,
+    error,
+    getQuote,
+  };
+};
@@ -0,0 +1,275 @@
+import { useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi';
+import { Log } from 'viem';
+import { CONTRACT_ADDRESSES, TRANSPORTER_STATUS } from '../config/constants';
+import TransportationManagerABI from '../contracts/TransportationManager.json';
+
+export interface Transporter {
+  transporterAddress: string;
+  name: string;
+  contact: string;
+  baseLocation: string;
+  vehicleType: number;
+  maxCapacity: bigint;
+  ratePerKm: bigint;
+  ratePerKg: bigint;
+  minimumFee: bigint;
+  status: number;
+  totalDeliveries: bigint;
+  rating: bigint;
+  registeredAt: bigint;
+}
+
+export interface TransportBid {
+  transporter: string;
+  price: bigint;
+  estimatedDeliveryTime: bigint;
+  submittedAt: bigint;
+  accepted: boolean;
+}
+
+export interface TransporterProfileParams {
+  name: string;
+  contact: string;
+  baseLocation: string;
+  vehicleType: number;
+  maxCapacity: bigint;
+  ratePerKm: bigint;
+  ratePerKg: bigint;
+  minimumFee: bigint;
+}
+
+export type TransportationManagerEventName =
+  | 'TransporterRegistered'
+  | 'TransporterUpdated'
+  | 'TransporterStatusChanged'
+  | 'TransportBidSubmitted';
+
+const validateProfile = (args: TransporterProfileParams) => {
+  if (!args.name || args.name.trim() === '') {
+    throw new Error('Transporter name is required');
+  }
+
+  if (!args.contact || args.contact.trim() === '') {
+    throw new Error('Contact details are required');
+  }
+
+  if (!args.baseLocation || args.baseLocation.trim() === '') {
+    throw new Error('Base location is required');
+  }
+
+  if (!args.maxCapacity || args.maxCapacity <= 0n) {
+    throw new Error('Capacity must be greater than zero');
+  }
+};
+
+export const useRegisterTransporter = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const registerTransporter = async (args: TransporterProfileParams) => {
+    validateProfile(args);
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+      abi: TransportationManagerABI,
+      functionName: 'registerTransporter',
+      args: [
+        args.name,
+        args.contact,
+        args.baseLocation,
+        args.vehicleType,
+        args.maxCapacity,
+        args.ratePerKm,
+        args.ratePerKg,
+        args.minimumFee,
+      ],
+    });
+  };
+
+  return {
+    writeAsync: registerTransporter,
+    ...rest,
+  };
+};
+
+export const useUpdateTransporterProfile = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const updateTransporterProfile = async (args: TransporterProfileParams) => {
+    validateProfile(args);
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+      abi: TransportationManagerABI,
+      functionName: 'updateTransporterProfile',
+      args: [
+        args.name,
+        args.contact,
+        args.baseLocation,
+        args.vehicleType,
+        args.maxCapacity,
+        args.ratePerKm,
+        args.ratePerKg,
+        args.minimumFee,
+      ],
+    });
+  };
+
+  return {
+    writeAsync: updateTransporterProfile,
+    ...rest,
+  };
+};
+
+export const useUpdateTransporterStatus = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const updateTransporterStatus = async (args: { status: number }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+      abi: TransportationManagerABI,
+      functionName: 'updateTransporterStatus',
+      args: [args.status],
+    });
+  };
+
+  return {
+    writeAsync: updateTransporterStatus,
+    ...rest,
+  };
+};
+
+export const useSubmitTransportBid = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const submitTransportBid = async (args: {
+    orderId: bigint;
+    price: bigint;
+    estimatedDeliveryTime: bigint;
+  }) => {
+    if (!args.price || args.price <= 0n) {
+      throw new Error('Bid price must be greater than zero');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+      abi: TransportationManagerABI,
+      functionName: 'submitTransportBid',
+      args: [args.orderId, args.price, args.estimatedDeliveryTime],
+    });
+  };
+
+  return {
+    writeAsync: submitTransportBid,
+    ...rest,
+  };
+};
+
+export const useTransporter = (transporterAddress?: string) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+    abi: TransportationManagerABI,
+    functionName: 'getTransporter',
+    args: transporterAddress ? [transporterAddress] : undefined,
+    query: {
+      enabled: !!transporterAddress,
+    },
+  });
+};
+
+export const useIsRegisteredTransporter = (transporterAddress?: string) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+    abi: TransportationManagerABI,
+    functionName: 'isRegisteredTransporter',
+    args: transporterAddress ? [transporterAddress] : undefined,
+    query: {
+      enabled: !!transporterAddress,
+    },
+  });
+};
+
+export const useActiveTransporters = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+    abi: TransportationManagerABI,
+    functionName: 'getActiveTransporters',
+  });
+};
+
+export const useOrderBids = (orderId?: bigint) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+    abi: TransportationManagerABI,
+    functionName: 'getOrderBids',
+    args: orderId ? [orderId] : undefined,
+    query: {
+      enabled: !!orderId,
+    },
+  });
+};
+
+export const useTransportationCost = (
+  transporterAddress?: string,
+  distanceKm?: bigint,
+  weightKg?: bigint,
+  isRefrigerated: boolean = false,
+  isUrgent: boolean = false
+) => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+    abi: TransportationManagerABI,
+    functionName: 'calculateTransportationCost',
+    args: transporterAddress && distanceKm !== undefined && weightKg !== undefined
+      ? [transporterAddress, distanceKm, weightKg, isRefrigerated, isUrgent]
+      : undefined,
+    query: {
+      enabled: !!transporterAddress && distanceKm !== undefined && weightKg !== undefined,
+    },
+  });
+};
+
+export const useTransportationManagerEvents = (
+  eventName: TransportationManagerEventName,
+  onLogs: (logs: Log[]) => void,
+  enabled: boolean = true
+) => {
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESSES.TransportationManager as `0x${string}`,
+    abi: TransportationManagerABI,
+    eventName,
+    onLogs,
+    enabled,
+  });
+};
+
+// Helper function to get transporter status label
+export const getTransporterStatusLabel = (status: number): string => {
+  switch (status) {
+    case TRANSPORTER_STATUS.ACTIVE:
+      return 'Active';
+    case TRANSPORTER_STATUS.BUSY:
+      return 'Busy';
+    case TRANSPORTER_STATUS.INACTIVE:
+      return 'Inactive';
+    case TRANSPORTER_STATUS.SUSPENDED:
+      return 'Suspended';
+    default:
+      return 'Unknown';
+  }
+};
+
+// Helper function to get transporter status color
+export const getTransporterStatusColor = (status: number): string => {
+  switch (status) {
+    case TRANSPORTER_STATUS.ACTIVE:
+      return 'bg-green-100 text-green-800 border-green-200';
+    case TRANSPORTER_STATUS.BUSY:
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case TRANSPORTER_STATUS.INACTIVE:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+    case TRANSPORTER_STATUS.SUSPENDED:
+      return 'bg-red-100 text-red-800 border-red-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
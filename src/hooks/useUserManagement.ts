@@ -1,5 +1,22 @@
-import { useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { usePublicClient, useReadContract, useSignMessage, useWriteContract, useWatchContractEvent } from 'wagmi';
+import { Log, isAddress, type Abi } from 'viem';
 import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import { CONTRACT_ADDRESSES, DEFAULT_ADMIN_ROLE, ROLE_HASHES, USER_ROLES } from '../config/constants';
+import { loadIndexedEvents, getBlockTimestamps, invalidateEventIndex } from '../utils/eventIndexer';
+import { multicallContracts } from '../utils/tokenReads';
+import {
+  fetchRoleRequestRecords,
+  uploadRoleRequest,
+  uploadRoleRequestDocuments,
+  getRoleRequestMessage,
+  getRoleDecisionMessage,
+  RoleRequest,
+  RoleRequestDecision,
+  RoleRequestRole,
+} from '../utils/ipfs';
+import UserManagementABI from '../contracts/UserManagement.json';
 
 /**
  * Hook for user role management functionality
@@ -73,3 +90,446 @@ export const useUserRoleInfo = () => {
     isLoading: false,
   };
 };
+
+export type ManagedRole = 'farmer' | 'transporter' | 'buyer';
+
+export interface RegisteredUser {
+  address: string;
+  isFarmer: boolean;
+  isTransporter: boolean;
+  isBuyer: boolean;
+  isAdmin: boolean;
+  registeredAt: number; // Milliseconds; time of the first registration or grant
+}
+
+export type RoleRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface RoleRequestEntry extends RoleRequest {
+  uri: string; // IPFS URI of the request record
+  status: RoleRequestStatus;
+  reason?: string; // Admin's note on the decision
+  decidedBy?: string;
+  decidedAt?: number; // Unix timestamp
+}
+
+export type UserManagementEventName =
+  | 'UserRegistered'
+  | 'UserRoleRevoked'
+  | 'RoleGranted'
+  | 'RoleRevoked'
+  | 'Paused'
+  | 'Unpaused';
+
+// Role ids as the contract's registerUser/revokeRole overloads expect them
+const MANAGED_ROLE_IDS: Record<ManagedRole, number> = {
+  farmer: USER_ROLES.FARMER,
+  transporter: USER_ROLES.TRANSPORTER,
+  buyer: USER_ROLES.BUYER,
+};
+
+// Role hashes as AccessControl's grantRole expects them
+const MANAGED_ROLE_HASHES: Record<ManagedRole, `0x${string}`> = {
+  farmer: ROLE_HASHES.FARMER,
+  transporter: ROLE_HASHES.TRANSPORTER,
+  buyer: ROLE_HASHES.BUYER,
+};
+
+export const useGrantUserRole = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const grantUserRole = async (args: { user: string; role: ManagedRole }) => {
+    if (!isAddress(args.user)) {
+      throw new Error('Invalid user address provided');
+    }
+
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+      abi: UserManagementABI,
+      functionName: 'grantRole',
+      args: [MANAGED_ROLE_HASHES[args.role], args.user],
+    });
+  };
+
+  return {
+    writeAsync: grantUserRole,
+    ...rest,
+  };
+};
+
+export const useRevokeUserRole = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const revokeUserRole = async (args: { user: string; role: ManagedRole }) => {
+    if (!isAddress(args.user)) {
+      throw new Error('Invalid user address provided');
+    }
+
+    // The (address, uint8) overload also emits UserRoleRevoked
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+      abi: UserManagementABI,
+      functionName: 'revokeRole',
+      args: [args.user, MANAGED_ROLE_IDS[args.role]],
+    });
+  };
+
+  return {
+    writeAsync: revokeUserRole,
+    ...rest,
+  };
+};
+
+export const useSetUserManagementPaused = () => {
+  const { writeContractAsync, ...rest } = useWriteContract();
+
+  const setPaused = async (args: { paused: boolean }) => {
+    return await writeContractAsync({
+      address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+      abi: UserManagementABI,
+      functionName: args.paused ? 'pause' : 'unpause',
+    });
+  };
+
+  return {
+    writeAsync: setPaused,
+    ...rest,
+  };
+};
+
+export const useUserManagementPaused = () => {
+  return useReadContract({
+    address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+    abi: UserManagementABI,
+    functionName: 'paused',
+  });
+};
+
+export const useRegisteredUsers = () => {
+  const publicClient = usePublicClient();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every address that was ever registered or granted a role, with its current on-chain roles
+  const getRegisteredUsers = useCallback(async (): Promise<RegisteredUser[]> => {
+    if (!publicClient) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const events = await loadIndexedEvents(publicClient, { eventNames: ['UserRegistered', 'RoleGranted'] });
+      const firstSeenBlock = new Map<string, number>();
+      events.forEach(event => {
+        const user = (event.eventName === 'UserRegistered' ? event.args.user : event.args.account) as string;
+        if (!firstSeenBlock.has(user)) firstSeenBlock.set(user, event.blockNumber);
+      });
+
+      const users = Array.from(firstSeenBlock.keys());
+      if (users.length === 0) return [];
+
+      const [statuses, adminFlags, timestamps] = await Promise.all([
+        multicallContracts(publicClient, users.map(user => ({
+          address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+          abi: UserManagementABI as Abi,
+          functionName: 'getUserRolesStatus',
+          args: [user],
+        }))),
+        multicallContracts(publicClient, users.map(user => ({
+          address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+          abi: UserManagementABI as Abi,
+          functionName: 'hasRole',
+          args: [DEFAULT_ADMIN_ROLE, user],
+        }))),
+        getBlockTimestamps(publicClient, Array.from(firstSeenBlock.values())),
+      ]);
+
+      return users.map((user, index) => {
+        const [isFarmer, isTransporter, isBuyer] = (statuses[index].result as readonly boolean[] | undefined) || [false, false, false];
+        return {
+          address: user,
+          isFarmer,
+          isTransporter,
+          isBuyer,
+          isAdmin: Boolean(adminFlags[index].result),
+          registeredAt: timestamps.get(firstSeenBlock.get(user)!) || 0,
+        };
+      });
+    } catch (err) {
+      console.error('Error fetching registered users:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch registered users');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient]);
+
+  return {
+    isLoading,
+    error,
+    getRegisteredUsers,
+  };
+};
+
+export const useRoleRequests = () => {
+  const publicClient = usePublicClient();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Requests live on IPFS and decisions are pinned next to them. Anyone with the Pinata key can
+  // pin a record, so a request only counts when it is signed by its applicant, it is only approved
+  // once the role is held on-chain (which also closes requests granted outside the queue), and a
+  // decision only counts when it is signed by its decidedBy address and that address is a current admin.
+  const getRoleRequests = useCallback(async (applicant?: string): Promise<RoleRequestEntry[]> => {
+    if (!publicClient) return [];
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { requests, decisions } = await fetchRoleRequestRecords(applicant);
+      const candidateRequests = requests.filter(({ request }) =>
+        isAddress(request.applicant) && (!applicant || request.applicant.toLowerCase() === applicant.toLowerCase())
+      );
+      if (candidateRequests.length === 0) return [];
+
+      // verifyMessage also accepts smart-wallet (ERC-1271) signatures
+      const requestSignatureChecks = await Promise.all(candidateRequests.map(({ request }) =>
+        request.signature
+          ? publicClient.verifyMessage({
+              address: request.applicant as `0x${string}`,
+              message: getRoleRequestMessage(request),
+              signature: request.signature,
+            }).catch(() => false)
+          : Promise.resolve(false)
+      ));
+      const relevant = candidateRequests.filter((_, index) => requestSignatureChecks[index]);
+      if (relevant.length === 0) return [];
+
+      const applicants = Array.from(new Set(relevant.map(({ request }) => request.applicant.toLowerCase())));
+      const relevantUris = new Set(relevant.map(({ uri }) => uri));
+      const candidates = decisions.filter(decision => relevantUris.has(decision.requestUri) && isAddress(decision.decidedBy));
+      const deciders = Array.from(new Set(candidates.map(decision => decision.decidedBy.toLowerCase())));
+
+      const [statuses, deciderAdminFlags, signatureChecks] = await Promise.all([
+        multicallContracts(publicClient, applicants.map(address => ({
+          address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+          abi: UserManagementABI as Abi,
+          functionName: 'getUserRolesStatus',
+          args: [address],
+        }))),
+        multicallContracts(publicClient, deciders.map(address => ({
+          address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+          abi: UserManagementABI as Abi,
+          functionName: 'hasRole',
+          args: [DEFAULT_ADMIN_ROLE, address],
+        }))),
+        Promise.all(candidates.map(decision =>
+          decision.signature
+            ? publicClient.verifyMessage({
+                address: decision.decidedBy as `0x${string}`,
+                message: getRoleDecisionMessage(decision),
+                signature: decision.signature,
+              }).catch(() => false)
+            : Promise.resolve(false)
+        )),
+      ]);
+
+      const admins = new Set(deciders.filter((_, index) => deciderAdminFlags[index].result === true));
+      const trusted: RoleRequestDecision[] = candidates.filter((decision, index) =>
+        signatureChecks[index] && admins.has(decision.decidedBy.toLowerCase())
+      );
+
+      return relevant
+        .map(({ uri, request }) => {
+          const [isFarmer, isTransporter] = (statuses[applicants.indexOf(request.applicant.toLowerCase())].result as readonly boolean[] | undefined) || [false, false];
+          const holdsRole = request.role === 'farmer' ? isFarmer : isTransporter;
+          const decision = trusted
+            .filter(item => item.requestUri === uri)
+            .sort((a, b) => b.decidedAt - a.decidedAt)[0];
+
+          // An approval record without the role on-chain means the grant never landed
+          let status: RoleRequestStatus = 'pending';
+          if (decision?.decision === 'rejected') status = 'rejected';
+          if (holdsRole) status = 'approved';
+
+          return {
+            ...request,
+            uri,
+            status,
+            reason: decision?.reason,
+            decidedBy: decision?.decidedBy,
+            decidedAt: decision?.decidedAt,
+          };
+        })
+        .sort((a, b) => b.submittedAt - a.submittedAt);
+    } catch (err) {
+      console.error('Error fetching role requests:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch role requests');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient]);
+
+  return {
+    isLoading,
+    error,
+    getRoleRequests,
+  };
+};
+
+const ROLE_REQUEST_STATUS_STORAGE_PREFIX = 'greenledger_role_request_status_';
+const ROLE_REQUEST_POLL_INTERVAL = 60 * 1000;
+
+/**
+ * Hook for the connected account's own role requests
+ * With notify set, a toast is shown whenever one of them is decided, including
+ * decisions made while the applicant was away. Only the registration and role
+ * request views mount it, so pending requests are not polled from every page.
+ */
+export const useMyRoleRequests = (options: { notify?: boolean } = {}) => {
+  const { account, refreshUserData } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const { signMessageAsync } = useSignMessage();
+  const { isLoading, error, getRoleRequests } = useRoleRequests();
+
+  const [requests, setRequests] = useState<RoleRequestEntry[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const notifyRef = useRef(options.notify);
+  notifyRef.current = options.notify;
+
+  const refresh = useCallback(async () => {
+    if (!account) {
+      setRequests([]);
+      return;
+    }
+
+    const myRequests = await getRoleRequests(account);
+    setRequests(myRequests);
+
+    if (!notifyRef.current) return;
+
+    // Compare against the statuses this browser last saw to announce new decisions once
+    const storageKey = `${ROLE_REQUEST_STATUS_STORAGE_PREFIX}${account.toLowerCase()}`;
+    let seen: Record<string, RoleRequestStatus> = {};
+    try {
+      seen = JSON.parse(localStorage.getItem(storageKey) || '{}');
+    } catch (err) {
+      console.warn('Failed to read role request statuses:', err);
+    }
+
+    const label = (role: RoleRequestRole) => (role === 'farmer' ? 'Farmer' : 'Transporter');
+    myRequests.forEach(request => {
+      if (request.status === 'pending' || seen[request.uri] === request.status) return;
+      if (request.status === 'approved') {
+        addToast(`Your ${label(request.role)} role request was approved`, 'success');
+        refreshUserData();
+      } else {
+        addToast(
+          `Your ${label(request.role)} role request was rejected${request.reason ? `: ${request.reason}` : ''}`,
+          'error'
+        );
+      }
+    });
+
+    try {
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify(Object.fromEntries(myRequests.map(request => [request.uri, request.status])))
+      );
+    } catch (err) {
+      console.warn('Failed to save role request statuses:', err);
+    }
+  }, [account, getRoleRequests, addToast, refreshUserData]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Rejections are only recorded on IPFS, so pending requests are polled
+  const hasPending = requests.some(request => request.status === 'pending');
+  useEffect(() => {
+    if (!hasPending) return;
+    const interval = setInterval(refresh, ROLE_REQUEST_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPending, refresh]);
+
+  const handleRoleGranted = useCallback(() => { refresh(); }, [refresh]);
+  useUserManagementEvents('RoleGranted', handleRoleGranted, hasPending);
+
+  const submitRequest = useCallback(async (params: {
+    role: RoleRequestRole;
+    farmName: string;
+    registrationNumber: string;
+    contactEmail: string;
+    notes: string;
+    files: File[];
+  }) => {
+    if (!account) {
+      throw new Error('Please connect your wallet first');
+    }
+
+    if (!params.farmName.trim() || !params.registrationNumber.trim()) {
+      throw new Error('Farm name and registration number are required');
+    }
+
+    if (params.files.length === 0) {
+      throw new Error('Please attach at least one supporting document');
+    }
+
+    if (requests.some(request => request.role === params.role && request.status === 'pending')) {
+      throw new Error('You already have a pending request for this role');
+    }
+
+    setIsSubmitting(true);
+    try {
+      const unsigned: Omit<RoleRequest, 'signature'> = {
+        applicant: account,
+        role: params.role,
+        farmName: params.farmName,
+        registrationNumber: params.registrationNumber,
+        contactEmail: params.contactEmail,
+        notes: params.notes,
+        documents: await uploadRoleRequestDocuments(params.files),
+        submittedAt: Math.floor(Date.now() / 1000),
+      };
+      const signature = await signMessageAsync({ account: account as `0x${string}`, message: getRoleRequestMessage(unsigned) });
+
+      const uri = await uploadRoleRequest({ ...unsigned, signature });
+      await refresh();
+      return uri;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [account, requests, refresh, signMessageAsync]);
+
+  return {
+    requests,
+    isLoading,
+    isSubmitting,
+    error,
+    refresh,
+    submitRequest,
+  };
+};
+
+export const useUserManagementEvents = (
+  eventName: UserManagementEventName,
+  onLogs: (logs: Log[]) => void,
+  enabled: boolean = true
+) => {
+  const handleLogs = useCallback((logs: Log[]) => {
+    invalidateEventIndex();
+    onLogs(logs);
+  }, [onLogs]);
+
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+    abi: UserManagementABI,
+    eventName,
+    onLogs: handleLogs,
+    enabled,
+  });
+};
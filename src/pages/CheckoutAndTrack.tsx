@@ -25,6 +25,7 @@ import { fetchMetadataFromIPFS, CropMetadata } from '../utils/ipfs';
 import { CONTRACT_ADDRESSES } from '../config/constants';
 import CartCheckoutSection from '../components/CartCheckoutSection';
 import OwnershipTracker from '../components/OwnershipTracker';
+import SubLotLineage from '../components/SubLotLineage';
 
 interface CheckoutAndTrackProps {
   tokenId?: number;
@@ -34,7 +35,7 @@ const CheckoutAndTrack: React.FC<CheckoutAndTrackProps> = ({ tokenId: propTokenI
   const { tokenId: paramTokenId } = useParams<{ tokenId: string }>();
   const navigate = useNavigate();
   const { addToast } = useToast();
-  const { hasRole } = useWeb3Enhanced();
+  const { hasRole, account } = useWeb3Enhanced();
 
   // Helper function to check if user can perform action
   const canPerformAction = (role: string) => hasRole(role);
@@ -160,15 +161,17 @@ const CheckoutAndTrack: React.FC<CheckoutAndTrackProps> = ({ tokenId: propTokenI
       return;
     }
 
-    try {
-      // Determine the new state based on transfer type
-      const newState = transferType === 'transporter' ? 1 : 2; // 1 = IN_TRANSIT, 2 = DELIVERED
+    if (!account) {
+      addToast('Please connect your wallet', 'error');
+      return;
+    }
 
-      // Use the real transfer function from the hook
+    try {
+      // Use the real transfer function from the hook; the contract derives the new state from the recipient's role
       await transferWithProvenance({
         tokenId: BigInt(selectedTokenId),
+        from: account,
         to: transferAddress,
-        newState: newState,
         location: '', // location (could be added to form)
         notes: `Transfer to ${transferType}`
       });
@@ -315,6 +318,7 @@ const CheckoutAndTrack: React.FC<CheckoutAndTrackProps> = ({ tokenId: propTokenI
 
         {/* Live Ownership Tracker */}
         <OwnershipTracker tokenId={selectedTokenId} className="mt-4" />
+        <SubLotLineage tokenId={selectedTokenId} holder={account} className="mt-4" />
       </div>
 
       {/* Batch Information */}
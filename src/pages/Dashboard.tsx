@@ -2,14 +2,16 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Activity, MapPin, Zap, TrendingUp, Users, Package, Wifi, WifiOff, RefreshCw } from 'lucide-react';
 import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
-import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { useCropBatchToken, getHolderQuantity } from '../hooks/useCropBatchToken';
 import { useUserTokenHistory, useTokensByState } from '../hooks/useSupplyChainManager';
+import { useOwnAddresses } from '../hooks/useSponsoredWriteContract';
 
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const { hasRole, isConnected, account } = useWeb3Enhanced();
   const { getAllBatches, isLoading, error } = useCropBatchToken();
+  const { ownAddresses } = useOwnAddresses();
 
   // Real-time blockchain data hooks
   const { data: userTokenHistory } = useUserTokenHistory(account);
@@ -99,8 +101,8 @@ const Dashboard: React.FC = () => {
 
     // User-specific data calculations
     const userBatches = batches.filter(batch =>
-      batch.owner?.toLowerCase() === account.toLowerCase() ||
-      batch.minter?.toLowerCase() === account.toLowerCase()
+      getHolderQuantity(batch, account) > 0 ||
+      ownAddresses.includes(batch.minter?.toLowerCase())
     );
 
     const uniqueFarms = new Set(userBatches.map(batch => batch.originFarm)).size;
@@ -118,7 +120,7 @@ const Dashboard: React.FC = () => {
       registeredUsers: totalSupplyChainTokens, // Platform-wide token count
       recentTransactions: recentBatches + userInteractionCount, // User's activity
     });
-  }, [batches, producedTokens, inTransitTokens, deliveredTokens, userTokenHistory, account]);
+  }, [batches, producedTokens, inTransitTokens, deliveredTokens, userTokenHistory, account, ownAddresses]);
 
   const stats = React.useMemo(() => [
     {
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { formatEther } from 'viem';
+import { Gavel, RefreshCw, AlertTriangle, Package, Scale, Undo2, Send } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import {
+  useOpenDisputes,
+  usePaymentList,
+  usePaymentProcessorEvents,
+  useResolveDispute,
+  Payment,
+  Dispute,
+} from '../hooks/usePaymentProcessor';
+import { useOrderList, Order } from '../hooks/useOrderManager';
+import { getErrorMessage, formatAddress, formatDate } from '../utils';
+import CurrencyDisplay from '../components/CurrencyDisplay';
+import LoadingSpinner from '../components/LoadingSpinner';
+import DisputeEvidenceView from '../components/DisputeEvidenceView';
+
+interface DisputeCase {
+  payment: Payment;
+  dispute: Dispute;
+  order?: Order;
+}
+
+const DisputesPage: React.FC = () => {
+  const { hasRole, isConnected } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const { data: openDisputeIds, refetch: refetchOpenDisputes } = useOpenDisputes();
+  const { getPaymentsByIds, getDisputesByIds } = usePaymentList();
+  const { getOrdersByIds } = useOrderList();
+  const { writeAsync: resolveDispute } = useResolveDispute();
+
+  const [cases, setCases] = useState<DisputeCase[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const [pendingPaymentId, setPendingPaymentId] = useState<string | null>(null);
+
+  const isAdmin = hasRole('admin');
+
+  const loadCases = useCallback(async () => {
+    const paymentIds = (openDisputeIds as readonly bigint[] | undefined) || [];
+
+    setIsLoading(true);
+    try {
+      const [payments, disputes] = await Promise.all([
+        getPaymentsByIds(paymentIds),
+        getDisputesByIds(paymentIds),
+      ]);
+      const orders = await getOrdersByIds(Object.values(payments).map(payment => payment.orderId));
+      const ordersById = new Map(orders.map(order => [order.orderId.toString(), order]));
+
+      setCases(
+        paymentIds
+          .map(paymentId => paymentId.toString())
+          .filter(paymentId => payments[paymentId] && disputes[paymentId])
+          .map(paymentId => ({
+            payment: payments[paymentId],
+            dispute: disputes[paymentId],
+            order: ordersById.get(payments[paymentId].orderId.toString()),
+          }))
+          .sort((a, b) => Number(a.dispute.raisedAt - b.dispute.raisedAt))
+      );
+    } catch (error) {
+      console.error('Failed to load disputes:', error);
+      addToast('Failed to load the dispute queue', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [openDisputeIds, getPaymentsByIds, getDisputesByIds, getOrdersByIds, addToast]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadCases();
+    }
+  }, [isAdmin, loadCases]);
+
+  const handleDisputeEvent = useCallback(() => { refetchOpenDisputes(); }, [refetchOpenDisputes]);
+
+  usePaymentProcessorEvents('DisputeRaised', handleDisputeEvent, isAdmin);
+  usePaymentProcessorEvents('DisputeResolved', handleDisputeEvent, isAdmin);
+
+  const handleResolve = async (disputeCase: DisputeCase, refundBuyer: boolean) => {
+    const paymentId = disputeCase.payment.paymentId.toString();
+    const resolution = (resolutions[paymentId] || '').trim();
+
+    if (!resolution) {
+      addToast('Please explain the decision before resolving the dispute', 'warning');
+      return;
+    }
+
+    const outcome = refundBuyer ? 'refund the buyer' : 'release the payment to the farmer';
+    if (!window.confirm(`Resolve dispute on payment #${paymentId} and ${outcome}? This cannot be undone.`)) {
+      return;
+    }
+
+    setPendingPaymentId(paymentId);
+    try {
+      const hash = await resolveDispute({
+        paymentId: disputeCase.payment.paymentId,
+        refundBuyer,
+        resolution,
+      });
+
+      if (publicClient) {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Transaction reverted');
+        }
+      }
+
+      addToast(`Dispute on payment #${paymentId} resolved`, 'success');
+      await refetchOpenDisputes();
+    } catch (error) {
+      console.error('Failed to resolve dispute:', error);
+      addToast(`Failed to resolve dispute: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingPaymentId(null);
+    }
+  };
+
+  if (isConnected && !isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg border border-yellow-200 p-8 text-center">
+          <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Admin Role Required</h2>
+          <p className="text-gray-600">
+            Only administrators can review and resolve disputes.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-5xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Dispute Queue</h1>
+            <p className="text-sm text-gray-600">
+              Review evidence and settle escrowed payments under dispute
+            </p>
+          </div>
+          <button
+            onClick={() => refetchOpenDisputes()}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span className="text-sm">{isLoading ? 'Refreshing...' : 'Refresh'}</span>
+          </button>
+        </div>
+
+        {isLoading && cases.length === 0 ? (
+          <LoadingSpinner text="Loading disputes..." className="py-12" />
+        ) : cases.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md mx-auto border border-gray-100">
+              <div className="h-16 w-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                <Gavel className="h-8 w-8 text-gray-400" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">No open disputes</h3>
+              <p className="text-gray-600">All escrowed payments are settling normally.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {cases.map(disputeCase => {
+              const { payment, dispute, order } = disputeCase;
+              const paymentId = payment.paymentId.toString();
+              const isPending = pendingPaymentId === paymentId;
+
+              return (
+                <div key={paymentId} className="bg-white rounded-xl shadow-lg border border-orange-200 p-6 space-y-4">
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        Order #{payment.orderId.toString()} · Payment #{paymentId}
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        Raised by {formatAddress(dispute.raisedBy)} on {formatDate(Number(dispute.raisedAt))}
+                      </p>
+                      {order && (
+                        <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-600">
+                          <span className="flex items-center gap-1">
+                            <Package className="h-4 w-4" />
+                            Batch #{order.tokenId.toString()}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Scale className="h-4 w-4" />
+                            {order.quantity.toString()} kg
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <CurrencyDisplay amount={Number(formatEther(payment.totalAmount))} currency="ETH" compact />
+                      <p className="text-xs text-gray-500 mt-1">in escrow</p>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Buyer</p>
+                      <p className="font-mono text-gray-900">{formatAddress(payment.payer)}</p>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Farmer</p>
+                      <p className="font-mono text-gray-900">{formatAddress(payment.farmer)}</p>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Transporter</p>
+                      <p className="font-mono text-gray-900">{formatAddress(payment.transporter)}</p>
+                    </div>
+                  </div>
+
+                  <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg space-y-3">
+                    <p className="text-sm font-medium text-gray-900">{dispute.reason}</p>
+                    <DisputeEvidenceView evidenceUri={dispute.evidenceUri} />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Resolution</label>
+                    <textarea
+                      rows={2}
+                      value={resolutions[paymentId] || ''}
+                      onChange={(e) => setResolutions(prev => ({ ...prev, [paymentId]: e.target.value }))}
+                      placeholder="Explain the decision to both parties"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    />
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                      onClick={() => handleResolve(disputeCase, true)}
+                      disabled={pendingPaymentId !== null}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                      {isPending ? 'Resolving...' : 'Refund Buyer'}
+                    </button>
+                    <button
+                      onClick={() => handleResolve(disputeCase, false)}
+                      disabled={pendingPaymentId !== null}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <Send className="h-4 w-4" />
+                      {isPending ? 'Resolving...' : 'Release to Farmer'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DisputesPage;
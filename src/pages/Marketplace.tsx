@@ -1,26 +1,35 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Filter, Search, Info, RefreshCw, Wifi, WifiOff, Clock, AlertCircle, ChevronLeft, ChevronRight, ShoppingCart } from 'lucide-react';
+import { formatEther } from 'viem';
 import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
 import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { useMarketplaceListings, useMarketplaceEvents } from '../hooks/useMarketplace';
 import { useToast } from '../contexts/ToastContext';
 import { useCart } from '../contexts/CartContext';
 import { fetchMetadataFromIPFS, CropMetadata } from '../utils/ipfs';
+import { getRoyaltyOwed } from '../utils/tokenReads';
 import CropBatchCard from '../components/CropBatchCard';
 import CropBatchCardSkeleton from '../components/CropBatchCardSkeleton';
 
+type MarketplaceBatch = CropMetadata & {
+  tokenId: number;
+  listingId?: number;
+  owner?: string;
+  supplyChainStatus?: 'farmer' | 'transporter' | 'buyer';
+  lastUpdated?: number;
+  royalty?: number;
+  royaltyReceiver?: string;
+};
+
 const Marketplace: React.FC = () => {
   const { addToast } = useToast();
   const { isConnected } = useWeb3Enhanced();
-  const { getAllBatches, isLoading, error, refreshTrigger } = useCropBatchToken();
+  const { getBatchesByIds, getRoyaltyQuotes, refreshTrigger } = useCropBatchToken();
+  const { getActiveListings, isLoading, error } = useMarketplaceListings();
   const { totalItems, toggleCart } = useCart();
 
   // Real blockchain data with IPFS metadata
-  const [batches, setBatches] = useState<(CropMetadata & {
-    tokenId: number;
-    owner?: string;
-    supplyChainStatus?: 'farmer' | 'transporter' | 'buyer';
-    lastUpdated?: number;
-  })[]>([]);
+  const [batches, setBatches] = useState<MarketplaceBatch[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const lastUpdateTime = Date.now();
   const connectionStatus = isConnected ? 'connected' : 'disconnected';
@@ -35,102 +44,118 @@ const Marketplace: React.FC = () => {
   const [itemsPerPage, setItemsPerPage] = useState(12);
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'name' | 'quantity'>('newest');
 
-  // Load batches from blockchain and fetch metadata from IPFS with rate limiting
+  // Load active listings and their batches in one batched read, then fill in IPFS metadata with rate limiting
   const refetchBatches = useCallback(async () => {
     setIsRefreshing(true);
     try {
-      const blockchainBatches = await getAllBatches();
-
-      // Process batches in smaller chunks to avoid overwhelming IPFS gateways
-      const chunkSize = 3; // Process 3 batches at a time
-      const batchChunks = [];
-      for (let i = 0; i < blockchainBatches.length; i += chunkSize) {
-        batchChunks.push(blockchainBatches.slice(i, i + chunkSize));
-      }
-
-      const allBatchesWithMetadata = [];
-
-      // Process each chunk with a delay between chunks
-      for (let i = 0; i < batchChunks.length; i++) {
-        const chunk = batchChunks[i];
+      const activeListings = await getActiveListings();
+      const batchList = await getBatchesByIds(
+        Array.from(new Set(activeListings.map(listing => Number(listing.tokenId))))
+      );
+      const batchesById = new Map(batchList.map(batch => [batch.tokenId, batch]));
+
+      // Royalty a reseller owes on everything still available; a missing quote just hides the royalty
+      const royalties = await getRoyaltyQuotes(
+        activeListings.map(listing => ({ tokenId: Number(listing.tokenId), salePrice: listing.pricePerKg * listing.quantityAvailable }))
+      ).catch(error => {
+        console.warn('Failed to load royalty info:', error);
+        return [];
+      });
+
+      // Listing terms take precedence over the values minted into the batch metadata
+      const listingCards = activeListings.map((listing, index) => {
+        const tokenId = Number(listing.tokenId);
+        const batch = batchesById.get(tokenId);
+        const royalty = getRoyaltyOwed(royalties[index], listing.farmer);
+
+        return {
+          batch,
+          listingFields: {
+            tokenId,
+            listingId: Number(listing.listingId),
+            pricePerKg: Number(formatEther(listing.pricePerKg)),
+            quantity: Number(listing.quantityAvailable),
+            owner: listing.farmer,
+            lastUpdated: Number(listing.createdAt),
+            royalty: royalty > 0n ? Number(formatEther(royalty)) : undefined,
+            royaltyReceiver: royalty > 0n ? royalties[index].receiver : undefined,
+          },
+          basicMetadata: {
+            name: `Batch #${tokenId}`,
+            description: listing.description || (batch ? `${batch.cropType} from ${batch.originFarm}` : ''),
+            image: '', // Will use placeholder
+            attributes: [],
+            cropType: batch?.cropType || '',
+            originFarm: batch?.originFarm || listing.farmLocation,
+            harvestDate: batch?.harvestDate || 0,
+            notes: batch?.notes || '',
+            location: { address: listing.farmLocation },
+          },
+          farmLocation: listing.farmLocation,
+        };
+      });
+
+      // Render the grid straight away from on-chain data
+      const allBatchesWithMetadata: MarketplaceBatch[] = listingCards.map(card => ({ ...card.basicMetadata, ...card.listingFields }));
+      setBatches([...allBatchesWithMetadata]);
+
+      // Fetch IPFS metadata in smaller chunks to avoid overwhelming IPFS gateways
+      const chunkSize = 3; // Process 3 listings at a time
+      for (let i = 0; i < listingCards.length; i += chunkSize) {
+        const chunk = listingCards.slice(i, i + chunkSize);
 
         const chunkResults = await Promise.allSettled(
-          chunk.map(async (batch) => {
-            try {
-              if (!batch.metadataUri) {
-                // If no metadata URI, create a basic metadata object
-                return {
-                  tokenId: batch.tokenId,
-                  name: `Batch #${batch.tokenId}`,
-                  description: `${batch.cropType} from ${batch.originFarm}`,
-                  image: '', // Will use placeholder
-                  attributes: [],
-                  cropType: batch.cropType,
-                  quantity: batch.quantity,
-                  originFarm: batch.originFarm,
-                  harvestDate: batch.harvestDate,
-                  notes: batch.notes,
-                  owner: batch.owner,
-                  lastUpdated: batch.timestamp,
-                };
-              }
+          chunk.map(async (card) => {
+            if (!card.batch?.metadataUri) return null;
 
-              const metadata = await fetchMetadataFromIPFS(batch.metadataUri);
+            try {
+              const metadata = await fetchMetadataFromIPFS(card.batch.metadataUri);
               return {
                 ...metadata,
-                tokenId: batch.tokenId,
-                owner: batch.owner,
-                lastUpdated: batch.timestamp,
+                ...card.listingFields,
+                location: metadata.location || { address: card.farmLocation },
               };
             } catch (error) {
-              console.warn(`Failed to fetch metadata for batch ${batch.tokenId}:`, error);
-              // Return basic metadata if IPFS fetch fails
-              return {
-                tokenId: batch.tokenId,
-                name: `Batch #${batch.tokenId}`,
-                description: `${batch.cropType} from ${batch.originFarm}`,
-                image: '', // Will use placeholder
-                attributes: [],
-                cropType: batch.cropType,
-                quantity: batch.quantity,
-                originFarm: batch.originFarm,
-                harvestDate: batch.harvestDate,
-                notes: batch.notes,
-                owner: batch.owner,
-                lastUpdated: batch.timestamp,
-              };
+              console.warn(`Failed to fetch metadata for batch ${card.listingFields.tokenId}:`, error);
+              // Keep the basic metadata if IPFS fetch fails
+              return null;
             }
           })
         );
 
-        // Extract successful results from this chunk
-        const successfulChunkBatches = chunkResults
-          .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-          .map(result => result.value);
-
-        allBatchesWithMetadata.push(...successfulChunkBatches);
+        chunkResults.forEach((result, offset) => {
+          if (result.status === 'fulfilled' && result.value) {
+            allBatchesWithMetadata[i + offset] = result.value;
+          }
+        });
+        setBatches([...allBatchesWithMetadata]);
 
         // Add delay between chunks to avoid rate limiting (except for the last chunk)
-        if (i < batchChunks.length - 1) {
+        if (i + chunkSize < listingCards.length) {
           await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
         }
       }
 
-      setBatches(allBatchesWithMetadata);
       addToast('Marketplace data refreshed', 'success');
     } catch (error) {
-      console.error('Failed to fetch batches:', error);
+      console.error('Failed to fetch listings:', error);
       addToast('Failed to refresh marketplace data', 'error');
     } finally {
       setIsRefreshing(false);
     }
-  }, [getAllBatches, addToast]);
+  }, [getActiveListings, getBatchesByIds, getRoyaltyQuotes, addToast]);
 
   // Load batches on mount
   useEffect(() => {
     refetchBatches();
   }, [refetchBatches]);
 
+  const handleListingEvent = useCallback(() => { refetchBatches(); }, [refetchBatches]);
+
+  // Auto-refresh when listings are created or change status
+  useMarketplaceEvents('CropListed', handleListingEvent);
+  useMarketplaceEvents('ListingStatusChanged', handleListingEvent);
+
   // Auto-refresh when transfer events are detected
   useEffect(() => {
     if (refreshTrigger > 0) {
@@ -249,7 +274,7 @@ const Marketplace: React.FC = () => {
                 <div className="flex items-center gap-2">
                   {getConnectionStatusIcon()}
                   <span className="text-sm text-gray-600">
-                    <span className="font-semibold">{batches.length}</span> batches
+                    <span className="font-semibold">{batches.length}</span> listings
                     {filteredAndSortedBatches.length !== batches.length && (
                       <span className="text-gray-500"> • {filteredAndSortedBatches.length} filtered</span>
                     )}
@@ -487,7 +512,7 @@ const Marketplace: React.FC = () => {
           {currentBatches.length > 0 ? (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
               {currentBatches.map((batch) => (
-                <CropBatchCard key={batch.tokenId} batch={batch} />
+                <CropBatchCard key={batch.listingId} batch={batch} />
               ))}
             </div>
           ) : (
@@ -497,11 +522,11 @@ const Marketplace: React.FC = () => {
                   <Info className="h-8 w-8 text-gray-400" />
                 </div>
                 <h3 className="text-xl font-bold text-gray-900 mb-4">
-                  {batches.length === 0 ? 'No crop batches available' : 'No batches match your filters'}
+                  {batches.length === 0 ? 'No active listings' : 'No batches match your filters'}
                 </h3>
                 <p className="text-gray-600 mb-6 leading-relaxed">
                   {batches.length === 0
-                    ? 'No crop batches have been minted yet. Be the first to create one!'
+                    ? 'No farmer has listed a crop batch for sale yet. Farmers can list batches from My Listings.'
                     : 'Try adjusting your search criteria to find more results.'
                   }
                 </p>
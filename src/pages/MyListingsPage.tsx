@@ -0,0 +1,625 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePublicClient } from 'wagmi';
+import { parseEther, formatEther } from 'viem';
+import { Tag, Plus, RefreshCw, Edit3, XCircle, Clock, Scale, Package, AlertTriangle, Info, FileText, Lock } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import { useCropBatchToken, CropBatch, getHolderQuantity } from '../hooks/useCropBatchToken';
+import { useOwnAddresses } from '../hooks/useSponsoredWriteContract';
+import {
+  useCreateListing,
+  useUpdateListing,
+  useCancelListing,
+  useMarketplaceListings,
+  useMarketplaceEvents,
+  getListingStatusLabel,
+  getListingStatusColor,
+  Listing,
+} from '../hooks/useMarketplace';
+import { fetchMetadataFromIPFS } from '../utils/ipfs';
+import { getErrorMessage, formatDate } from '../utils';
+import { LISTING_STATUS } from '../config/constants';
+import CurrencyDisplay from '../components/CurrencyDisplay';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EditBatchMetadataModal from '../components/EditBatchMetadataModal';
+import RoyaltyEarningsPanel from '../components/RoyaltyEarningsPanel';
+
+const DURATION_OPTIONS = [
+  { days: 7, label: '1 week' },
+  { days: 14, label: '2 weeks' },
+  { days: 30, label: '30 days' },
+  { days: 60, label: '60 days' },
+  { days: 90, label: '90 days' },
+];
+
+const EMPTY_FORM = {
+  tokenId: '',
+  pricePerKg: '',
+  quantity: '',
+  description: '',
+  farmLocation: '',
+  durationDays: '30',
+};
+
+const MyListingsPage: React.FC = () => {
+  const { account, hasRole, isConnected } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const { getUserTokens, getAllBatches } = useCropBatchToken();
+  const { resolveOwnAddresses } = useOwnAddresses();
+  const { getFarmerListings, isLoading: isLoadingListings } = useMarketplaceListings();
+  const { writeAsync: createListing } = useCreateListing();
+  const { writeAsync: updateListing } = useUpdateListing();
+  const { writeAsync: cancelListing } = useCancelListing();
+
+  const [ownedBatches, setOwnedBatches] = useState<CropBatch[]>([]);
+  const [mintedBatches, setMintedBatches] = useState<CropBatch[]>([]);
+  const [editingBatch, setEditingBatch] = useState<CropBatch | null>(null);
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [editingListing, setEditingListing] = useState<Listing | null>(null);
+  const [editData, setEditData] = useState({ pricePerKg: '', quantity: '', description: '' });
+  const [pendingListingId, setPendingListingId] = useState<string | null>(null);
+
+  const canList = hasRole('farmer');
+
+  const loadData = useCallback(async () => {
+    if (!account) return;
+
+    setIsRefreshing(true);
+    try {
+      const [userBatches, farmerListings, allBatches, ownAddresses] = await Promise.all([
+        getUserTokens(account),
+        getFarmerListings(account),
+        getAllBatches(),
+        resolveOwnAddresses(),
+      ]);
+
+      // Only batches the farmer still holds can be listed
+      // Only the farmer's own share of a batch can be listed, so cap each batch at that holding
+      setOwnedBatches(userBatches.map(batch => ({ ...batch, quantity: getHolderQuantity(batch, account) })));
+      setListings(farmerListings);
+      // Metadata can be edited by the farmer who minted a batch, even after selling it.
+      // Sponsored mints record the farmer's smart account as the minter
+      setMintedBatches(allBatches.filter(batch => ownAddresses.includes(batch.minter.toLowerCase())));
+    } catch (error) {
+      console.error('Failed to load listings:', error);
+      addToast('Failed to load your listings', 'error');
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [account, getUserTokens, getFarmerListings, getAllBatches, resolveOwnAddresses, addToast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleListingEvent = useCallback(() => { loadData(); }, [loadData]);
+
+  // Refresh when one of this farmer's listings changes on-chain
+  useMarketplaceEvents('ListingStatusChanged', handleListingEvent, !!account);
+
+  const batchesById = useMemo(() => {
+    return new Map(ownedBatches.map(batch => [batch.tokenId, batch]));
+  }, [ownedBatches]);
+
+  const mintedTokenIds = useMemo(() => mintedBatches.map(batch => batch.tokenId), [mintedBatches]);
+
+  const selectedBatch = formData.tokenId ? batchesById.get(parseInt(formData.tokenId)) : undefined;
+
+  // Prefill price and location from the batch metadata when a batch is picked
+  const handleBatchSelect = async (tokenId: string) => {
+    setFormData(prev => ({ ...prev, tokenId }));
+
+    const batch = batchesById.get(parseInt(tokenId));
+    if (!batch) return;
+
+    setFormData(prev => ({
+      ...prev,
+      quantity: batch.quantity.toString(),
+      farmLocation: prev.farmLocation || batch.originFarm,
+      description: prev.description || `${batch.cropType} from ${batch.originFarm}`,
+    }));
+
+    if (batch.metadataUri) {
+      try {
+        const metadata = await fetchMetadataFromIPFS(batch.metadataUri);
+        setFormData(prev => ({
+          ...prev,
+          pricePerKg: prev.pricePerKg || (metadata.pricePerKg ? metadata.pricePerKg.toString() : ''),
+          farmLocation: metadata.location?.address || prev.farmLocation,
+        }));
+      } catch (error) {
+        console.warn(`Failed to fetch metadata for batch ${tokenId}:`, error);
+      }
+    }
+  };
+
+  const waitForReceipt = async (hash: `0x${string}`) => {
+    if (!publicClient) return;
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted');
+    }
+  };
+
+  const handleCreateListing = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedBatch) {
+      addToast('Please select a batch to list', 'warning');
+      return;
+    }
+
+    const price = parseFloat(formData.pricePerKg);
+    const quantity = parseInt(formData.quantity);
+
+    if (isNaN(price) || price <= 0) {
+      addToast('Please enter a valid price per kg', 'warning');
+      return;
+    }
+
+    if (isNaN(quantity) || quantity <= 0 || quantity > selectedBatch.quantity) {
+      addToast(`Quantity must be between 1 and ${selectedBatch.quantity} kg`, 'warning');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const hash = await createListing({
+        tokenId: BigInt(selectedBatch.tokenId),
+        pricePerKg: parseEther(formData.pricePerKg),
+        quantity: BigInt(quantity),
+        description: formData.description.trim(),
+        farmLocation: formData.farmLocation.trim(),
+        duration: BigInt(parseInt(formData.durationDays) * 24 * 60 * 60),
+      });
+
+      addToast('Listing submitted. Waiting for confirmation...', 'info');
+      await waitForReceipt(hash);
+
+      addToast(`Batch #${selectedBatch.tokenId} is now listed on the marketplace`, 'success');
+      setFormData(EMPTY_FORM);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to create listing:', error);
+      addToast(`Failed to create listing: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openEditModal = (listing: Listing) => {
+    setEditingListing(listing);
+    setEditData({
+      pricePerKg: formatEther(listing.pricePerKg),
+      quantity: listing.quantityAvailable.toString(),
+      description: listing.description,
+    });
+  };
+
+  const handleUpdateListing = async () => {
+    if (!editingListing) return;
+
+    const price = parseFloat(editData.pricePerKg);
+    const quantity = parseInt(editData.quantity);
+
+    if (isNaN(price) || price <= 0) {
+      addToast('Please enter a valid price per kg', 'warning');
+      return;
+    }
+
+    if (isNaN(quantity) || quantity < Number(editingListing.quantityReserved)) {
+      addToast(`Quantity cannot be lower than the ${editingListing.quantityReserved.toString()} kg already reserved`, 'warning');
+      return;
+    }
+
+    setPendingListingId(editingListing.listingId.toString());
+    try {
+      const hash = await updateListing({
+        listingId: editingListing.listingId,
+        pricePerKg: parseEther(editData.pricePerKg),
+        quantity: BigInt(quantity),
+        description: editData.description.trim(),
+      });
+
+      await waitForReceipt(hash);
+      addToast(`Listing #${editingListing.listingId.toString()} updated`, 'success');
+      setEditingListing(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to update listing:', error);
+      addToast(`Failed to update listing: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingListingId(null);
+    }
+  };
+
+  const handleCancelListing = async (listing: Listing) => {
+    if (!window.confirm(`Cancel listing #${listing.listingId.toString()}? Buyers will no longer be able to order it.`)) {
+      return;
+    }
+
+    setPendingListingId(listing.listingId.toString());
+    try {
+      const hash = await cancelListing({ listingId: listing.listingId });
+      await waitForReceipt(hash);
+      addToast(`Listing #${listing.listingId.toString()} cancelled`, 'success');
+      await loadData();
+    } catch (error) {
+      console.error('Failed to cancel listing:', error);
+      addToast(`Failed to cancel listing: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingListingId(null);
+    }
+  };
+
+  if (isConnected && !canList) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg border border-yellow-200 p-8 text-center">
+          <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Farmer Role Required</h2>
+          <p className="text-gray-600">
+            Only registered farmers can list crop batches on the marketplace.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">My Listings</h1>
+            <p className="text-sm text-gray-600">
+              List your crop batches for sale and manage existing marketplace listings
+            </p>
+          </div>
+          <button
+            onClick={loadData}
+            disabled={isRefreshing}
+            className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+            <span className="text-sm">{isRefreshing ? 'Refreshing...' : 'Refresh'}</span>
+          </button>
+        </div>
+
+        {/* Create Listing */}
+        <form onSubmit={handleCreateListing} className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="h-10 w-10 bg-green-100 rounded-lg flex items-center justify-center">
+              <Plus className="h-5 w-5 text-green-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Create Listing</h2>
+          </div>
+
+          {ownedBatches.length === 0 && !isRefreshing ? (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center gap-2">
+              <Info className="h-5 w-5 text-blue-600" />
+              <p className="text-sm text-blue-800">
+                You don't hold any crop batches yet. Tokenize a harvest to list it here.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="tokenId" className="block text-sm font-medium text-gray-700 mb-2">Batch</label>
+                <select
+                  id="tokenId"
+                  value={formData.tokenId}
+                  onChange={(e) => handleBatchSelect(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                >
+                  <option value="">Select a batch</option>
+                  {ownedBatches.map(batch => (
+                    <option key={batch.tokenId} value={batch.tokenId}>
+                      #{batch.tokenId} - {batch.cropType} ({batch.quantity} kg)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="pricePerKg" className="block text-sm font-medium text-gray-700 mb-2">Price per kg (ETH)</label>
+                <input
+                  id="pricePerKg"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={formData.pricePerKg}
+                  onChange={(e) => setFormData(prev => ({ ...prev, pricePerKg: e.target.value }))}
+                  placeholder="0.01"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-2">
+                  Quantity (kg){selectedBatch && <span className="text-gray-500"> - max {selectedBatch.quantity}</span>}
+                </label>
+                <input
+                  id="quantity"
+                  type="number"
+                  min="1"
+                  max={selectedBatch?.quantity}
+                  value={formData.quantity}
+                  onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="durationDays" className="block text-sm font-medium text-gray-700 mb-2">Listing Duration</label>
+                <select
+                  id="durationDays"
+                  value={formData.durationDays}
+                  onChange={(e) => setFormData(prev => ({ ...prev, durationDays: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                >
+                  {DURATION_OPTIONS.map(option => (
+                    <option key={option.days} value={option.days}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="farmLocation" className="block text-sm font-medium text-gray-700 mb-2">Farm Location</label>
+                <input
+                  id="farmLocation"
+                  type="text"
+                  value={formData.farmLocation}
+                  onChange={(e) => setFormData(prev => ({ ...prev, farmLocation: e.target.value }))}
+                  placeholder="e.g., Nakuru, Kenya"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea
+                  id="description"
+                  rows={3}
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Describe quality, grading or packaging for buyers"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+
+              {formData.pricePerKg && formData.quantity && !isNaN(parseFloat(formData.pricePerKg)) && (
+                <div className="md:col-span-2 p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-sm font-medium text-gray-700 mb-2">Listing value</p>
+                  <CurrencyDisplay
+                    amount={parseFloat(formData.pricePerKg) * (parseInt(formData.quantity) || 0)}
+                    currency="ETH"
+                    compact
+                  />
+                </div>
+              )}
+
+              <div className="md:col-span-2">
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !formData.tokenId}
+                  className="w-full bg-green-600 text-white py-3 px-4 rounded-xl hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold flex items-center justify-center gap-2"
+                >
+                  {isSubmitting ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      <span>Creating listing...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Tag className="h-5 w-5" />
+                      <span>List on Marketplace</span>
+                    </>
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+
+        {/* Existing Listings */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Listings</h2>
+
+          {isLoadingListings && listings.length === 0 ? (
+            <LoadingSpinner text="Loading listings..." className="py-8" />
+          ) : listings.length === 0 ? (
+            <p className="text-gray-600 text-center py-8">You haven't listed any batches yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {listings.map(listing => {
+                const tokenId = Number(listing.tokenId);
+                const batch = batchesById.get(tokenId);
+                const isActive = listing.status === LISTING_STATUS.ACTIVE;
+                const isPending = pendingListingId === listing.listingId.toString();
+
+                return (
+                  <div key={listing.listingId.toString()} className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="font-semibold text-gray-900">
+                            Listing #{listing.listingId.toString()} · {batch ? batch.cropType : `Batch #${tokenId}`}
+                          </h3>
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${getListingStatusColor(listing.status)}`}>
+                            {getListingStatusLabel(listing.status)}
+                          </span>
+                        </div>
+                        {listing.description && (
+                          <p className="text-sm text-gray-600 truncate">{listing.description}</p>
+                        )}
+                        <div className="mt-2 flex flex-wrap gap-4 text-xs text-gray-600">
+                          <span className="flex items-center gap-1">
+                            <Package className="h-3 w-3" />
+                            Token #{tokenId}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Scale className="h-3 w-3" />
+                            {listing.quantityAvailable.toString()} kg available
+                            {listing.quantityReserved > 0n && `, ${listing.quantityReserved.toString()} kg reserved`}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            Expires {formatDate(Number(listing.expiresAt))}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-4">
+                        <CurrencyDisplay
+                          amount={Number(formatEther(listing.pricePerKg))}
+                          currency="ETH"
+                          compact
+                        />
+                        {isActive && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => openEditModal(listing)}
+                              disabled={isPending}
+                              className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-white disabled:opacity-50 transition-colors"
+                            >
+                              <Edit3 className="h-4 w-4" />
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleCancelListing(listing)}
+                              disabled={isPending}
+                              className="flex items-center gap-1 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                            >
+                              <XCircle className="h-4 w-4" />
+                              {isPending ? 'Cancelling...' : 'Cancel'}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Batch Metadata */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">Batch Metadata</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Correct the details of batches you minted, then freeze them once they are final.
+          </p>
+
+          {mintedBatches.length === 0 ? (
+            <p className="text-gray-600 text-center py-8">You haven't minted any batches yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {mintedBatches.map(batch => (
+                <div key={batch.tokenId} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">#{batch.tokenId} · {batch.cropType}</p>
+                    <p className="text-xs text-gray-600">{batch.originFarm} · Harvested {formatDate(batch.harvestDate)}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {batch.metadataFrozen && (
+                      <span className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                        <Lock className="h-3 w-3" />
+                        Frozen
+                      </span>
+                    )}
+                    <button
+                      onClick={() => setEditingBatch(batch)}
+                      className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <FileText className="h-4 w-4" />
+                      {batch.metadataFrozen ? 'View History' : 'Edit Metadata'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {account && <RoyaltyEarningsPanel account={account} mintedTokenIds={mintedTokenIds} />}
+      </div>
+
+      {editingBatch && (
+        <EditBatchMetadataModal
+          batch={editingBatch}
+          onClose={() => setEditingBatch(null)}
+          onUpdated={loadData}
+        />
+      )}
+
+      {/* Edit Modal */}
+      {editingListing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-xl shadow-xl max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Edit Listing #{editingListing.listingId.toString()}
+            </h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Price per kg (ETH)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={editData.pricePerKg}
+                  onChange={(e) => setEditData(prev => ({ ...prev, pricePerKg: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quantity (kg)</label>
+                <input
+                  type="number"
+                  min={Number(editingListing.quantityReserved)}
+                  value={editData.quantity}
+                  onChange={(e) => setEditData(prev => ({ ...prev, quantity: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea
+                  rows={3}
+                  value={editData.description}
+                  onChange={(e) => setEditData(prev => ({ ...prev, description: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setEditingListing(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleUpdateListing}
+                disabled={pendingListingId !== null}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                {pendingListingId !== null ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyListingsPage;
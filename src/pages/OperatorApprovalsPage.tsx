@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { isAddress, Hash } from 'viem';
+import { KeyRound, RefreshCw, AlertTriangle, ShieldCheck, ShieldOff, Store, UserPlus, ExternalLink } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import { useCropBatchToken, OperatorApproval } from '../hooks/useCropBatchToken';
+import { CONTRACT_ADDRESSES } from '../config/constants';
+import { getErrorMessage, formatAddress, formatDate, getBlockExplorerUrl } from '../utils';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+// Helper function to name an address if it is one of the GreenLedger contracts
+const getKnownContractName = (address: string): string | null => {
+  const match = Object.entries(CONTRACT_ADDRESSES).find(([, contract]) => contract.toLowerCase() === address.toLowerCase());
+  return match ? match[0] : null;
+};
+
+/**
+ * Connected Operators Page
+ *
+ * Lists the operators the connected account has approved to move all of its
+ * crop batch tokens, and grants or revokes that approval. Approving an
+ * address that is not a GreenLedger contract, such as a co-op account, asks
+ * for confirmation first since the operator can then transfer every batch.
+ */
+const OperatorApprovalsPage: React.FC = () => {
+  const { account, isConnected } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const { getOperatorApprovals, setApprovalForAll, triggerRefresh } = useCropBatchToken();
+
+  const [approvals, setApprovals] = useState<OperatorApproval[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [operatorAddress, setOperatorAddress] = useState('');
+  const [pendingOperator, setPendingOperator] = useState<string | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    if (!account) return;
+
+    setIsLoading(true);
+    try {
+      setApprovals(await getOperatorApprovals(account));
+    } catch (error) {
+      console.error('Failed to load operator approvals:', error);
+      addToast(`Failed to load operator approvals: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, getOperatorApprovals, addToast]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const isApproved = (operator: string) =>
+    approvals.some(approval => approval.operator.toLowerCase() === operator.toLowerCase());
+
+  // Helper function to wait for a transaction and fail loudly if it reverted
+  const confirmTransaction = async (hash: Hash) => {
+    if (!publicClient) return;
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted');
+    }
+  };
+
+  const updateApproval = async (operator: string, approved: boolean) => {
+    const label = getKnownContractName(operator) || formatAddress(operator);
+
+    setPendingOperator(operator.toLowerCase());
+    try {
+      await confirmTransaction(await setApprovalForAll(operator, approved));
+      addToast(approved ? `${label} can now manage your batches` : `Approval for ${label} revoked`, 'success');
+      triggerRefresh();
+      await loadApprovals();
+      return true;
+    } catch (error) {
+      console.error('Operator approval update failed:', error);
+      addToast(`Failed to ${approved ? 'approve' : 'revoke'} ${label}: ${getErrorMessage(error)}`, 'error');
+      return false;
+    } finally {
+      setPendingOperator(null);
+    }
+  };
+
+  const handleGrant = async () => {
+    const operator = operatorAddress.trim();
+    if (!isAddress(operator)) {
+      addToast('Please enter a valid address', 'error');
+      return;
+    }
+
+    if (isApproved(operator)) {
+      addToast('This address is already approved', 'info');
+      return;
+    }
+
+    if (!getKnownContractName(operator) && !window.confirm(
+      `${formatAddress(operator)} is not a GreenLedger contract. Once approved it can transfer every crop batch you hold, ` +
+      'without asking you first. Only continue if you trust this account.'
+    )) return;
+
+    if (await updateApproval(operator, true)) {
+      setOperatorAddress('');
+    }
+  };
+
+  const typedOperator = operatorAddress.trim();
+  const showUnknownWarning = isAddress(typedOperator) && !getKnownContractName(typedOperator);
+  const isMarketplaceApproved = isApproved(CONTRACT_ADDRESSES.Marketplace);
+
+  if (!isConnected || !account) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg border border-yellow-200 p-8 text-center">
+          <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Wallet Not Connected</h2>
+          <p className="text-gray-600">Connect your wallet to see who can manage your tokens.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <KeyRound className="h-6 w-6 text-green-600" />
+              Connected Operators
+            </h1>
+            <p className="text-sm text-gray-600">
+              Operators can transfer any of your crop batch tokens on your behalf
+            </p>
+          </div>
+          <button
+            onClick={loadApprovals}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span className="text-sm">{isLoading ? 'Refreshing...' : 'Refresh'}</span>
+          </button>
+        </div>
+
+        {/* Current approvals */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Current Approvals</h2>
+
+          {isLoading && approvals.length === 0 ? (
+            <LoadingSpinner text="Loading approvals..." className="py-8" />
+          ) : approvals.length === 0 ? (
+            <p className="text-gray-600 text-center py-8">No operator can act on your tokens.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {approvals.map(approval => {
+                const name = getKnownContractName(approval.operator);
+                return (
+                  <div key={approval.operator} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 flex items-center gap-2">
+                        {name || 'External account'}
+                        {name ? (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">GreenLedger</span>
+                        ) : (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">Unverified</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-600 font-mono break-all">{approval.operator}</p>
+                      <a
+                        href={getBlockExplorerUrl(approval.transactionHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-green-700 hover:underline"
+                      >
+                        Approved {approval.approvedAt ? formatDate(new Date(approval.approvedAt)) : ''}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </div>
+                    <button
+                      onClick={() => updateApproval(approval.operator, false)}
+                      disabled={pendingOperator !== null}
+                      className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <ShieldOff className="h-4 w-4" />
+                      {pendingOperator === approval.operator.toLowerCase() ? 'Revoking...' : 'Revoke'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Grant approval */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-900">Grant Approval</h2>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <div className="flex items-start gap-3">
+              <Store className="h-5 w-5 text-green-700 mt-0.5" />
+              <div>
+                <p className="font-medium text-gray-900">Marketplace</p>
+                <p className="text-xs text-gray-600">Lets the Marketplace contract move your batches on your behalf.</p>
+              </div>
+            </div>
+            <button
+              onClick={() => updateApproval(CONTRACT_ADDRESSES.Marketplace, true)}
+              disabled={pendingOperator !== null || isMarketplaceApproved}
+              className="flex items-center justify-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              {isMarketplaceApproved
+                ? 'Approved'
+                : pendingOperator === CONTRACT_ADDRESSES.Marketplace.toLowerCase() ? 'Approving...' : 'Approve Marketplace'}
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Co-op or other account</label>
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={operatorAddress}
+                onChange={(e) => setOperatorAddress(e.target.value)}
+                placeholder="0x..."
+                className="flex-1 px-3 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+              <button
+                onClick={handleGrant}
+                disabled={pendingOperator !== null || !typedOperator}
+                className="flex items-center justify-center gap-2 px-3 py-2 text-sm text-green-700 border border-green-200 rounded-lg hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <UserPlus className="h-4 w-4" />
+                {pendingOperator === typedOperator.toLowerCase() ? 'Approving...' : 'Approve'}
+              </button>
+            </div>
+            {showUnknownWarning && (
+              <p className="flex items-start gap-2 mt-2 text-xs text-yellow-800">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                This address is not a GreenLedger contract. It will be able to transfer every batch you hold.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OperatorApprovalsPage;
@@ -0,0 +1,802 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePublicClient } from 'wagmi';
+import { formatEther } from 'viem';
+import { ClipboardList, RefreshCw, CheckCircle, Truck, Package, MapPin, Scale, Lock, AlertTriangle, ChevronDown, ChevronUp, Navigation, Gavel, Upload } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import {
+  useOrderList,
+  useOrderManagerEvents,
+  useProcessPayment,
+  useConfirmOrder,
+  useShipOrder,
+  useUpdateTracking,
+  useMarkDelivered,
+  useCompleteOrder,
+  useCancelOrder,
+  useSelectTransporter,
+  useTrackingInfo,
+  getOrderRole,
+  getOrderStatusLabel,
+  getOrderStatusColor,
+  Order,
+  TrackingUpdate,
+} from '../hooks/useOrderManager';
+import { useOrderBids, TransportBid } from '../hooks/useTransportationManager';
+import {
+  usePaymentList,
+  usePaymentProcessorEvents,
+  useRaiseDispute,
+  useDispute,
+  useDisputePeriod,
+  getPaymentStatusLabel,
+  getPaymentStatusColor,
+  Payment,
+  Dispute,
+} from '../hooks/usePaymentProcessor';
+import { uploadDisputeEvidence } from '../utils/ipfs';
+import { getErrorMessage, formatAddress, formatDate } from '../utils';
+import { ORDER_STATUS, PAYMENT_STATUS, VALIDATION_LIMITS } from '../config/constants';
+import CurrencyDisplay from '../components/CurrencyDisplay';
+import LoadingSpinner from '../components/LoadingSpinner';
+import DisputeEvidenceView from '../components/DisputeEvidenceView';
+
+type OrderRole = 'buyer' | 'farmer' | 'transporter';
+type OrderAction = 'pay' | 'select' | 'confirm' | 'ship' | 'track' | 'deliver' | 'complete' | 'cancel' | 'dispute';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Fulfilment steps shown on the order timeline, in on-chain status order
+const TIMELINE_STEPS = [
+  ORDER_STATUS.CREATED,
+  ORDER_STATUS.PAID,
+  ORDER_STATUS.CONFIRMED,
+  ORDER_STATUS.IN_TRANSIT,
+  ORDER_STATUS.DELIVERED,
+  ORDER_STATUS.COMPLETED,
+];
+
+const ACTION_LABELS: Record<OrderAction, string> = {
+  pay: 'Pay into Escrow',
+  select: 'Select Transporter',
+  confirm: 'Confirm Order',
+  ship: 'Mark as Shipped',
+  track: 'Add Tracking Update',
+  deliver: 'Mark Delivered',
+  complete: 'Confirm Receipt',
+  cancel: 'Cancel Order',
+  dispute: 'Open Dispute',
+};
+
+const ROLE_LABELS: Record<OrderRole, string> = {
+  buyer: 'Buyer',
+  farmer: 'Farmer',
+  transporter: 'Transporter',
+};
+
+// Actions the connected account may take on an order at its current status
+const getAvailableActions = (order: Order, role: OrderRole | null): OrderAction[] => {
+  const hasTransporter = order.transporter !== ZERO_ADDRESS;
+
+  switch (order.status) {
+    case ORDER_STATUS.CREATED:
+      return role === 'buyer' ? ['pay', 'cancel'] : [];
+    case ORDER_STATUS.PAID:
+      if (role === 'farmer') return ['confirm'];
+      if (role === 'buyer') return ['cancel'];
+      return [];
+    case ORDER_STATUS.CONFIRMED:
+      return role === 'transporter' && hasTransporter ? ['ship'] : [];
+    case ORDER_STATUS.IN_TRANSIT:
+      return role === 'transporter' ? ['track', 'deliver'] : [];
+    case ORDER_STATUS.DELIVERED:
+      return role === 'buyer' ? ['complete'] : [];
+    default:
+      return [];
+  }
+};
+
+// Buyers and farmers can dispute escrowed orders until the dispute period runs out
+const canOpenDispute = (
+  order: Order,
+  role: OrderRole | null,
+  payment: Payment | undefined,
+  disputePeriod: bigint | undefined
+): boolean => {
+  if (role !== 'buyer' && role !== 'farmer') return false;
+  if (!payment || payment.status !== PAYMENT_STATUS.ESCROWED) return false;
+  if (order.status < ORDER_STATUS.PAID || order.status > ORDER_STATUS.DELIVERED) return false;
+  if (disputePeriod === undefined) return true;
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  return now <= payment.escrowedAt + disputePeriod;
+};
+
+// Short description of who the order is waiting on
+const getWaitingOn = (order: Order): string | null => {
+  switch (order.status) {
+    case ORDER_STATUS.CREATED:
+      return 'Waiting for the buyer to pay';
+    case ORDER_STATUS.PAID:
+      return 'Waiting for the farmer to confirm';
+    case ORDER_STATUS.CONFIRMED:
+      return order.transporter === ZERO_ADDRESS
+        ? 'Waiting for a transporter to be assigned'
+        : 'Waiting for the transporter to collect';
+    case ORDER_STATUS.IN_TRANSIT:
+      return 'On its way to the delivery location';
+    case ORDER_STATUS.DELIVERED:
+      return 'Waiting for the buyer to confirm receipt';
+    default:
+      return null;
+  }
+};
+
+const OrderTimeline: React.FC<{ status: number }> = ({ status }) => {
+  const isHalted = status === ORDER_STATUS.CANCELLED || status === ORDER_STATUS.DISPUTED;
+
+  return (
+    <div className="flex items-center">
+      {TIMELINE_STEPS.map((step, index) => {
+        const isReached = !isHalted && status >= step;
+        const isCurrent = !isHalted && status === step;
+
+        return (
+          <React.Fragment key={step}>
+            <div className="flex flex-col items-center min-w-0">
+              <div
+                className={`h-7 w-7 rounded-full flex items-center justify-center text-xs font-bold ${
+                  isReached ? 'bg-green-600 text-white' : 'bg-gray-200 text-gray-500'
+                } ${isCurrent ? 'ring-4 ring-green-100' : ''}`}
+              >
+                {isReached ? <CheckCircle className="h-4 w-4" /> : index + 1}
+              </div>
+              <span className={`mt-1 text-xs text-center ${isReached ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                {getOrderStatusLabel(step)}
+              </span>
+            </div>
+            {index < TIMELINE_STEPS.length - 1 && (
+              <div className={`flex-1 h-0.5 mx-1 mb-5 ${!isHalted && status > step ? 'bg-green-600' : 'bg-gray-200'}`} />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+// Transport bids a buyer can choose from while an order has no transporter
+const TransportBidPicker: React.FC<{
+  orderId: bigint;
+  onSelect: (bid: TransportBid) => void;
+  disabled: boolean;
+}> = ({ orderId, onSelect, disabled }) => {
+  const { data } = useOrderBids(orderId);
+  const bids = ((data as TransportBid[] | undefined) || []).filter(bid => !bid.accepted);
+
+  if (bids.length === 0) {
+    return <p className="text-sm text-gray-500">No transport bids yet. Registered transporters will see this order on their job board.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {[...bids].sort((a, b) => Number(a.price - b.price)).map(bid => (
+        <div key={bid.transporter} className="flex items-center justify-between p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="text-sm">
+            <p className="font-mono text-gray-900">{formatAddress(bid.transporter)}</p>
+            <p className="text-xs text-gray-500">Delivery in {Number(bid.estimatedDeliveryTime) / 3600}h</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-semibold text-gray-900">{formatEther(bid.price)} ETH</span>
+            <button
+              onClick={() => onSelect(bid)}
+              disabled={disabled}
+              className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Accept
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Dispute raised on an order's payment and, once settled, its outcome
+const DisputeOutcome: React.FC<{ paymentId: bigint }> = ({ paymentId }) => {
+  const { data } = useDispute(paymentId);
+  const dispute = data as Dispute | undefined;
+
+  if (!dispute || dispute.raisedAt === 0n) return null;
+
+  return (
+    <div className={`p-4 rounded-lg border space-y-3 ${
+      dispute.resolved ? 'bg-gray-50 border-gray-200' : 'bg-orange-50 border-orange-200'
+    }`}>
+      <div className="flex items-center gap-2 text-sm">
+        <Gavel className="h-4 w-4 text-orange-600" />
+        <span className="font-semibold text-gray-900">
+          Dispute opened by {formatAddress(dispute.raisedBy)} on {formatDate(Number(dispute.raisedAt))}
+        </span>
+      </div>
+      <p className="text-sm text-gray-700">{dispute.reason}</p>
+      <DisputeEvidenceView evidenceUri={dispute.evidenceUri} />
+      {dispute.resolved ? (
+        <div className="pt-3 border-t border-gray-200 text-sm">
+          <p className="font-semibold text-gray-900">
+            Resolved {formatDate(Number(dispute.resolvedAt))}: {dispute.refunded ? 'payment refunded to the buyer' : 'payment released to the farmer'}
+          </p>
+          {dispute.resolution && <p className="text-gray-700 mt-1">{dispute.resolution}</p>}
+        </div>
+      ) : (
+        <p className="text-xs text-orange-800">Awaiting review by an administrator.</p>
+      )}
+    </div>
+  );
+};
+
+const OrderTrackingHistory: React.FC<{ orderId: bigint }> = ({ orderId }) => {
+  const { data, isLoading } = useTrackingInfo(orderId);
+  const updates = (data as TrackingUpdate[] | undefined) || [];
+
+  if (isLoading) {
+    return <LoadingSpinner size="sm" text="Loading tracking history..." className="py-2" />;
+  }
+
+  if (updates.length === 0) {
+    return <p className="text-sm text-gray-500">No tracking updates yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {updates.map((update, index) => (
+        <li key={index} className="flex items-start gap-2 text-sm">
+          <Navigation className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="text-gray-900">
+              <span className="font-medium">{update.location}</span>
+              {update.statusUpdate && <span className="text-gray-600"> - {update.statusUpdate}</span>}
+            </p>
+            <p className="text-xs text-gray-500">
+              {formatDate(Number(update.timestamp))} by {formatAddress(update.updatedBy)}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const OrdersPage: React.FC = () => {
+  const { account } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const { getUserOrders, isLoading } = useOrderList();
+  const { getPaymentsByIds } = usePaymentList();
+
+  const { writeAsync: processPayment } = useProcessPayment();
+  const { writeAsync: selectTransporter } = useSelectTransporter();
+  const { writeAsync: confirmOrder } = useConfirmOrder();
+  const { writeAsync: shipOrder } = useShipOrder();
+  const { writeAsync: updateTracking } = useUpdateTracking();
+  const { writeAsync: markDelivered } = useMarkDelivered();
+  const { writeAsync: completeOrder } = useCompleteOrder();
+  const { writeAsync: cancelOrder } = useCancelOrder();
+  const { writeAsync: raiseDispute } = useRaiseDispute();
+  const { data: disputePeriodData } = useDisputePeriod();
+  const disputePeriod = disputePeriodData as bigint | undefined;
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [payments, setPayments] = useState<Record<string, Payment>>({});
+  const [roleFilter, setRoleFilter] = useState<OrderRole | ''>('');
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ orderId: string; action: OrderAction } | null>(null);
+  const [inputModal, setInputModal] = useState<{ order: Order; action: 'ship' | 'track' } | null>(null);
+  const [modalLocation, setModalLocation] = useState('');
+  const [modalStatusUpdate, setModalStatusUpdate] = useState('');
+  const [disputeOrder, setDisputeOrder] = useState<Order | null>(null);
+  const [disputeStatement, setDisputeStatement] = useState('');
+  const [disputeFiles, setDisputeFiles] = useState<File[]>([]);
+
+  const loadOrders = useCallback(async () => {
+    if (!account) return;
+
+    const userOrders = await getUserOrders(account);
+    setOrders(userOrders);
+    setPayments(await getPaymentsByIds(userOrders.map(order => order.paymentId)));
+  }, [account, getUserOrders, getPaymentsByIds]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const handleOrderEvent = useCallback(() => { loadOrders(); }, [loadOrders]);
+
+  // Other parties move orders forward, so refresh whenever fulfilment advances on-chain
+  useOrderManagerEvents('PaymentProcessed', handleOrderEvent, !!account);
+  useOrderManagerEvents('TransporterSelected', handleOrderEvent, !!account);
+  useOrderManagerEvents('OrderConfirmed', handleOrderEvent, !!account);
+  useOrderManagerEvents('OrderShipped', handleOrderEvent, !!account);
+  useOrderManagerEvents('OrderDelivered', handleOrderEvent, !!account);
+  useOrderManagerEvents('OrderCompleted', handleOrderEvent, !!account);
+  useOrderManagerEvents('OrderCancelled', handleOrderEvent, !!account);
+  usePaymentProcessorEvents('DisputeRaised', handleOrderEvent, !!account);
+  usePaymentProcessorEvents('DisputeResolved', handleOrderEvent, !!account);
+
+  const ordersWithRole = useMemo(() => {
+    return orders.map(order => ({ order, role: getOrderRole(order, account) }));
+  }, [orders, account]);
+
+  const visibleOrders = roleFilter
+    ? ordersWithRole.filter(({ role }) => role === roleFilter)
+    : ordersWithRole;
+
+  const roleCounts = useMemo(() => {
+    return ordersWithRole.reduce<Record<string, number>>((counts, { role }) => {
+      if (role) counts[role] = (counts[role] || 0) + 1;
+      return counts;
+    }, {});
+  }, [ordersWithRole]);
+
+  const runAction = async (order: Order, action: OrderAction, submit: () => Promise<`0x${string}`>) => {
+    const orderId = order.orderId.toString();
+    setPendingAction({ orderId, action });
+
+    try {
+      const hash = await submit();
+      if (publicClient) {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Transaction reverted');
+        }
+      }
+
+      addToast(`Order #${orderId}: ${ACTION_LABELS[action]} succeeded`, 'success');
+      await loadOrders();
+    } catch (error) {
+      console.error(`Failed to ${action} order ${orderId}:`, error);
+      addToast(`Order #${orderId}: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleAction = (order: Order, action: OrderAction) => {
+    const orderId = order.orderId;
+
+    switch (action) {
+      case 'pay':
+        return runAction(order, action, () => processPayment({ orderId, value: order.totalAmount }));
+      case 'confirm':
+        return runAction(order, action, () => confirmOrder({ orderId }));
+      case 'deliver':
+        return runAction(order, action, () => markDelivered({ orderId }));
+      case 'complete':
+        return runAction(order, action, () => completeOrder({ orderId }));
+      case 'cancel':
+        if (!window.confirm(`Cancel order #${orderId.toString()}? Any escrowed payment will be refunded.`)) return;
+        return runAction(order, action, () => cancelOrder({ orderId }));
+      case 'dispute':
+        setDisputeStatement('');
+        setDisputeFiles([]);
+        setDisputeOrder(order);
+        return;
+      case 'select':
+        return;
+      case 'ship':
+      case 'track':
+        setModalLocation('');
+        setModalStatusUpdate('');
+        setInputModal({ order, action });
+        return;
+    }
+  };
+
+  const handleSelectBid = (order: Order, bid: TransportBid) => {
+    return runAction(order, 'select', () => selectTransporter({
+      orderId: order.orderId,
+      transporter: bid.transporter,
+      transportPrice: bid.price,
+    }));
+  };
+
+  const handleEvidenceFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    const oversized = files.filter(file => file.size > VALIDATION_LIMITS.MAX_IMAGE_SIZE_BYTES);
+
+    if (oversized.length > 0) {
+      addToast(`Files must be under ${VALIDATION_LIMITS.MAX_IMAGE_SIZE_MB}MB: ${oversized.map(file => file.name).join(', ')}`, 'warning');
+    }
+
+    setDisputeFiles(files.filter(file => file.size <= VALIDATION_LIMITS.MAX_IMAGE_SIZE_BYTES));
+  };
+
+  const handleDisputeSubmit = async () => {
+    if (!disputeOrder || !account) return;
+
+    const order = disputeOrder;
+    const statement = disputeStatement.trim();
+    setDisputeOrder(null);
+
+    await runAction(order, 'dispute', async () => {
+      const evidenceUri = await uploadDisputeEvidence({
+        orderId: order.orderId.toString(),
+        statement,
+        files: disputeFiles,
+        submittedBy: account,
+      });
+
+      return raiseDispute({ paymentId: order.paymentId, reason: statement, evidenceUri });
+    });
+  };
+
+  const handleModalSubmit = async () => {
+    if (!inputModal) return;
+
+    const { order, action } = inputModal;
+    setInputModal(null);
+
+    if (action === 'ship') {
+      await runAction(order, action, () => shipOrder({ orderId: order.orderId, pickupLocation: modalLocation.trim() }));
+    } else {
+      await runAction(order, action, () => updateTracking({
+        orderId: order.orderId,
+        currentLocation: modalLocation.trim(),
+        statusUpdate: modalStatusUpdate.trim(),
+      }));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">My Orders</h1>
+            <p className="text-sm text-gray-600">
+              Track payment and fulfilment for orders you are buying, selling or delivering
+            </p>
+          </div>
+          <button
+            onClick={loadOrders}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span className="text-sm">{isLoading ? 'Refreshing...' : 'Refresh'}</span>
+          </button>
+        </div>
+
+        {/* Role Filter */}
+        <div className="flex flex-wrap gap-2">
+          {(['', 'buyer', 'farmer', 'transporter'] as const).map(role => (
+            <button
+              key={role || 'all'}
+              onClick={() => setRoleFilter(role)}
+              className={`px-4 py-2 text-sm rounded-lg transition-colors ${
+                roleFilter === role
+                  ? 'bg-green-600 text-white'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {role ? `As ${ROLE_LABELS[role]}` : 'All Orders'}
+              <span className="ml-2 text-xs opacity-75">
+                {role ? roleCounts[role] || 0 : orders.length}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* Orders */}
+        {isLoading && orders.length === 0 ? (
+          <LoadingSpinner text="Loading orders..." className="py-12" />
+        ) : visibleOrders.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md mx-auto border border-gray-100">
+              <div className="h-16 w-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                <ClipboardList className="h-8 w-8 text-gray-400" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">No orders yet</h3>
+              <p className="text-gray-600">
+                Orders you place, receive or deliver will appear here.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visibleOrders.map(({ order, role }) => {
+              const orderId = order.orderId.toString();
+              const payment = payments[order.paymentId.toString()];
+              const actions = canOpenDispute(order, role, payment, disputePeriod)
+                ? [...getAvailableActions(order, role), 'dispute' as const]
+                : getAvailableActions(order, role);
+              const waitingOn = getWaitingOn(order);
+              const isExpanded = expandedOrderId === orderId;
+              const canSelectTransporter = role === 'buyer'
+                && order.transporter === ZERO_ADDRESS
+                && order.status <= ORDER_STATUS.CONFIRMED;
+
+              return (
+                <div key={orderId} className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 space-y-5">
+                  {/* Order Summary */}
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                    <div>
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <h3 className="text-lg font-semibold text-gray-900">Order #{orderId}</h3>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${getOrderStatusColor(order.status)}`}>
+                          {getOrderStatusLabel(order.status)}
+                        </span>
+                        {role && (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                            {ROLE_LABELS[role]}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                        <span className="flex items-center gap-1">
+                          <Package className="h-4 w-4" />
+                          Batch #{order.tokenId.toString()}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Scale className="h-4 w-4" />
+                          {order.quantity.toString()} kg
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <MapPin className="h-4 w-4" />
+                          {order.deliveryLocation}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">
+                        Placed {formatDate(Number(order.createdAt))}
+                        {order.requestedDeliveryDate > 0n && ` · Requested by ${formatDate(Number(order.requestedDeliveryDate))}`}
+                      </p>
+                    </div>
+
+                    <div className="text-right">
+                      <CurrencyDisplay amount={Number(formatEther(order.totalAmount))} currency="ETH" compact />
+                      <div className="mt-2 flex items-center justify-end gap-2">
+                        <Lock className="h-4 w-4 text-gray-400" />
+                        {payment ? (
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${getPaymentStatusColor(payment.status)}`}>
+                            Escrow: {getPaymentStatusLabel(payment.status)}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-gray-500">Not paid</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Timeline */}
+                  <OrderTimeline status={order.status} />
+
+                  {(order.status === ORDER_STATUS.CANCELLED || order.status === ORDER_STATUS.DISPUTED) && (
+                    <div className={`p-3 rounded-lg border flex items-center gap-2 text-sm ${getOrderStatusColor(order.status)}`}>
+                      <AlertTriangle className="h-4 w-4" />
+                      {order.status === ORDER_STATUS.CANCELLED
+                        ? 'This order was cancelled.'
+                        : 'This order is under dispute. Escrowed funds are held until an admin resolves it.'}
+                    </div>
+                  )}
+
+                  {payment && payment.status !== PAYMENT_STATUS.PENDING && payment.status !== PAYMENT_STATUS.ESCROWED && (
+                    <DisputeOutcome paymentId={order.paymentId} />
+                  )}
+
+                  {canSelectTransporter && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+                        <Truck className="h-4 w-4" />
+                        Transport Bids
+                      </h4>
+                      <TransportBidPicker
+                        orderId={order.orderId}
+                        onSelect={(bid) => handleSelectBid(order, bid)}
+                        disabled={pendingAction !== null}
+                      />
+                    </div>
+                  )}
+
+                  {/* Next Action */}
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-4 border-t border-gray-100">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setExpandedOrderId(isExpanded ? null : orderId)}
+                        className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        Details
+                      </button>
+                      {waitingOn && actions.length === 0 && (
+                        <span className="text-sm text-gray-500">· {waitingOn}</span>
+                      )}
+                    </div>
+
+                    {actions.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {actions.map(action => {
+                          const isPending = pendingAction?.orderId === orderId && pendingAction.action === action;
+                          return (
+                            <button
+                              key={action}
+                              onClick={() => handleAction(order, action)}
+                              disabled={pendingAction !== null}
+                              className={`px-4 py-2 text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                                action === 'cancel' || action === 'dispute'
+                                  ? 'text-red-600 border border-red-200 hover:bg-red-50'
+                                  : 'bg-green-600 text-white hover:bg-green-700'
+                              }`}
+                            >
+                              {isPending ? 'Processing...' : ACTION_LABELS[action]}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Details */}
+                  {isExpanded && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-4 bg-gray-50 rounded-lg">
+                      <div className="space-y-2 text-sm">
+                        <h4 className="font-semibold text-gray-900">Parties</h4>
+                        <p className="text-gray-600">Buyer: <span className="font-mono">{formatAddress(order.buyer)}</span></p>
+                        <p className="text-gray-600">Farmer: <span className="font-mono">{formatAddress(order.farmer)}</span></p>
+                        <p className="text-gray-600">
+                          Transporter:{' '}
+                          {order.transporter === ZERO_ADDRESS
+                            ? <span className="text-gray-500">Not assigned</span>
+                            : <span className="font-mono">{formatAddress(order.transporter)}</span>}
+                        </p>
+                        {order.pickupLocation && (
+                          <p className="text-gray-600">Pickup: {order.pickupLocation}</p>
+                        )}
+
+                        <h4 className="font-semibold text-gray-900 pt-2">Cost Breakdown</h4>
+                        <div className="flex justify-between text-gray-600">
+                          <span>Crop</span>
+                          <span>{formatEther(order.cropPrice)} ETH</span>
+                        </div>
+                        <div className="flex justify-between text-gray-600">
+                          <span>Transport</span>
+                          <span>{formatEther(order.transportPrice)} ETH</span>
+                        </div>
+                        <div className="flex justify-between text-gray-600">
+                          <span>Marketplace fee</span>
+                          <span>{formatEther(order.marketplaceFee)} ETH</span>
+                        </div>
+                        <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+                          <span>Total</span>
+                          <span>{formatEther(order.totalAmount)} ETH</span>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <h4 className="font-semibold text-gray-900 text-sm flex items-center gap-2">
+                          <Truck className="h-4 w-4" />
+                          Tracking History
+                        </h4>
+                        <OrderTrackingHistory orderId={order.orderId} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Dispute Modal */}
+      {disputeOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-xl shadow-xl max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Open Dispute · Order #{disputeOrder.orderId.toString()}
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Escrowed funds stay locked while an administrator reviews your statement and evidence.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Statement</label>
+                <textarea
+                  rows={4}
+                  value={disputeStatement}
+                  onChange={(e) => setDisputeStatement(e.target.value)}
+                  placeholder="Describe what went wrong with this order"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Evidence Photos</label>
+                <label className="flex items-center justify-center gap-2 px-3 py-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-green-500 transition-colors">
+                  <Upload className="h-5 w-5 text-gray-400" />
+                  <span className="text-sm text-gray-600">
+                    {disputeFiles.length > 0
+                      ? `${disputeFiles.length} file${disputeFiles.length !== 1 ? 's' : ''} selected`
+                      : 'Choose photos'}
+                  </span>
+                  <input type="file" accept="image/*" multiple onChange={handleEvidenceFiles} className="hidden" />
+                </label>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setDisputeOrder(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDisputeSubmit}
+                disabled={!disputeStatement.trim()}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                Submit Dispute
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Ship / Tracking Modal */}
+      {inputModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-xl shadow-xl max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {ACTION_LABELS[inputModal.action]} · Order #{inputModal.order.orderId.toString()}
+            </h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {inputModal.action === 'ship' ? 'Pickup Location' : 'Current Location'}
+                </label>
+                <input
+                  type="text"
+                  value={modalLocation}
+                  onChange={(e) => setModalLocation(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              {inputModal.action === 'track' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Status Update</label>
+                  <input
+                    type="text"
+                    value={modalStatusUpdate}
+                    onChange={(e) => setModalStatusUpdate(e.target.value)}
+                    placeholder="e.g., Passed Naivasha checkpoint"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setInputModal(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleModalSubmit}
+                disabled={!modalLocation.trim()}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                Submit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrdersPage;
@@ -0,0 +1,507 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePublicClient } from 'wagmi';
+import { formatEther, parseEther, Hash } from 'viem';
+import { Fuel, RefreshCw, AlertTriangle, Wallet, Lock, Unlock, Plus, Trash2, BarChart3 } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import {
+  usePaymasterEntryPoint,
+  usePaymasterStake,
+  usePaymasterActivity,
+  usePaymasterEvents,
+  useSetOperationStatus,
+  useSetSenderStatus,
+  useDepositToPaymaster,
+  useWithdrawDeposit,
+  useAddStake,
+  useUnlockStake,
+  useWithdrawStake,
+  PaymasterRules,
+  SponsoredOperation,
+} from '../hooks/usePaymaster';
+import { getKnownOperations } from '../utils/userOperations';
+import { getErrorMessage, formatAddress, formatDate, formatTxHash } from '../utils';
+import LoadingSpinner from '../components/LoadingSpinner';
+import SponsoredOperationsChart from '../components/SponsoredOperationsChart';
+
+type RuleKind = 'operations' | 'senders';
+
+const DEFAULT_UNSTAKE_DELAY_SEC = 86400;
+
+// Helper function to split pasted input into entries, one per line or comma separated
+const parseEntries = (text: string): string[] => {
+  return Array.from(new Set(text.split(/[\s,]+/).map(entry => entry.trim()).filter(Boolean)));
+};
+
+const PaymasterAdminPage: React.FC = () => {
+  const { hasRole, isConnected, account } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+
+  const { data: entryPoint } = usePaymasterEntryPoint();
+  const { data: stakeInfo, refetch: refetchStake } = usePaymasterStake(entryPoint as string | undefined);
+  const { isLoading, getRules, getSponsoredOperations } = usePaymasterActivity();
+
+  const { writeAsync: setOperationStatus } = useSetOperationStatus();
+  const { writeAsync: setSenderStatus } = useSetSenderStatus();
+  const { writeAsync: depositToPaymaster } = useDepositToPaymaster();
+  const { writeAsync: withdrawDeposit } = useWithdrawDeposit();
+  const { writeAsync: addStake } = useAddStake();
+  const { writeAsync: unlockStake } = useUnlockStake();
+  const { writeAsync: withdrawStake } = useWithdrawStake();
+
+  const [rules, setRules] = useState<PaymasterRules>({ operations: [], senders: [] });
+  const [sponsoredOperations, setSponsoredOperations] = useState<SponsoredOperation[]>([]);
+  const [selected, setSelected] = useState<Record<RuleKind, string[]>>({ operations: [], senders: [] });
+  const [drafts, setDrafts] = useState<Record<RuleKind, string>>({ operations: '', senders: '' });
+  const [depositAmount, setDepositAmount] = useState('');
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+  const [stakeAmount, setStakeAmount] = useState('');
+  const [unstakeDelay, setUnstakeDelay] = useState(String(DEFAULT_UNSTAKE_DELAY_SEC));
+  const [withdrawAddress, setWithdrawAddress] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const isAdmin = hasRole('admin');
+
+  const knownOperations = useMemo(() => getKnownOperations(), []);
+  const operationLabels = useMemo(
+    () => new Map(knownOperations.map(operation => [operation.selector, `${operation.contract}.${operation.functionName}`])),
+    [knownOperations]
+  );
+
+  const loadActivity = useCallback(async () => {
+    const [nextRules, operations] = await Promise.all([getRules(), getSponsoredOperations()]);
+    setRules(nextRules);
+    setSponsoredOperations(operations);
+    setSelected({ operations: [], senders: [] });
+  }, [getRules, getSponsoredOperations]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadActivity();
+    }
+  }, [isAdmin, loadActivity]);
+
+  useEffect(() => {
+    if (account && !withdrawAddress) {
+      setWithdrawAddress(account);
+    }
+  }, [account, withdrawAddress]);
+
+  const handlePaymasterEvent = useCallback(() => { loadActivity(); }, [loadActivity]);
+
+  usePaymasterEvents('OperationStatusUpdated', handlePaymasterEvent, isAdmin);
+  usePaymasterEvents('SenderStatusUpdated', handlePaymasterEvent, isAdmin);
+  usePaymasterEvents('UserOperationSponsored', handlePaymasterEvent, isAdmin);
+
+  const refreshAll = () => {
+    refetchStake();
+    loadActivity();
+  };
+
+  // Send one admin transaction, wait for it to be mined and refresh the console
+  const runTransaction = async (action: string, successMessage: string, send: () => Promise<Hash>) => {
+    setPendingAction(action);
+    try {
+      const hash = await send();
+
+      if (publicClient) {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Transaction reverted');
+        }
+      }
+
+      addToast(`${successMessage} (${formatTxHash(hash)})`, 'success');
+      refreshAll();
+      return true;
+    } catch (error) {
+      console.error(`Paymaster ${action} failed:`, error);
+      addToast(`Failed to ${action}: ${getErrorMessage(error)}`, 'error');
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  // Helper function to resolve a pasted operation (selector, function name or Contract.function) to selectors
+  const resolveOperations = (entries: string[]): string[] | null => {
+    const selectors: string[] = [];
+    for (const entry of entries) {
+      if (/^0x[0-9a-fA-F]{8}$/.test(entry)) {
+        selectors.push(entry.toLowerCase());
+        continue;
+      }
+
+      const matches = knownOperations.filter(operation =>
+        operation.functionName === entry || `${operation.contract}.${operation.functionName}` === entry
+      );
+      if (matches.length === 0) {
+        addToast(`Unknown function "${entry}". Use a 4-byte selector or a known function name.`, 'error');
+        return null;
+      }
+      selectors.push(...matches.map(operation => operation.selector));
+    }
+    return Array.from(new Set(selectors));
+  };
+
+  const updateRules = async (kind: RuleKind, entries: string[], allowed: boolean) => {
+    if (entries.length === 0) {
+      addToast('Nothing to update', 'warning');
+      return;
+    }
+
+    const verb = allowed ? 'allow' : 'revoke';
+    const succeeded = kind === 'operations'
+      ? await runTransaction(`${verb} operations`, `${entries.length} operation(s) ${allowed ? 'allowed' : 'revoked'}`, () =>
+        setOperationStatus({ operations: entries, allowed }))
+      : await runTransaction(`${verb} senders`, `${entries.length} sender(s) ${allowed ? 'allowed' : 'revoked'}`, () =>
+        setSenderStatus({ senders: entries, allowed }));
+
+    if (succeeded && allowed) {
+      setDrafts(prev => ({ ...prev, [kind]: '' }));
+    }
+  };
+
+  const handleAllow = (kind: RuleKind) => {
+    const entries = parseEntries(drafts[kind]);
+    const resolved = kind === 'operations' ? resolveOperations(entries) : entries;
+    if (resolved) {
+      updateRules(kind, resolved, true);
+    }
+  };
+
+  const toggleSelected = (kind: RuleKind, entry: string) => {
+    setSelected(prev => ({
+      ...prev,
+      [kind]: prev[kind].includes(entry) ? prev[kind].filter(item => item !== entry) : [...prev[kind], entry],
+    }));
+  };
+
+  const handleDeposit = () => {
+    let amount: bigint;
+    try {
+      amount = parseEther(depositAmount);
+    } catch {
+      addToast('Enter a valid deposit amount in ETH', 'error');
+      return;
+    }
+    runTransaction('deposit', `Deposited ${depositAmount} ETH`, () => depositToPaymaster({ amount }))
+      .then(succeeded => succeeded && setDepositAmount(''));
+  };
+
+  const handleWithdrawDeposit = () => {
+    let amount: bigint;
+    try {
+      amount = parseEther(withdrawAmount);
+    } catch {
+      addToast('Enter a valid withdrawal amount in ETH', 'error');
+      return;
+    }
+    if (!window.confirm(`Withdraw ${withdrawAmount} ETH of gas deposit to ${withdrawAddress}?`)) return;
+    runTransaction('withdraw deposit', `Withdrew ${withdrawAmount} ETH`, () => withdrawDeposit({ withdrawAddress, amount }))
+      .then(succeeded => succeeded && setWithdrawAmount(''));
+  };
+
+  const handleAddStake = () => {
+    let amount: bigint;
+    try {
+      amount = parseEther(stakeAmount);
+    } catch {
+      addToast('Enter a valid stake amount in ETH', 'error');
+      return;
+    }
+    runTransaction('add stake', `Staked ${stakeAmount} ETH`, () => addStake({ amount, unstakeDelaySec: Number(unstakeDelay) }))
+      .then(succeeded => succeeded && setStakeAmount(''));
+  };
+
+  const handleUnlockStake = () => {
+    if (!window.confirm('Unlock the stake? The paymaster cannot sponsor operations that require stake once it is unlocked.')) return;
+    runTransaction('unlock stake', 'Stake unlock started', () => unlockStake());
+  };
+
+  const handleWithdrawStake = () => {
+    if (!window.confirm(`Withdraw the full stake to ${withdrawAddress}?`)) return;
+    runTransaction('withdraw stake', 'Stake withdrawn', () => withdrawStake({ withdrawAddress }));
+  };
+
+  const totalGasSponsored = sponsoredOperations.reduce((sum, operation) => sum + operation.actualGasCost, 0n);
+  const uniqueSenders = new Set(sponsoredOperations.map(operation => operation.sender.toLowerCase())).size;
+  const nowSec = Math.floor(Date.now() / 1000);
+  const canWithdrawStake = !!stakeInfo && !stakeInfo.staked && stakeInfo.stake > 0n && stakeInfo.withdrawTime <= nowSec;
+
+  if (isConnected && !isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg border border-yellow-200 p-8 text-center">
+          <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Admin Role Required</h2>
+          <p className="text-gray-600">
+            Only administrators can manage gas sponsorship.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderRuleList = (kind: RuleKind, title: string, placeholder: string) => {
+    const entries = rules[kind];
+
+    return (
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+          <span className="text-sm text-gray-500">{entries.length} allowed</span>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing is allowed yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {entries.map(entry => (
+              <label key={entry} className="flex items-center gap-3 px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected[kind].includes(entry)}
+                  onChange={() => toggleSelected(kind, entry)}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                <span className="font-mono text-gray-900">{kind === 'senders' ? formatAddress(entry, 10, 8) : entry}</span>
+                {kind === 'operations' && (
+                  <span className="text-gray-500">{operationLabels.get(entry as `0x${string}`) || 'Unknown function'}</span>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={() => updateRules(kind, selected[kind], false)}
+          disabled={pendingAction !== null || selected[kind].length === 0}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Trash2 className="h-4 w-4" />
+          Revoke selected ({selected[kind].length})
+        </button>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Allow more</label>
+          <textarea
+            rows={3}
+            value={drafts[kind]}
+            onChange={(e) => setDrafts(prev => ({ ...prev, [kind]: e.target.value }))}
+            placeholder={placeholder}
+            className="w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          />
+          <button
+            onClick={() => handleAllow(kind)}
+            disabled={pendingAction !== null || !drafts[kind].trim()}
+            className="mt-2 flex items-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Allow
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Gas Sponsorship</h1>
+            <p className="text-sm text-gray-600">
+              Fund the paymaster and control which operations and accounts it pays for
+            </p>
+          </div>
+          <button
+            onClick={refreshAll}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span className="text-sm">{isLoading ? 'Refreshing...' : 'Refresh'}</span>
+          </button>
+        </div>
+
+        {/* Deposit and stake */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-5">
+            <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+              <Fuel className="h-4 w-4" /> Gas deposit
+            </div>
+            <p className="text-2xl font-bold text-gray-900">
+              {stakeInfo ? `${formatEther(stakeInfo.deposit)} ETH` : '—'}
+            </p>
+            {stakeInfo && stakeInfo.deposit === 0n && (
+              <p className="text-xs text-red-600 mt-1">Empty - every write falls back to user-paid gas</p>
+            )}
+          </div>
+          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-5">
+            <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+              {stakeInfo?.staked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />} Stake
+            </div>
+            <p className="text-2xl font-bold text-gray-900">
+              {stakeInfo ? `${formatEther(stakeInfo.stake)} ETH` : '—'}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {!stakeInfo
+                ? 'Loading...'
+                : stakeInfo.staked
+                  ? `Locked · ${stakeInfo.unstakeDelaySec}s unstake delay`
+                  : stakeInfo.withdrawTime > 0
+                    ? `Unlocking · withdrawable from ${formatDate(stakeInfo.withdrawTime)}`
+                    : 'Not staked'}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-5">
+            <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+              <BarChart3 className="h-4 w-4" /> Sponsored so far
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{sponsoredOperations.length} operations</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {formatEther(totalGasSponsored)} ETH gas · {uniqueSenders} account{uniqueSenders === 1 ? '' : 's'}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Wallet className="h-5 w-5" /> Funds
+          </h2>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Withdrawal address</label>
+            <input
+              type="text"
+              value={withdrawAddress}
+              onChange={(e) => setWithdrawAddress(e.target.value.trim())}
+              placeholder="0x..."
+              className="w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Gas deposit (ETH)</label>
+              <input
+                type="text"
+                value={depositAmount}
+                onChange={(e) => setDepositAmount(e.target.value)}
+                placeholder="0.1"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+              <button
+                onClick={handleDeposit}
+                disabled={pendingAction !== null || !depositAmount}
+                className="w-full px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {pendingAction === 'deposit' ? 'Depositing...' : 'Deposit'}
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Withdraw deposit (ETH)</label>
+              <input
+                type="text"
+                value={withdrawAmount}
+                onChange={(e) => setWithdrawAmount(e.target.value)}
+                placeholder="0.05"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+              <button
+                onClick={handleWithdrawDeposit}
+                disabled={pendingAction !== null || !withdrawAmount || !withdrawAddress}
+                className="w-full px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {pendingAction === 'withdraw deposit' ? 'Withdrawing...' : 'Withdraw'}
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Add stake (ETH) / unstake delay (s)</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={stakeAmount}
+                  onChange={(e) => setStakeAmount(e.target.value)}
+                  placeholder="0.1"
+                  className="w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+                <input
+                  type="number"
+                  min="1"
+                  value={unstakeDelay}
+                  onChange={(e) => setUnstakeDelay(e.target.value)}
+                  className="w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <button
+                onClick={handleAddStake}
+                disabled={pendingAction !== null || !stakeAmount}
+                className="w-full px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {pendingAction === 'add stake' ? 'Staking...' : 'Add Stake'}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2 border-t border-gray-100">
+            <button
+              onClick={handleUnlockStake}
+              disabled={pendingAction !== null || !stakeInfo?.staked}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm text-yellow-700 border border-yellow-200 rounded-lg hover:bg-yellow-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Unlock className="h-4 w-4" />
+              {pendingAction === 'unlock stake' ? 'Unlocking...' : 'Unlock Stake'}
+            </button>
+            <button
+              onClick={handleWithdrawStake}
+              disabled={pendingAction !== null || !canWithdrawStake || !withdrawAddress}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Wallet className="h-4 w-4" />
+              {pendingAction === 'withdraw stake' ? 'Withdrawing...' : 'Withdraw Stake'}
+            </button>
+          </div>
+        </div>
+
+        {/* Sponsorship rules */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {renderRuleList('operations', 'Sponsored Operations', 'mintNewBatch\nSupplyChainManager.initializeProvenance\n0x12345678')}
+          {renderRuleList('senders', 'Sponsored Accounts', '0x... (one smart account address per line)')}
+        </div>
+
+        {/* Activity */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Sponsored Operations (last 30 days)</h2>
+          {isLoading && sponsoredOperations.length === 0 ? (
+            <LoadingSpinner text="Loading sponsorship activity..." className="py-8" />
+          ) : (
+            <SponsoredOperationsChart operations={sponsoredOperations} />
+          )}
+
+          {sponsoredOperations.length > 0 && (
+            <div className="divide-y divide-gray-100 text-sm">
+              {sponsoredOperations.slice(-10).reverse().map(operation => (
+                <div key={`${operation.transactionHash}-${operation.sender}-${operation.operation}`} className="flex flex-wrap justify-between gap-2 py-2">
+                  <span className="text-gray-900">
+                    {operationLabels.get(operation.operation as `0x${string}`) || operation.operation}
+                  </span>
+                  <span className="font-mono text-gray-600">{formatAddress(operation.sender)}</span>
+                  <span className="text-gray-600">{formatEther(operation.actualGasCost)} ETH</span>
+                  <span className="text-gray-500">{formatDate(Math.floor(operation.timestamp / 1000))}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymasterAdminPage;
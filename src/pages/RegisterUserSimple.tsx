@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Info, UserPlus, Users, Shield, CheckCircle, Package, TrendingUp, MapPin, Calendar, Wallet, Activity, Clock, Hash } from 'lucide-react';
 import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
-import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { useCropBatchToken, getHolderQuantity } from '../hooks/useCropBatchToken';
 import { useUserTokenHistory } from '../hooks/useSupplyChainManager';
+import { useOwnAddresses } from '../hooks/useSponsoredWriteContract';
+import RoleRequestPanel from '../components/RoleRequestPanel';
 
 /**
  * User Profile Component
@@ -14,6 +16,7 @@ import { useUserTokenHistory } from '../hooks/useSupplyChainManager';
 const UserProfile: React.FC = () => {
   const { account, isConnected, userRoles, hasRole } = useWeb3Enhanced();
   const { getAllBatches } = useCropBatchToken();
+  const { resolveOwnAddresses } = useOwnAddresses();
   const { data: userTokenHistory } = useUserTokenHistory(account);
 
   // State for user-specific data
@@ -35,14 +38,15 @@ const UserProfile: React.FC = () => {
     const fetchUserData = async () => {
       setIsLoading(true);
       try {
-        const allBatches = await getAllBatches();
+        const [allBatches, ownAddresses] = await Promise.all([getAllBatches(), resolveOwnAddresses()]);
 
         // Filter batches for this user
         const ownedBatches = allBatches.filter(batch =>
-          batch.owner?.toLowerCase() === account.toLowerCase()
+          getHolderQuantity(batch, account) > 0
         );
+        // Sponsored mints record the smart account as the minter
         const mintedBatches = allBatches.filter(batch =>
-          batch.minter?.toLowerCase() === account.toLowerCase()
+          ownAddresses.includes(batch.minter?.toLowerCase())
         );
 
         // Calculate unique farms user has interacted with
@@ -76,7 +80,7 @@ const UserProfile: React.FC = () => {
     };
 
     fetchUserData();
-  }, [account, isConnected, getAllBatches, userTokenHistory]);
+  }, [account, isConnected, getAllBatches, resolveOwnAddresses, userTokenHistory]);
 
   // Format date helper
   const formatDate = (date: Date | null) => {
@@ -243,6 +247,18 @@ const UserProfile: React.FC = () => {
         </div>
       </div>
 
+      {/* Role Requests */}
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 mb-8">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Role Requests</h2>
+          <p className="text-gray-600">Apply for vetted roles and follow the review of your requests</p>
+        </div>
+
+        <div className="p-6">
+          <RoleRequestPanel notify />
+        </div>
+      </div>
+
       {/* Recent Activity */}
       <div className="bg-white rounded-xl shadow-lg border border-gray-200 mb-8">
         <div className="p-6 border-b border-gray-200">
@@ -278,7 +294,7 @@ const UserProfile: React.FC = () => {
                       {batch.timestamp ? new Date(batch.timestamp * 1000).toLocaleDateString() : 'Unknown date'}
                     </div>
                     <div className="text-xs text-gray-400">
-                      {batch.owner?.toLowerCase() === account?.toLowerCase() ? 'Owned' : 'Minted'}
+                      {getHolderQuantity(batch, account) > 0 ? 'Owned' : 'Minted'}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { usePublicClient, useSignMessage } from 'wagmi';
+import { Hash } from 'viem';
+import { UserCheck, RefreshCw, AlertTriangle, Check, X, FileText, Mail } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import {
+  useRoleRequests,
+  useGrantUserRole,
+  useUserManagementEvents,
+  RoleRequestEntry,
+  RoleRequestStatus,
+} from '../hooks/useUserManagement';
+import { uploadRoleRequestDecision, getRoleDecisionMessage, ipfsToHttp, RoleRequestDecision } from '../utils/ipfs';
+import { getErrorMessage, formatAddress, formatDate } from '../utils';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const STATUS_FILTERS: { id: RoleRequestStatus | 'all'; label: string }[] = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'all', label: 'All' },
+];
+
+const STATUS_BADGES: Record<RoleRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const RoleRequestsPage: React.FC = () => {
+  const { account, isAdmin, isConnected } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+
+  const { isLoading, getRoleRequests } = useRoleRequests();
+  const { writeAsync: grantUserRole } = useGrantUserRole();
+  const { signMessageAsync } = useSignMessage();
+
+  const [requests, setRequests] = useState<RoleRequestEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState<RoleRequestStatus | 'all'>('pending');
+  const [pendingUri, setPendingUri] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setRequests(await getRoleRequests());
+  }, [getRoleRequests]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadRequests();
+    }
+  }, [isAdmin, loadRequests]);
+
+  const handleRoleEvent = useCallback(() => { loadRequests(); }, [loadRequests]);
+
+  useUserManagementEvents('RoleGranted', handleRoleEvent, isAdmin);
+
+  const filteredRequests = statusFilter === 'all'
+    ? requests
+    : requests.filter(request => request.status === statusFilter);
+
+  const pendingCount = requests.filter(request => request.status === 'pending').length;
+
+  // Helper function to wait for a transaction and fail loudly if it reverted
+  const confirmTransaction = async (hash: Hash) => {
+    if (!publicClient) return;
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted');
+    }
+  };
+
+  const roleLabel = (request: RoleRequestEntry) => (request.role === 'farmer' ? 'Farmer' : 'Transporter');
+
+  // Helper function to sign a decision with the admin's wallet and pin it next to the request
+  const recordDecision = async (request: RoleRequestEntry, decision: RoleRequestDecision['decision'], reason: string) => {
+    if (!account) {
+      throw new Error('Please connect your wallet first');
+    }
+
+    const unsigned = {
+      requestUri: request.uri,
+      applicant: request.applicant,
+      role: request.role,
+      decision,
+      reason,
+      decidedBy: account,
+      decidedAt: Math.floor(Date.now() / 1000),
+    };
+    const signature = await signMessageAsync({ account: account as `0x${string}`, message: getRoleDecisionMessage(unsigned) });
+    await uploadRoleRequestDecision({ ...unsigned, signature });
+  };
+
+  const handleApprove = async (request: RoleRequestEntry) => {
+    if (!window.confirm(`Grant the ${roleLabel(request)} role to ${request.applicant}?`)) return;
+
+    setPendingUri(request.uri);
+    try {
+      await confirmTransaction(await grantUserRole({ user: request.applicant, role: request.role }));
+    } catch (error) {
+      console.error('Role grant failed:', error);
+      addToast(`Failed to grant role: ${getErrorMessage(error)}`, 'error');
+      setPendingUri(null);
+      return;
+    }
+
+    // The role is already granted, so a failed record only loses the reviewer's name
+    try {
+      await recordDecision(request, 'approved', '');
+      addToast(`${roleLabel(request)} role granted to ${formatAddress(request.applicant)}`, 'success');
+    } catch (error) {
+      console.warn('Failed to record approval:', error);
+      addToast(`Role granted, but the approval record could not be saved: ${getErrorMessage(error)}`, 'warning');
+    } finally {
+      setPendingUri(null);
+      loadRequests();
+    }
+  };
+
+  const handleReject = async (request: RoleRequestEntry) => {
+    const reason = window.prompt(`Why is the ${roleLabel(request)} request from ${request.farmName} being rejected?`);
+    if (reason === null) return;
+
+    if (!reason.trim()) {
+      addToast('Please give the applicant a reason for the rejection', 'warning');
+      return;
+    }
+
+    setPendingUri(request.uri);
+    try {
+      await recordDecision(request, 'rejected', reason.trim());
+      addToast(`Request from ${request.farmName} rejected`, 'success');
+    } catch (error) {
+      console.error('Rejection failed:', error);
+      addToast(`Failed to reject request: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingUri(null);
+      loadRequests();
+    }
+  };
+
+  if (isConnected && !isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg border border-yellow-200 p-8 text-center">
+          <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Admin Role Required</h2>
+          <p className="text-gray-600">
+            Only administrators can review role requests.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Role Requests</h1>
+            <p className="text-sm text-gray-600">
+              {pendingCount} request{pendingCount === 1 ? '' : 's'} awaiting review
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+              {STATUS_FILTERS.map(filter => (
+                <button
+                  key={filter.id}
+                  onClick={() => setStatusFilter(filter.id)}
+                  className={`px-3 py-2 text-sm transition-colors ${
+                    statusFilter === filter.id ? 'bg-green-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={loadRequests}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              <span className="text-sm">{isLoading ? 'Refreshing...' : 'Refresh'}</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Requests */}
+        {isLoading && requests.length === 0 ? (
+          <LoadingSpinner text="Loading role requests..." className="py-12" />
+        ) : filteredRequests.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md mx-auto border border-gray-100">
+              <div className="h-16 w-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                <UserCheck className="h-8 w-8 text-gray-400" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">No requests</h3>
+              <p className="text-gray-600">
+                {requests.length === 0 ? 'Nobody has requested a vetted role yet.' : 'No requests match this filter.'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {filteredRequests.map(request => (
+              <div key={request.uri} className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{request.farmName}</h3>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[request.status]}`}>
+                        {request.status}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {roleLabel(request)} · Registration no. {request.registrationNumber}
+                    </p>
+                    <p className="text-sm font-mono text-gray-500">{formatAddress(request.applicant, 10, 8)}</p>
+                    <p className="text-xs text-gray-500">Submitted {formatDate(request.submittedAt)}</p>
+                  </div>
+
+                  {request.status === 'pending' && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleReject(request)}
+                        disabled={pendingUri !== null}
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <X className="h-4 w-4" />
+                        Reject
+                      </button>
+                      <button
+                        onClick={() => handleApprove(request)}
+                        disabled={pendingUri !== null}
+                        className="flex items-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <Check className="h-4 w-4" />
+                        {pendingUri === request.uri ? 'Confirming...' : 'Approve & Grant'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-4 space-y-2 text-sm text-gray-700">
+                  {request.contactEmail && (
+                    <p className="flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-gray-400" />
+                      <a href={`mailto:${request.contactEmail}`} className="text-green-700 hover:underline">
+                        {request.contactEmail}
+                      </a>
+                    </p>
+                  )}
+                  {request.notes && <p className="whitespace-pre-wrap">{request.notes}</p>}
+                  {request.documents.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {request.documents.map((uri, index) => (
+                        <a
+                          key={uri}
+                          href={ipfsToHttp(uri)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-200 rounded-lg hover:border-green-500 transition-colors"
+                        >
+                          <FileText className="h-3 w-3" />
+                          Document {index + 1}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {request.status !== 'pending' && request.decidedAt && (
+                    <p className="text-xs text-gray-500">
+                      {request.status === 'approved' ? 'Approved' : 'Rejected'} {formatDate(request.decidedAt)}
+                      {request.decidedBy && ` by ${formatAddress(request.decidedBy)}`}
+                      {request.reason && ` · ${request.reason}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoleRequestsPage;
@@ -0,0 +1,28 @@
+import React from 'react';
+import RoyaltySettingsPanel from '../components/RoyaltySettingsPanel';
+
+/**
+ * Royalty Admin Page
+ *
+ * Where administrators set the resale royalty. It lives apart from the batch
+ * views because CropBatchToken keeps one royalty for every batch.
+ */
+const RoyaltyAdminPage: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200">
+          <h1 className="text-2xl font-bold text-gray-900">Resale Royalty</h1>
+          <p className="text-sm text-gray-600">
+            The ERC-2981 royalty resellers owe on every crop batch. Changing it applies to all batches at once.
+          </p>
+        </div>
+
+        <RoyaltySettingsPanel />
+      </div>
+    </div>
+  );
+};
+
+export default RoyaltyAdminPage;
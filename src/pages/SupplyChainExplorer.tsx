@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Card, Input, Table, Tag, Typography, Space, Button, Modal, Timeline, Descriptions, Alert, Select, Spin, Row, Col } from 'antd';
-import { SearchOutlined, EyeOutlined, EnvironmentOutlined, UserOutlined, ClockCircleOutlined, FilterOutlined, ReloadOutlined } from '@ant-design/icons';
+import { Card, Input, Table, Tag, Typography, Space, Button, Modal, Timeline, Descriptions, Alert, Select, Spin, Row, Col, Tree, type TreeDataNode } from 'antd';
+import { SearchOutlined, EyeOutlined, EnvironmentOutlined, UserOutlined, ClockCircleOutlined, FilterOutlined, ReloadOutlined, LockOutlined } from '@ant-design/icons';
 import { useAccount } from 'wagmi';
 import {
   useTokensInState,
   useProvenanceHistory,
+  useProvenanceRecords,
   useProvenanceStep,
   getStateLabel,
   getStateColor,
@@ -13,8 +14,9 @@ import {
   ProvenanceRecord,
   ProvenanceStep
 } from '../hooks/useSupplyChainManager';
-import { useCropBatchToken } from '../hooks/useCropBatchToken';
-import { fetchMetadataFromIPFS, CropMetadata } from '../utils/ipfs';
+import { useCropBatchToken, TokenHolding, MetadataHistory } from '../hooks/useCropBatchToken';
+import { fetchMetadataFromIPFS, ipfsToHttp, CropMetadata } from '../utils/ipfs';
+import { SubLot } from '../utils/subLots';
 import { SUPPLY_CHAIN_STATES, SUPPLY_CHAIN_STATE_LABELS } from '../config/constants';
 
 const { Title, Text } = Typography;
@@ -25,10 +27,12 @@ interface TokenData extends CropMetadata {
   tokenId: number;
   currentState: number;
   currentOwner: string;
+  holders: TokenHolding[];
   originalFarmer: string;
   creationTime: number;
   totalSteps: number;
   hasProvenance: boolean;
+  metadataFrozen: boolean;
 }
 
 interface ProvenanceModalData {
@@ -47,9 +51,12 @@ const SupplyChainExplorer: React.FC = () => {
   const [loadingSteps, setLoadingSteps] = useState(false);
   const [allTokens, setAllTokens] = useState<TokenData[]>([]);
   const [tokensLoading, setTokensLoading] = useState(false);
+  const [metadataHistory, setMetadataHistory] = useState<MetadataHistory>({ versions: [] });
+  const [subLots, setSubLots] = useState<SubLot[]>([]);
 
   // Hooks
-  const { getAllBatches } = useCropBatchToken();
+  const { getAllBatches, getMetadataHistory, getSubLots } = useCropBatchToken();
+  const { getProvenanceRecords } = useProvenanceRecords();
   const { data: provenanceHistory } = useProvenanceHistory(provenanceModal.tokenId ? BigInt(provenanceModal.tokenId) : undefined);
 
   // Fetch all tokens with provenance data
@@ -58,6 +65,7 @@ const SupplyChainExplorer: React.FC = () => {
     try {
       // Get all minted tokens from CropBatchToken contract
       const allBatches = await getAllBatches();
+      const provenanceById = await getProvenanceRecords(allBatches.map(batch => batch.tokenId));
 
       const tokensWithProvenance: TokenData[] = [];
 
@@ -98,16 +106,20 @@ const SupplyChainExplorer: React.FC = () => {
             }
           }
 
-          // Create token data with default values (no provenance)
+          // Tokens without a provenance record default to the Produced state
+          const provenance = provenanceById.get(batch.tokenId);
+          const hasProvenance = !!provenance && provenance.creationTime > 0n;
           const tokenData: TokenData = {
             ...metadata,
             tokenId: batch.tokenId,
-            currentState: 0, // Default to Produced state
+            currentState: hasProvenance ? provenance.currentState : 0,
             currentOwner: batch.owner,
+            holders: batch.holders,
             originalFarmer: batch.minter,
             creationTime: batch.timestamp,
-            totalSteps: 0,
-            hasProvenance: false,
+            totalSteps: hasProvenance ? Number(provenance.totalSteps) : 0,
+            hasProvenance,
+            metadataFrozen: batch.metadataFrozen ?? false,
           };
 
           tokensWithProvenance.push(tokenData);
@@ -127,10 +139,12 @@ const SupplyChainExplorer: React.FC = () => {
             notes: batch.notes,
             currentState: 0,
             currentOwner: batch.owner,
+            holders: batch.holders,
             originalFarmer: batch.minter,
             creationTime: batch.timestamp,
             totalSteps: 0,
             hasProvenance: false,
+            metadataFrozen: batch.metadataFrozen ?? false,
           };
           tokensWithProvenance.push(basicTokenData);
         }
@@ -229,13 +243,36 @@ const SupplyChainExplorer: React.FC = () => {
       tokenId: record.tokenId,
       tokenData: record
     });
+
+    getMetadataHistory(record.tokenId)
+      .then(setMetadataHistory)
+      .catch(error => console.warn(`Failed to load metadata history for token ${record.tokenId}:`, error));
+
+    getSubLots(record.tokenId)
+      .then(setSubLots)
+      .catch(error => console.warn(`Failed to load sub-lots for token ${record.tokenId}:`, error));
   };
 
   const handleCloseModal = () => {
     setProvenanceModal({ visible: false });
     setProvenanceSteps([]);
+    setMetadataHistory({ versions: [] });
+    setSubLots([]);
   };
 
+  // Helper function to turn the sub-lot tree into Tree nodes
+  const toTreeData = (lots: SubLot[]): TreeDataNode[] => lots.map(lot => ({
+    key: lot.id,
+    title: (
+      <span>
+        <Text strong>#{lot.id}</Text> {lot.quantity} kg to {formatAddress(lot.holder)}
+        {lot.remaining > 0 && <Tag color="green" style={{ marginLeft: '8px' }}>{lot.remaining} kg held</Tag>}
+        {lot.timestamp > 0 && <Text type="secondary"> · {new Date(lot.timestamp).toLocaleDateString()}</Text>}
+      </span>
+    ),
+    children: toTreeData(lot.children),
+  }));
+
   const columns = [
     {
       title: 'Token ID',
@@ -270,10 +307,18 @@ const SupplyChainExplorer: React.FC = () => {
       ),
     },
     {
-      title: 'Current Owner',
-      dataIndex: 'currentOwner',
-      key: 'currentOwner',
-      render: (address: string) => formatAddress(address),
+      title: 'Current Holders',
+      dataIndex: 'holders',
+      key: 'holders',
+      render: (holders: TokenHolding[]) => holders.length === 0 ? '-' : (
+        <Space direction="vertical" size={0}>
+          {holders.map(holding => (
+            <Text key={holding.address} style={{ fontSize: '12px' }}>
+              {formatAddress(holding.address)}: {holding.quantity} kg
+            </Text>
+          ))}
+        </Space>
+      ),
     },
     {
       title: 'Origin Farm',
@@ -290,6 +335,16 @@ const SupplyChainExplorer: React.FC = () => {
         </Tag>
       ),
     },
+    {
+      title: 'Metadata',
+      dataIndex: 'metadataFrozen',
+      key: 'metadataFrozen',
+      render: (metadataFrozen: boolean) => (
+        <Tag color={metadataFrozen ? 'blue' : 'default'} icon={metadataFrozen ? <LockOutlined /> : undefined}>
+          {metadataFrozen ? 'Frozen' : 'Editable'}
+        </Tag>
+      ),
+    },
     {
       title: 'Actions',
       key: 'actions',
@@ -382,7 +437,11 @@ const SupplyChainExplorer: React.FC = () => {
               <Descriptions.Item label="Quantity">{provenanceModal.tokenData.quantity} kg</Descriptions.Item>
               <Descriptions.Item label="Origin Farm">{provenanceModal.tokenData.originFarm}</Descriptions.Item>
               <Descriptions.Item label="Original Farmer">{formatAddress(provenanceModal.tokenData.originalFarmer)}</Descriptions.Item>
-              <Descriptions.Item label="Current Owner">{formatAddress(provenanceModal.tokenData.currentOwner)}</Descriptions.Item>
+              <Descriptions.Item label="Current Holders">
+                {provenanceModal.tokenData.holders.length === 0 ? '-' : provenanceModal.tokenData.holders.map(holding => (
+                  <div key={holding.address}>{formatAddress(holding.address)}: {holding.quantity} kg</div>
+                ))}
+              </Descriptions.Item>
               <Descriptions.Item label="Current State">
                 <Tag color={getStateColor(provenanceModal.tokenData.currentState)}>
                   {getStateLabel(provenanceModal.tokenData.currentState)}
@@ -397,6 +456,12 @@ const SupplyChainExplorer: React.FC = () => {
                 </Tag>
               </Descriptions.Item>
               <Descriptions.Item label="Total Steps">{provenanceModal.tokenData.totalSteps}</Descriptions.Item>
+              <Descriptions.Item label="Metadata">
+                <Tag color={provenanceModal.tokenData.metadataFrozen ? 'blue' : 'default'}>
+                  {provenanceModal.tokenData.metadataFrozen ? 'Frozen' : 'Editable'}
+                </Tag>
+              </Descriptions.Item>
+              <Descriptions.Item label="Metadata Versions">{metadataHistory.versions.length || '-'}</Descriptions.Item>
             </Descriptions>
 
             {provenanceModal.tokenData.description && (
@@ -411,6 +476,43 @@ const SupplyChainExplorer: React.FC = () => {
               </div>
             )}
 
+            {metadataHistory.versions.length > 1 && (
+              <>
+                <Title level={4}>Metadata History</Title>
+                <Timeline style={{ marginBottom: '16px' }}>
+                  {metadataHistory.versions.map(version => (
+                    <Timeline.Item key={version.transactionHash} color={version.version === 1 ? 'green' : 'blue'}>
+                      <Text strong>Version {version.version}</Text>
+                      {version.version === metadataHistory.versions.length && <Tag style={{ marginLeft: '8px' }}>Current</Tag>}
+                      <div>
+                        <Text type="secondary">
+                          {version.version === 1 ? 'Minted' : 'Updated'} {version.timestamp ? new Date(version.timestamp).toLocaleString() : ''}
+                        </Text>
+                      </div>
+                      <a href={ipfsToHttp(version.uri)} target="_blank" rel="noopener noreferrer">{version.uri}</a>
+                    </Timeline.Item>
+                  ))}
+                  {metadataHistory.frozenAt !== undefined && (
+                    <Timeline.Item color="gray" dot={<LockOutlined />}>
+                      <Text strong>Frozen</Text> <Text type="secondary">{new Date(metadataHistory.frozenAt).toLocaleString()}</Text>
+                    </Timeline.Item>
+                  )}
+                </Timeline>
+              </>
+            )}
+
+            {subLots.some(lot => lot.children.length > 0) && (
+              <>
+                <Title level={4}>Sub-lots</Title>
+                <Tree
+                  treeData={toTreeData(subLots)}
+                  defaultExpandAll
+                  selectable={false}
+                  style={{ marginBottom: '16px' }}
+                />
+              </>
+            )}
+
             <Title level={4}>
               {provenanceModal.tokenData.hasProvenance ? 'Supply Chain Journey' : 'Token History'}
             </Title>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   AlertTriangle,
   Info,
@@ -9,18 +9,20 @@ import {
   FileText,
   Coins,
   Shield,
-  CheckCircle
+  CheckCircle,
+  Layers
 } from 'lucide-react';
 import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
 import { useToast } from '../contexts/ToastContext';
 import { useCropBatchToken } from '../hooks/useCropBatchToken';
-import { useInitializeProvenance } from '../hooks/useSupplyChainManager';
-import { uploadCropBatch } from '../utils/ipfs';
-import { getErrorMessage, formatTxHash, getBlockExplorerUrl } from '../utils';
-import { VALIDATION_LIMITS } from '../config/constants';
+import { useTokenizationJobs, TokenizationJob } from '../hooks/useTokenizationJobs';
+import { getErrorMessage, formatTxHash, getBlockExplorerUrl, validateCropBatchField } from '../utils';
+import { VALIDATION_LIMITS, CROP_CATEGORIES } from '../config/constants';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ErrorMessage from '../components/ErrorMessage';
 import CurrencyDisplay, { CURRENCY_CONFIG, convertCurrency } from '../components/CurrencyDisplay';
+import BatchTokenizationGrid from '../components/BatchTokenizationGrid';
+import PendingTokenizationJobs from '../components/PendingTokenizationJobs';
 
 interface TokenizationPageProps {
   onSuccess?: (tokenId: number) => void;
@@ -29,23 +31,8 @@ interface TokenizationPageProps {
 const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
   const { account, hasRole, isConnected } = useWeb3Enhanced();
   const { addToast } = useToast();
-  const {
-    mintNewBatch,
-    isWritePending,
-    isConfirming,
-    isConfirmed,
-    hash,
-    error: contractError,
-    nextTokenId,
-    isLoadingNextTokenId,
-    clearError,
-  } = useCropBatchToken();
-
-  const {
-    writeAsync: initializeProvenance,
-    isPending: isInitializingProvenance,
-    error: provenanceError,
-  } = useInitializeProvenance();
+  const { nextTokenId, isLoadingNextTokenId } = useCropBatchToken();
+  const { jobs, runningJobId, progress, startJob, resumeJob, abandonJob } = useTokenizationJobs();
 
   const [formData, setFormData] = useState({
     name: '',
@@ -61,51 +48,19 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
     location: '',
   });
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string | null>>({});
-  const [uploadProgress, setUploadProgress] = useState<string>('');
-  const [mintedTokenId, setMintedTokenId] = useState<number | null>(null);
-  const [provenanceInitialized, setProvenanceInitialized] = useState(false);
+  const [completedJob, setCompletedJob] = useState<TokenizationJob | null>(null);
+  const [mode, setMode] = useState<'single' | 'bulk'>('single');
 
   const canMint = hasRole('farmer');
-  const isProcessing = isWritePending || isConfirming || isUploading || isInitializingProvenance;
-
-  const validateField = (name: string, value: string): string | null => {
-    if (!value && ['name', 'cropType', 'quantity', 'pricePerKg', 'originFarm', 'harvestDate'].includes(name)) {
-      return 'This field is required.';
-    }
-
-    if (name === 'quantity') {
-      const q = parseInt(value);
-      if (isNaN(q) || q < VALIDATION_LIMITS.MIN_QUANTITY_KG || q > VALIDATION_LIMITS.MAX_QUANTITY_KG) {
-        return `Quantity must be between ${VALIDATION_LIMITS.MIN_QUANTITY_KG} and ${VALIDATION_LIMITS.MAX_QUANTITY_KG} kg.`;
-      }
-    }
-
-    if (name === 'pricePerKg') {
-      const price = parseFloat(value);
-      if (isNaN(price) || price <= 0) {
-        return 'Price must be a positive number.';
-      }
-      if (price > 1000) {
-        return 'Price seems too high. Please check the value.';
-      }
-    }
-
-    if (name === 'harvestDate') {
-      const date = new Date(value);
-      if (isNaN(date.getTime()) || date > new Date()) {
-        return 'Please enter a valid harvest date (not in the future).';
-      }
-    }
-
-    return null;
-  };
+  const isProcessing = runningJobId !== null;
+  const runningJob = jobs.find(job => job.id === runningJobId);
+  const pendingJobs = jobs.filter(job => job.step !== 'completed');
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
-    setFormErrors(prev => ({ ...prev, [name]: validateField(name, value) }));
+    setFormErrors(prev => ({ ...prev, [name]: validateCropBatchField(name, value) }));
   };
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -132,7 +87,7 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
   const validateForm = () => {
     let errors: Record<string, string | null> = {};
     Object.keys(formData).forEach(key => {
-      errors[key] = validateField(key, formData[key as keyof typeof formData]);
+      errors[key] = validateCropBatchField(key, formData[key as keyof typeof formData]);
     });
     if (!imageFile) {
       errors.imageFile = 'Image file is required.';
@@ -141,73 +96,95 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
     return !Object.values(errors).some(error => error !== null);
   };
 
-  // Handle form submission (blockchain + IPFS)
+  // Helper function to explain a failed tokenization step
+  const reportJobError = (err: unknown) => {
+    console.error('Tokenization error:', err);
+    const errorMessage = getErrorMessage(err);
+
+    // Provide specific guidance for different error types
+    if (errorMessage.includes('Pinata API')) {
+      addToast('IPFS upload failed. Please check your Pinata API configuration.', 'error');
+    } else if (errorMessage.includes('401')) {
+      addToast('Authentication failed. Please verify your Pinata API keys.', 'error');
+    } else if (errorMessage.includes('User rejected')) {
+      addToast('Transaction was rejected by user.', 'warning');
+    } else if (errorMessage.includes('insufficient funds')) {
+      addToast('Insufficient funds for transaction. Please add more ETH to your wallet.', 'error');
+    } else {
+      addToast(`Error during tokenization: ${errorMessage}`, 'error');
+    }
+    addToast('Progress so far is saved. Resume the job from Pending Tokenizations.', 'info', 8000);
+  };
+
+  const reportJobCompleted = (job: TokenizationJob) => {
+    setCompletedJob(job);
+    addToast(
+      `Crop batch tokenized successfully! Token ID: ${job.tokenId}. Provenance initialized. Transaction: ${formatTxHash(job.mintTxHash!)}`,
+      'success',
+      10000
+    );
+    onSuccess?.(job.tokenId!);
+  };
+
+  // Handle form submission (blockchain + IPFS) as a resumable job
   const handleFormSubmit = async () => {
+    const quantity = parseInt(formData.quantity);
+    const harvestDate = new Date(formData.harvestDate);
+
+    // Convert price to ETH for storage
+    const priceInEth = formData.pricePerKg ?
+      convertCurrency(parseFloat(formData.pricePerKg), formData.priceCurrency, 'ETH') :
+      undefined;
+
     try {
-      clearError();
-      setIsUploading(true);
-      setUploadProgress('Preparing metadata...');
-
-      setUploadProgress('Uploading image to IPFS...');
-      addToast('Uploading image and metadata to IPFS...', 'info');
-
-      const quantity = parseInt(formData.quantity);
-      const harvestDate = new Date(formData.harvestDate);
-
-      // Convert price to ETH for storage
-      const priceInEth = formData.pricePerKg ?
-        convertCurrency(parseFloat(formData.pricePerKg), formData.priceCurrency, 'ETH') :
-        undefined;
-
-      const { metadataUri } = await uploadCropBatch({
-        name: formData.name,
-        description: formData.description,
-        imageFile: imageFile!,
-        cropType: formData.cropType,
-        quantity,
-        pricePerKg: priceInEth,
-        originFarm: formData.originFarm,
-        harvestDate: Math.floor(harvestDate.getTime() / 1000),
-        notes: formData.notes,
-        certifications: formData.certifications ? formData.certifications.split(',').map(c => c.trim()) : undefined,
-        location: formData.location ? { address: formData.location } : undefined,
-      });
-
-      setUploadProgress('IPFS upload complete. Initiating blockchain transaction...');
-      addToast('IPFS upload complete. Initiating blockchain transaction...', 'info');
-
-      await mintNewBatch({
-        to: account!,
-        cropType: formData.cropType,
-        quantity,
-        originFarm: formData.originFarm,
-        harvestDate: Math.floor(harvestDate.getTime() / 1000),
-        notes: formData.notes,
-        metadataUri,
-      });
+      setCompletedJob(null);
+      const job = await startJob(
+        {
+          name: formData.name,
+          description: formData.description,
+          cropType: formData.cropType,
+          quantity,
+          pricePerKg: priceInEth,
+          originFarm: formData.originFarm,
+          harvestDate: Math.floor(harvestDate.getTime() / 1000),
+          notes: formData.notes,
+          certifications: formData.certifications ? formData.certifications.split(',').map(c => c.trim()) : undefined,
+          location: formData.location ? { address: formData.location } : undefined,
+        },
+        imageFile!,
+        {
+          location: formData.location || formData.originFarm || 'Farm Location',
+          notes: `Initial production at ${formData.originFarm}. ${formData.notes || 'No additional notes.'}`,
+        }
+      );
 
+      // Reset form on complete success
+      resetForm();
+      reportJobCompleted(job);
     } catch (err) {
-      console.error('Tokenization error:', err);
-      const errorMessage = getErrorMessage(err);
-
-      // Provide specific guidance for different error types
-      if (errorMessage.includes('Pinata API')) {
-        addToast('IPFS upload failed. Please check your Pinata API configuration.', 'error');
-      } else if (errorMessage.includes('401')) {
-        addToast('Authentication failed. Please verify your Pinata API keys.', 'error');
-      } else if (errorMessage.includes('User rejected')) {
-        addToast('Transaction was rejected by user.', 'warning');
-      } else if (errorMessage.includes('insufficient funds')) {
-        addToast('Insufficient funds for transaction. Please add more ETH to your wallet.', 'error');
-      } else {
-        addToast(`Error during tokenization: ${errorMessage}`, 'error');
-      }
-    } finally {
-      setIsUploading(false);
-      setUploadProgress('');
+      reportJobError(err);
     }
   };
 
+  const handleResumeJob = async (jobId: string, jobImage?: File) => {
+    try {
+      setCompletedJob(null);
+      reportJobCompleted(await resumeJob(jobId, jobImage));
+    } catch (err) {
+      reportJobError(err);
+    }
+  };
+
+  const handleAbandonJob = async (job: TokenizationJob) => {
+    const warning = job.tokenId !== undefined || job.mintTxHash
+      ? `Abandon "${job.params.name}"? The token is already minted, so its provenance will have to be initialized by hand.`
+      : `Abandon "${job.params.name}"? Its IPFS uploads will be unpinned.`;
+    if (!window.confirm(warning)) return;
+
+    await abandonJob(job.id);
+    addToast(`Tokenization of ${job.params.name} abandoned`, 'info');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -236,95 +213,8 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
     });
     setImageFile(null);
     setFormErrors({});
-    setMintedTokenId(null);
-    setProvenanceInitialized(false);
   };
 
-  // Handle successful minting - initialize provenance
-  useEffect(() => {
-    if (isConfirmed && hash && nextTokenId && !provenanceInitialized) {
-      setMintedTokenId(nextTokenId);
-      initializeProvenanceForToken(nextTokenId);
-    }
-  }, [isConfirmed, hash, nextTokenId, provenanceInitialized]);
-
-  const initializeProvenanceForToken = async (tokenId: number) => {
-    try {
-      addToast('Initializing supply chain provenance...', 'info');
-
-      // Validate required data before calling contract
-      if (!account) {
-        throw new Error('Wallet account not available');
-      }
-
-      if (!tokenId || tokenId <= 0) {
-        throw new Error('Invalid token ID');
-      }
-
-      const location = formData.location || formData.originFarm || 'Farm Location';
-      const notes = `Initial production at ${formData.originFarm}. ${formData.notes || 'No additional notes.'}`;
-
-      console.log('Initializing provenance with:', {
-        tokenId: BigInt(tokenId),
-        farmer: account,
-        location,
-        notes
-      });
-
-      await initializeProvenance({
-        tokenId: BigInt(tokenId),
-        farmer: account,
-        location,
-        notes
-      });
-
-      setProvenanceInitialized(true);
-      addToast(
-        `Crop batch tokenized successfully! Token ID: ${tokenId}. Provenance initialized. Transaction: ${formatTxHash(hash!)}`,
-        'success',
-        10000
-      );
-
-      // Reset form on complete success
-      resetForm();
-      onSuccess?.(tokenId);
-    } catch (error: any) {
-      console.error('Provenance initialization failed:', error);
-
-      // More detailed error logging
-      const errorMessage = error?.message || error?.reason || error?.data?.message || 'Unknown error';
-      console.error('Detailed error:', {
-        message: errorMessage,
-        code: error?.code,
-        data: error?.data,
-        stack: error?.stack
-      });
-
-      addToast(
-        `Token minted successfully (ID: ${tokenId}) but provenance initialization failed. You can initialize it manually later.`,
-        'warning',
-        8000
-      );
-
-      // Also show the specific error in console for debugging
-      addToast(`Provenance initialization error: ${errorMessage}`, 'error');
-    }
-  };
-
-  // Handle contract errors
-  useEffect(() => {
-    if (contractError) {
-      addToast(`Contract error: ${contractError}`, 'error');
-    }
-  }, [contractError, addToast]);
-
-  // Handle provenance errors
-  useEffect(() => {
-    if (provenanceError) {
-      addToast(`Provenance initialization error: ${provenanceError}`, 'error');
-    }
-  }, [provenanceError, addToast]);
-
   // Display access denied message
   if (isConnected && !canMint) {
     return (
@@ -362,7 +252,7 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <div className="p-6 max-w-4xl mx-auto">
+      <div className={`p-6 mx-auto ${mode === 'bulk' ? 'max-w-7xl' : 'max-w-4xl'}`}>
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Crop Tokenization</h1>
@@ -403,20 +293,49 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
                 <div className="flex items-center gap-3">
                   <LoadingSpinner variant="minimal" size="sm" />
                   <span className="text-blue-800 font-medium">
-                    {isUploading ? 'Uploading to IPFS...' :
-                     isWritePending ? 'Waiting for wallet...' :
-                     isConfirming ? 'Confirming transaction...' :
-                     isInitializingProvenance ? 'Initializing provenance...' : 'Processing...'}
+                    {progress ? `${progress}...` : 'Processing...'}
                   </span>
                 </div>
-                {uploadProgress && (
-                  <p className="text-sm text-blue-700 mt-2">{uploadProgress}</p>
+                {runningJob && (
+                  <p className="text-sm text-blue-700 mt-2">
+                    {runningJob.params.name}: each completed step is saved, so this can be resumed if interrupted.
+                  </p>
                 )}
               </div>
             )}
           </div>
 
+          <PendingTokenizationJobs
+            jobs={pendingJobs.filter(job => mode === 'single' || job.id === runningJobId)}
+            runningJobId={runningJobId}
+            onResume={handleResumeJob}
+            onAbandon={handleAbandonJob}
+          />
+
           {/* Form */}
+          {/* Mode */}
+          <div className="px-6 pt-6 flex gap-2">
+            {(['single', 'bulk'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                disabled={isProcessing}
+                className={`flex items-center gap-2 px-4 py-2 text-sm rounded-lg border transition-colors disabled:opacity-50 ${
+                  mode === option ? 'bg-green-600 text-white border-green-600' : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'single' ? <Coins className="h-4 w-4" /> : <Layers className="h-4 w-4" />}
+                {option === 'single' ? 'Single Batch' : 'Multiple Batches'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'bulk' ? (
+            <div className="p-6">
+              <BatchTokenizationGrid />
+            </div>
+          ) : (
           <form onSubmit={handleSubmit} className="p-6 space-y-6">
           {/* Basic Information */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -456,15 +375,9 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
                 disabled={isProcessing}
               >
                 <option value="">Select crop category</option>
-                <option value="Cereals">Cereals</option>
-                <option value="Fruits">Fruits</option>
-                <option value="Legumes">Legumes</option>
-                <option value="Livestock">Livestock</option>
-                <option value="Vegetables">Vegetables</option>
-                <option value="Nuts & Seeds">Nuts & Seeds</option>
-                <option value="Herbs & Spices">Herbs & Spices</option>
-                <option value="Fiber Crops">Fiber Crops</option>
-                <option value="Other">Other</option>
+                {CROP_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
               </select>
               {formErrors.cropType && <p className="mt-1 text-xs text-red-600">{formErrors.cropType}</p>}
             </div>
@@ -713,11 +626,7 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
               {isProcessing ? (
                 <>
                   <LoadingSpinner variant="minimal" size="sm" className="mr-3" />
-                  {isUploading ? 'Uploading to IPFS...' :
-                   isWritePending ? 'Waiting for Wallet...' :
-                   isConfirming ? 'Confirming Transaction...' :
-                   isInitializingProvenance ? 'Initializing Provenance...' :
-                   'Processing...'}
+                  {progress ? `${progress}...` : 'Processing...'}
                 </>
               ) : (
                 <>
@@ -727,12 +636,12 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
               )}
             </button>
 
-            {hash && (
+            {runningJob?.mintTxHash && (
               <div className="mt-4 text-center">
                 <p className="text-sm text-gray-600">
                   Transaction sent! View on{' '}
                   <a
-                    href={getBlockExplorerUrl(hash)}
+                    href={getBlockExplorerUrl(runningJob.mintTxHash)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-green-600 hover:underline font-medium"
@@ -743,31 +652,20 @@ const TokenizationPage: React.FC<TokenizationPageProps> = ({ onSuccess }) => {
               </div>
             )}
 
-            {isConfirmed && provenanceInitialized && (
+            {completedJob && (
               <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
                 <div className="flex items-center gap-2 text-green-800">
                   <CheckCircle className="h-5 w-5" />
                   <span className="font-medium">Tokenization & Provenance Successful!</span>
                 </div>
                 <p className="text-sm text-green-700 mt-1">
-                  Your crop batch has been successfully tokenized and supply chain provenance has been initialized.
-                </p>
-              </div>
-            )}
-
-            {isConfirmed && !provenanceInitialized && !isInitializingProvenance && (
-              <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <div className="flex items-center gap-2 text-yellow-800">
-                  <Info className="h-5 w-5" />
-                  <span className="font-medium">Token Minted - Initializing Provenance...</span>
-                </div>
-                <p className="text-sm text-yellow-700 mt-1">
-                  Token created successfully. Setting up supply chain tracking...
+                  {completedJob.params.name} was tokenized as #{completedJob.tokenId} and supply chain provenance has been initialized.
                 </p>
               </div>
             )}
           </div>
         </form>
+          )}
 
         {/* Info Section */}
         <div className="p-6 border-t border-gray-200 rounded-b-xl bg-green-50">
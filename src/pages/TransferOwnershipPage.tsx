@@ -1,13 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Card, Form, Select, Input, Button, message, Typography, Space, Divider, Tag, Alert, Avatar } from 'antd';
+import { Card, Form, Select, Input, InputNumber, Button, message, Typography, Space, Divider, Tag, Alert, Avatar, Radio } from 'antd';
 import { SendOutlined, UserOutlined, EnvironmentOutlined, FileTextOutlined, LoadingOutlined } from '@ant-design/icons';
 import { useAccount } from 'wagmi';
-import { useTransferWithProvenance, useInitializeProvenance, useProvenanceHistory, getStateLabel, getStateColor } from '../hooks/useSupplyChainManager';
-import { useCropBatchToken } from '../hooks/useCropBatchToken';
+import { useTransferWithProvenance, useInitializeProvenance, useProvenanceHistory, useProvenanceRecords, getStateLabel, getStateColor, ProvenanceRecord } from '../hooks/useSupplyChainManager';
+import { useCropBatchToken, getHolderQuantity, TokenHolding } from '../hooks/useCropBatchToken';
 import { useUserRole } from '../hooks/useUserManagement';
 import { fetchMetadataFromIPFS, CropMetadata, ipfsToHttp } from '../utils/ipfs';
 import { CONTRACT_ADDRESSES, SUPPLY_CHAIN_STATES } from '../config/constants';
 import SupplyChainManagerABI from '../contracts/SupplyChainManager.json';
+import BatchTransferForm from '../components/BatchTransferForm';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -18,6 +19,8 @@ interface TokenOption extends CropMetadata {
   currentState: number;
   currentOwner: string;
   owner: string;
+  balance: number; // Connected wallet's share of the batch
+  holders: TokenHolding[];
   lastUpdated?: number;
   hasProvenance?: boolean;
 }
@@ -30,12 +33,14 @@ const TransferOwnershipPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [loadingTokens, setLoadingTokens] = useState(false);
   const [initializingProvenance, setInitializingProvenance] = useState(false);
+  const [transferMode, setTransferMode] = useState<'single' | 'multiple'>('single');
 
   // Hooks
   const { data: userRole } = useUserRole(address);
   const { getUserTokens, transferToken, triggerRefresh } = useCropBatchToken();
-  const { writeContract: transferWithProvenance, isPending: isTransferring } = useTransferWithProvenance();
+  const { writeAsync: transferWithProvenance, isPending: isTransferring } = useTransferWithProvenance();
   const { writeAsync: initializeProvenance } = useInitializeProvenance();
+  const { getProvenanceRecords } = useProvenanceRecords();
 
   // Fetch enhanced token data with IPFS metadata
   const fetchEnhancedTokens = useCallback(async () => {
@@ -48,6 +53,12 @@ const TransferOwnershipPage: React.FC = () => {
 
       console.log('User batches found:', userBatches.length);
 
+      // Tokens with a provenance record are transferred through the supply chain, in single and multiple mode alike
+      const provenanceRecords = await getProvenanceRecords(userBatches.map(batch => batch.tokenId)).catch(error => {
+        console.warn('Failed to read provenance records:', error);
+        return new Map<number, ProvenanceRecord>();
+      });
+
       // Fetch metadata for user's tokens
       const enhancedTokens = await Promise.allSettled(
         userBatches.map(async (batch) => {
@@ -87,10 +98,9 @@ const TransferOwnershipPage: React.FC = () => {
               }
             }
 
-            // For now, assume tokens are not in supply chain yet (newly minted)
-            // In a real implementation, you would check the SupplyChainManager contract
-            let currentState = 0;
-            let hasProvenance = false;
+            const record = provenanceRecords.get(batch.tokenId);
+            const currentState = record ? record.currentState : 0;
+            const hasProvenance = !!record;
 
             return {
               ...metadata,
@@ -98,6 +108,8 @@ const TransferOwnershipPage: React.FC = () => {
               currentState,
               currentOwner: batch.owner,
               owner: batch.owner,
+              balance: getHolderQuantity(batch, address),
+              holders: batch.holders,
               lastUpdated: batch.timestamp,
               hasProvenance,
             };
@@ -115,11 +127,13 @@ const TransferOwnershipPage: React.FC = () => {
               originFarm: batch.originFarm,
               harvestDate: batch.harvestDate,
               notes: batch.notes,
-              currentState: 0,
+              currentState: provenanceRecords.get(batch.tokenId)?.currentState ?? 0,
               currentOwner: batch.owner,
               owner: batch.owner,
+              balance: getHolderQuantity(batch, address),
+              holders: batch.holders,
               lastUpdated: batch.timestamp,
-              hasProvenance: false,
+              hasProvenance: provenanceRecords.has(batch.tokenId),
             };
           }
         })
@@ -147,7 +161,7 @@ const TransferOwnershipPage: React.FC = () => {
     } finally {
       setLoadingTokens(false);
     }
-  }, [getUserTokens, address, userRole]);
+  }, [getUserTokens, getProvenanceRecords, address, userRole]);
 
   // Load user's transferable tokens
   useEffect(() => {
@@ -182,7 +196,7 @@ const TransferOwnershipPage: React.FC = () => {
     const token = userTokens.find(t => t.tokenId.toString() === tokenId);
     if (token) {
       setSelectedToken(token);
-      form.setFieldsValue({ tokenId });
+      form.setFieldsValue({ tokenId, amount: token.balance });
     }
   };
 
@@ -246,7 +260,7 @@ const TransferOwnershipPage: React.FC = () => {
           tokenId: selectedToken.tokenId,
           from: address,
           to: values.recipientAddress,
-          amount: 1 // quantity
+          amount: values.amount
         });
         message.success('Token transferred successfully!');
       }
@@ -296,170 +310,224 @@ const TransferOwnershipPage: React.FC = () => {
       <Title level={2}>
         <SendOutlined /> Transfer Token Ownership
       </Title>
-      
-      <Card>
-        <Form
-          form={form}
-          layout="vertical"
-          onFinish={handleTransfer}
-          size="large"
-        >
-          <Form.Item
-            label="Select Token to Transfer"
-            name="tokenId"
-            rules={[{ required: true, message: 'Please select a token' }]}
+
+      <Radio.Group
+        value={transferMode}
+        onChange={(e) => setTransferMode(e.target.value)}
+        optionType="button"
+        buttonStyle="solid"
+        style={{ marginBottom: '16px' }}
+      >
+        <Radio.Button value="single">Single Token</Radio.Button>
+        <Radio.Button value="multiple">Multiple Tokens</Radio.Button>
+      </Radio.Group>
+
+      {transferMode === 'multiple' ? (
+        <Card>
+          <BatchTransferForm tokens={userTokens} loading={loadingTokens} onTransferred={fetchEnhancedTokens} />
+        </Card>
+      ) : (
+        <Card>
+          <Form
+            form={form}
+            layout="vertical"
+            onFinish={handleTransfer}
+            size="large"
           >
-            <Select
-              placeholder="Choose a token you own"
-              onChange={handleTokenSelect}
-              loading={loadingTokens}
-              notFoundContent={loadingTokens ? <LoadingOutlined spin /> : 'No transferable tokens'}
+            <Form.Item
+              label="Select Token to Transfer"
+              name="tokenId"
+              rules={[{ required: true, message: 'Please select a token' }]}
             >
-              {userTokens.map((token) => (
-                <Option key={token.tokenId.toString()} value={token.tokenId.toString()}>
-                  <Space>
+              <Select
+                placeholder="Choose a token you own"
+                onChange={handleTokenSelect}
+                loading={loadingTokens}
+                notFoundContent={loadingTokens ? <LoadingOutlined spin /> : 'No transferable tokens'}
+              >
+                {userTokens.map((token) => (
+                  <Option key={token.tokenId.toString()} value={token.tokenId.toString()}>
+                    <Space>
+                      <Avatar
+                        size="small"
+                        src={ipfsToHttp(token.image) || getPlaceholderImage(token.tokenId, token.cropType)}
+                        alt={token.name}
+                      />
+                      <Text strong>#{token.tokenId.toString()}</Text>
+                      <Text>{token.name || `${token.cropType} Batch`}</Text>
+                      <Tag color={getStateColor(token.currentState)}>
+                        {getStateLabel(token.currentState)}
+                      </Tag>
+                    </Space>
+                  </Option>
+                ))}
+              </Select>
+            </Form.Item>
+
+            {selectedToken && (
+              <>
+                <Divider />
+                <div style={{ marginBottom: '16px' }}>
+                  <Title level={4}>Token Details</Title>
+                  <div style={{ display: 'flex', gap: '16px', marginBottom: '16px' }}>
                     <Avatar
-                      size="small"
-                      src={ipfsToHttp(token.image) || getPlaceholderImage(token.tokenId, token.cropType)}
-                      alt={token.name}
+                      size={64}
+                      src={ipfsToHttp(selectedToken.image) || getPlaceholderImage(selectedToken.tokenId, selectedToken.cropType)}
+                      alt={selectedToken.name}
                     />
-                    <Text strong>#{token.tokenId.toString()}</Text>
-                    <Text>{token.name || `${token.cropType} Batch`}</Text>
-                    <Tag color={getStateColor(token.currentState)}>
-                      {getStateLabel(token.currentState)}
-                    </Tag>
-                  </Space>
-                </Option>
-              ))}
-            </Select>
-          </Form.Item>
-
-          {selectedToken && (
-            <>
-              <Divider />
-              <div style={{ marginBottom: '16px' }}>
-                <Title level={4}>Token Details</Title>
-                <div style={{ display: 'flex', gap: '16px', marginBottom: '16px' }}>
-                  <Avatar
-                    size={64}
-                    src={ipfsToHttp(selectedToken.image) || getPlaceholderImage(selectedToken.tokenId, selectedToken.cropType)}
-                    alt={selectedToken.name}
-                  />
-                  <Space direction="vertical" size="small" style={{ flex: 1 }}>
-                    <Text><strong>Token ID:</strong> #{selectedToken.tokenId.toString()}</Text>
-                    <Text><strong>Name:</strong> {selectedToken.name || `Batch #${selectedToken.tokenId}`}</Text>
-                    <Text><strong>Crop Type:</strong> {selectedToken.cropType}</Text>
-                    <Text><strong>Quantity:</strong> {selectedToken.quantity} kg</Text>
-                    <Text><strong>Origin Farm:</strong> {selectedToken.originFarm}</Text>
-                    <Text><strong>Current State:</strong>
-                      <Tag color={getStateColor(selectedToken.currentState)} style={{ marginLeft: '8px' }}>
-                        {getStateLabel(selectedToken.currentState)}
-                      </Tag>
-                    </Text>
-                    <Text><strong>Transfer Type:</strong>
-                      <Tag color={selectedToken.hasProvenance ? 'green' : 'blue'} style={{ marginLeft: '8px' }}>
-                        {selectedToken.hasProvenance ? 'Supply Chain Transfer' : 'Direct Transfer'}
-                      </Tag>
-                    </Text>
-                  </Space>
-                </div>
-                {selectedToken.description && (
-                  <div style={{ marginBottom: '12px' }}>
-                    <Text><strong>Description:</strong> {selectedToken.description}</Text>
-                  </div>
-                )}
-                {selectedToken.notes && (
-                  <div style={{ marginBottom: '12px' }}>
-                    <Text><strong>Notes:</strong> {selectedToken.notes}</Text>
+                    <Space direction="vertical" size="small" style={{ flex: 1 }}>
+                      <Text><strong>Token ID:</strong> #{selectedToken.tokenId.toString()}</Text>
+                      <Text><strong>Name:</strong> {selectedToken.name || `Batch #${selectedToken.tokenId}`}</Text>
+                      <Text><strong>Crop Type:</strong> {selectedToken.cropType}</Text>
+                      <Text><strong>Batch Quantity:</strong> {selectedToken.quantity} kg</Text>
+                      <Text><strong>Your Balance:</strong> {selectedToken.balance} kg</Text>
+                      <Text><strong>Origin Farm:</strong> {selectedToken.originFarm}</Text>
+                      <Text><strong>Current State:</strong>
+                        <Tag color={getStateColor(selectedToken.currentState)} style={{ marginLeft: '8px' }}>
+                          {getStateLabel(selectedToken.currentState)}
+                        </Tag>
+                      </Text>
+                      <Text><strong>Transfer Type:</strong>
+                        <Tag color={selectedToken.hasProvenance ? 'green' : 'blue'} style={{ marginLeft: '8px' }}>
+                          {selectedToken.hasProvenance ? 'Supply Chain Transfer' : 'Direct Transfer'}
+                        </Tag>
+                      </Text>
+                    </Space>
                   </div>
-                )}
-                <Space direction="vertical" size="small">
-                  <Text><strong>Your Role:</strong> {getRoleLabel(userRole || 0)}</Text>
-
-                  {selectedToken.hasProvenance ? (
-                    <Text><strong>Supply Chain Recipients:</strong> {getValidRecipientRoles(selectedToken.currentState, userRole || 0).join(', ')}</Text>
-                  ) : (
-                    <Text><strong>Transfer Mode:</strong> Direct transfer (any valid Ethereum address)</Text>
-                  )}
-
-                  {!selectedToken.hasProvenance && userRole === 0 && (
-                    <div style={{ marginTop: '12px' }}>
-                      <Button
-                        type="dashed"
-                        onClick={() => handleInitializeProvenance(selectedToken)}
-                        loading={initializingProvenance}
-                        icon={<SendOutlined />}
-                        size="small"
-                      >
-                        Add to Supply Chain (Optional)
-                      </Button>
-                      <div style={{ marginTop: '8px', fontSize: '12px', color: '#666' }}>
-                        Optional: Add this token to supply chain for enhanced tracking
+                  {selectedToken.holders.length > 1 && (
+                    <div style={{ marginBottom: '12px' }}>
+                      <Text strong>Current Holders:</Text>
+                      <div style={{ marginTop: '4px' }}>
+                        {selectedToken.holders.map(holding => (
+                          <Tag key={holding.address} color={holding.address.toLowerCase() === address.toLowerCase() ? 'green' : 'default'}>
+                            {holding.address.slice(0, 6)}...{holding.address.slice(-4)}: {holding.quantity} kg
+                          </Tag>
+                        ))}
                       </div>
                     </div>
                   )}
-                </Space>
-              </div>
-              <Divider />
-            </>
-          )}
-
-          <Form.Item
-            label="Recipient Address"
-            name="recipientAddress"
-            rules={[
-              { required: true, message: 'Please enter recipient address' },
-              { pattern: /^0x[a-fA-F0-9]{40}$/, message: 'Please enter a valid Ethereum address' }
-            ]}
-          >
-            <Input
-              prefix={<UserOutlined />}
-              placeholder="0x..."
-              disabled={!selectedToken}
-            />
-          </Form.Item>
-
-          <Form.Item
-            label="Transfer Location"
-            name="location"
-          >
-            <Input
-              prefix={<EnvironmentOutlined />}
-              placeholder="Location where transfer takes place"
-              disabled={!selectedToken}
-            />
-          </Form.Item>
-
-          <Form.Item
-            label="Transfer Notes"
-            name="notes"
-          >
-            <TextArea
-              prefix={<FileTextOutlined />}
-              placeholder="Additional notes about this transfer"
-              rows={3}
-              disabled={!selectedToken}
-            />
-          </Form.Item>
-
-          <Form.Item>
-            <Button
-              type="primary"
-              htmlType="submit"
-              loading={loading || isTransferring}
-              disabled={!selectedToken}
-              size="large"
-              icon={<SendOutlined />}
-              block
+                  {selectedToken.description && (
+                    <div style={{ marginBottom: '12px' }}>
+                      <Text><strong>Description:</strong> {selectedToken.description}</Text>
+                    </div>
+                  )}
+                  {selectedToken.notes && (
+                    <div style={{ marginBottom: '12px' }}>
+                      <Text><strong>Notes:</strong> {selectedToken.notes}</Text>
+                    </div>
+                  )}
+                  <Space direction="vertical" size="small">
+                    <Text><strong>Your Role:</strong> {getRoleLabel(userRole || 0)}</Text>
+
+                    {selectedToken.hasProvenance ? (
+                      <Text><strong>Supply Chain Recipients:</strong> {getValidRecipientRoles(selectedToken.currentState, userRole || 0).join(', ')}</Text>
+                    ) : (
+                      <Text><strong>Transfer Mode:</strong> Direct transfer (any valid Ethereum address)</Text>
+                    )}
+
+                    {!selectedToken.hasProvenance && userRole === 0 && (
+                      <div style={{ marginTop: '12px' }}>
+                        <Button
+                          type="dashed"
+                          onClick={() => handleInitializeProvenance(selectedToken)}
+                          loading={initializingProvenance}
+                          icon={<SendOutlined />}
+                          size="small"
+                        >
+                          Add to Supply Chain (Optional)
+                        </Button>
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: '#666' }}>
+                          Optional: Add this token to supply chain for enhanced tracking
+                        </div>
+                      </div>
+                    )}
+                  </Space>
+                </div>
+                <Divider />
+              </>
+            )}
+
+            <Form.Item
+              label="Recipient Address"
+              name="recipientAddress"
+              rules={[
+                { required: true, message: 'Please enter recipient address' },
+                { pattern: /^0x[a-fA-F0-9]{40}$/, message: 'Please enter a valid Ethereum address' }
+              ]}
             >
-              {selectedToken && selectedToken.hasProvenance
-                ? 'Transfer via Supply Chain'
-                : 'Transfer Ownership'
-              }
-            </Button>
-          </Form.Item>
-        </Form>
-      </Card>
+              <Input
+                prefix={<UserOutlined />}
+                placeholder="0x..."
+                disabled={!selectedToken}
+              />
+            </Form.Item>
+
+            {!selectedToken?.hasProvenance && (
+              <Form.Item
+                label="Quantity to Transfer (kg)"
+                name="amount"
+                rules={[
+                  { required: true, message: 'Please enter a quantity' },
+                  {
+                    type: 'number',
+                    min: 1,
+                    max: selectedToken?.balance,
+                    message: `Quantity must be between 1 and your balance of ${selectedToken?.balance ?? 0} kg`,
+                  },
+                ]}
+              >
+                <InputNumber
+                  min={1}
+                  max={selectedToken?.balance}
+                  precision={0}
+                  style={{ width: '100%' }}
+                  disabled={!selectedToken}
+                />
+              </Form.Item>
+            )}
+
+            <Form.Item
+              label="Transfer Location"
+              name="location"
+            >
+              <Input
+                prefix={<EnvironmentOutlined />}
+                placeholder="Location where transfer takes place"
+                disabled={!selectedToken}
+              />
+            </Form.Item>
+
+            <Form.Item
+              label="Transfer Notes"
+              name="notes"
+            >
+              <TextArea
+                prefix={<FileTextOutlined />}
+                placeholder="Additional notes about this transfer"
+                rows={3}
+                disabled={!selectedToken}
+              />
+            </Form.Item>
+
+            <Form.Item>
+              <Button
+                type="primary"
+                htmlType="submit"
+                loading={loading || isTransferring}
+                disabled={!selectedToken}
+                size="large"
+                icon={<SendOutlined />}
+                block
+              >
+                {selectedToken && selectedToken.hasProvenance
+                  ? 'Transfer via Supply Chain'
+                  : 'Transfer Ownership'
+                }
+              </Button>
+            </Form.Item>
+          </Form>
+        </Card>
+      )}
 
       {userTokens.length === 0 && !loadingTokens && (
         <Alert
@@ -0,0 +1,505 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { parseEther, formatEther } from 'viem';
+import { Truck, RefreshCw, Save, MapPin, Scale, Calendar, Package, AlertTriangle, CheckCircle, Briefcase } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import {
+  useRegisterTransporter,
+  useUpdateTransporterProfile,
+  useUpdateTransporterStatus,
+  useSubmitTransportBid,
+  useTransporter,
+  useIsRegisteredTransporter,
+  useOrderBids,
+  useTransportationManagerEvents,
+  getTransporterStatusLabel,
+  getTransporterStatusColor,
+  Transporter,
+  TransportBid,
+} from '../hooks/useTransportationManager';
+import { useOrderList, useOrdersAwaitingTransporter, useOrderManagerEvents, Order } from '../hooks/useOrderManager';
+import { getErrorMessage, formatDate } from '../utils';
+import { VEHICLE_TYPES, VEHICLE_TYPE_LABELS, TRANSPORTER_STATUS } from '../config/constants';
+import CurrencyDisplay from '../components/CurrencyDisplay';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const EMPTY_PROFILE = {
+  name: '',
+  contact: '',
+  baseLocation: '',
+  vehicleType: VEHICLE_TYPES.TRUCK.toString(),
+  maxCapacity: '',
+  ratePerKm: '',
+  ratePerKg: '',
+  minimumFee: '',
+};
+
+// Statuses a transporter can switch between themselves; suspension is admin-only
+const SELF_SERVICE_STATUSES = [
+  TRANSPORTER_STATUS.ACTIVE,
+  TRANSPORTER_STATUS.BUSY,
+  TRANSPORTER_STATUS.INACTIVE,
+];
+
+interface JobCardProps {
+  order: Order;
+  account?: string;
+  transporter?: Transporter;
+  onBid: (order: Order, price: string, etaHours: string) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+const JobCard: React.FC<JobCardProps> = ({ order, account, transporter, onBid, isSubmitting }) => {
+  const { data: bidsData } = useOrderBids(order.orderId);
+  const [price, setPrice] = useState('');
+  const [etaHours, setEtaHours] = useState('24');
+
+  const bids = (bidsData as TransportBid[] | undefined) || [];
+  const myBid = bids.find(bid => bid.transporter.toLowerCase() === account?.toLowerCase());
+  const exceedsCapacity = !!transporter && order.quantity > transporter.maxCapacity;
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900">Order #{order.orderId.toString()}</h3>
+          <div className="mt-1 flex flex-wrap gap-4 text-sm text-gray-600">
+            <span className="flex items-center gap-1">
+              <Package className="h-4 w-4" />
+              Batch #{order.tokenId.toString()}
+            </span>
+            <span className="flex items-center gap-1">
+              <Scale className="h-4 w-4" />
+              {order.quantity.toString()} kg
+            </span>
+            <span className="flex items-center gap-1">
+              <MapPin className="h-4 w-4" />
+              {order.deliveryLocation}
+            </span>
+            {order.requestedDeliveryDate > 0n && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                By {formatDate(Number(order.requestedDeliveryDate))}
+              </span>
+            )}
+          </div>
+        </div>
+        <span className="text-xs text-gray-500">{bids.length} bid{bids.length !== 1 ? 's' : ''}</span>
+      </div>
+
+      {myBid ? (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2 text-sm text-green-800">
+          <CheckCircle className="h-4 w-4" />
+          You bid {formatEther(myBid.price)} ETH, delivery in {Number(myBid.estimatedDeliveryTime) / 3600}h. Waiting for the buyer to accept.
+        </div>
+      ) : exceedsCapacity ? (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2 text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4" />
+          This load exceeds your vehicle capacity of {transporter?.maxCapacity.toString()} kg.
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder="Your price (ETH)"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          />
+          <input
+            type="number"
+            min="1"
+            value={etaHours}
+            onChange={(e) => setEtaHours(e.target.value)}
+            placeholder="Delivery time (hours)"
+            className="w-full sm:w-40 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          />
+          <button
+            onClick={() => onBid(order, price, etaHours)}
+            disabled={isSubmitting || !price}
+            className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? 'Submitting...' : 'Accept Job'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TransporterPage: React.FC = () => {
+  const { account } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+
+  const { data: isRegistered, refetch: refetchIsRegistered } = useIsRegisteredTransporter(account);
+  const { data: transporterData, refetch: refetchTransporter } = useTransporter(isRegistered ? account : undefined);
+  const { data: awaitingData, refetch: refetchAwaiting } = useOrdersAwaitingTransporter();
+  const { getOrdersByIds, isLoading: isLoadingJobs } = useOrderList();
+
+  const { writeAsync: registerTransporter } = useRegisterTransporter();
+  const { writeAsync: updateTransporterProfile } = useUpdateTransporterProfile();
+  const { writeAsync: updateTransporterStatus } = useUpdateTransporterStatus();
+  const { writeAsync: submitTransportBid } = useSubmitTransportBid();
+
+  const [profile, setProfile] = useState(EMPTY_PROFILE);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [pendingStatus, setPendingStatus] = useState<number | null>(null);
+  const [jobs, setJobs] = useState<Order[]>([]);
+  const [biddingOrderId, setBiddingOrderId] = useState<string | null>(null);
+
+  const transporter = transporterData as Transporter | undefined;
+
+  // Prefill the form from the on-chain profile once it loads
+  useEffect(() => {
+    if (!transporter) return;
+
+    setProfile({
+      name: transporter.name,
+      contact: transporter.contact,
+      baseLocation: transporter.baseLocation,
+      vehicleType: transporter.vehicleType.toString(),
+      maxCapacity: transporter.maxCapacity.toString(),
+      ratePerKm: formatEther(transporter.ratePerKm),
+      ratePerKg: formatEther(transporter.ratePerKg),
+      minimumFee: formatEther(transporter.minimumFee),
+    });
+  }, [transporter]);
+
+  const loadJobs = useCallback(async () => {
+    const orderIds = (awaitingData as readonly bigint[] | undefined) || [];
+    setJobs(await getOrdersByIds(orderIds));
+  }, [awaitingData, getOrdersByIds]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleOrderEvent = useCallback(() => { refetchAwaiting(); }, [refetchAwaiting]);
+
+  // Keep the job board current as orders are placed and assigned
+  useOrderManagerEvents('OrderCreated', handleOrderEvent);
+  useOrderManagerEvents('TransporterSelected', handleOrderEvent);
+  useTransportationManagerEvents('TransportBidSubmitted', handleOrderEvent);
+
+  const waitForReceipt = async (hash: `0x${string}`) => {
+    if (!publicClient) return;
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted');
+    }
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const maxCapacity = parseInt(profile.maxCapacity);
+    if (isNaN(maxCapacity) || maxCapacity <= 0) {
+      addToast('Please enter a valid vehicle capacity', 'warning');
+      return;
+    }
+
+    setIsSavingProfile(true);
+    try {
+      const params = {
+        name: profile.name.trim(),
+        contact: profile.contact.trim(),
+        baseLocation: profile.baseLocation.trim(),
+        vehicleType: parseInt(profile.vehicleType),
+        maxCapacity: BigInt(maxCapacity),
+        ratePerKm: parseEther(profile.ratePerKm || '0'),
+        ratePerKg: parseEther(profile.ratePerKg || '0'),
+        minimumFee: parseEther(profile.minimumFee || '0'),
+      };
+
+      const hash = isRegistered
+        ? await updateTransporterProfile(params)
+        : await registerTransporter(params);
+
+      addToast('Profile submitted. Waiting for confirmation...', 'info');
+      await waitForReceipt(hash);
+
+      addToast(isRegistered ? 'Transporter profile updated' : 'You are now registered as a transporter', 'success');
+      await refetchIsRegistered();
+      await refetchTransporter();
+    } catch (error) {
+      console.error('Failed to save transporter profile:', error);
+      addToast(`Failed to save profile: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handleStatusChange = async (status: number) => {
+    setPendingStatus(status);
+    try {
+      const hash = await updateTransporterStatus({ status });
+      await waitForReceipt(hash);
+      addToast(`Status set to ${getTransporterStatusLabel(status)}`, 'success');
+      await refetchTransporter();
+    } catch (error) {
+      console.error('Failed to update transporter status:', error);
+      addToast(`Failed to update status: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  const handleBid = async (order: Order, price: string, etaHours: string) => {
+    const hours = parseInt(etaHours);
+    if (isNaN(parseFloat(price)) || parseFloat(price) <= 0) {
+      addToast('Please enter a valid price', 'warning');
+      return;
+    }
+
+    if (isNaN(hours) || hours <= 0) {
+      addToast('Please enter a valid delivery time', 'warning');
+      return;
+    }
+
+    const orderId = order.orderId.toString();
+    setBiddingOrderId(orderId);
+    try {
+      const hash = await submitTransportBid({
+        orderId: order.orderId,
+        price: parseEther(price),
+        estimatedDeliveryTime: BigInt(hours * 60 * 60),
+      });
+      await waitForReceipt(hash);
+      addToast(`Bid submitted for order #${orderId}. The buyer will be notified.`, 'success');
+      await refetchAwaiting();
+    } catch (error) {
+      console.error('Failed to submit transport bid:', error);
+      addToast(`Failed to submit bid: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setBiddingOrderId(null);
+    }
+  };
+
+  const isActive = transporter?.status === TRANSPORTER_STATUS.ACTIVE;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Transport</h1>
+            <p className="text-sm text-gray-600">
+              Manage your transporter profile and pick up delivery jobs
+            </p>
+          </div>
+          {transporter && (
+            <div className="flex items-center gap-3">
+              <span className={`px-3 py-1 text-sm font-medium rounded-full border ${getTransporterStatusColor(transporter.status)}`}>
+                {getTransporterStatusLabel(transporter.status)}
+              </span>
+              <span className="text-sm text-gray-600">
+                {transporter.totalDeliveries.toString()} deliveries
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Profile */}
+          <form onSubmit={handleSaveProfile} className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 space-y-4">
+            <div className="flex items-center gap-3 mb-2">
+              <div className="h-10 w-10 bg-green-100 rounded-lg flex items-center justify-center">
+                <Truck className="h-5 w-5 text-green-600" />
+              </div>
+              <h2 className="text-xl font-semibold text-gray-900">
+                {isRegistered ? 'Transporter Profile' : 'Register as Transporter'}
+              </h2>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="sm:col-span-2">
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">Business Name</label>
+                <input
+                  id="name"
+                  type="text"
+                  value={profile.name}
+                  onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="contact" className="block text-sm font-medium text-gray-700 mb-2">Contact</label>
+                <input
+                  id="contact"
+                  type="text"
+                  value={profile.contact}
+                  onChange={(e) => setProfile(prev => ({ ...prev, contact: e.target.value }))}
+                  placeholder="Phone or email"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="baseLocation" className="block text-sm font-medium text-gray-700 mb-2">Base Location</label>
+                <input
+                  id="baseLocation"
+                  type="text"
+                  value={profile.baseLocation}
+                  onChange={(e) => setProfile(prev => ({ ...prev, baseLocation: e.target.value }))}
+                  placeholder="e.g., Nairobi, Kenya"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="vehicleType" className="block text-sm font-medium text-gray-700 mb-2">Vehicle Type</label>
+                <select
+                  id="vehicleType"
+                  value={profile.vehicleType}
+                  onChange={(e) => setProfile(prev => ({ ...prev, vehicleType: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                >
+                  {Object.entries(VEHICLE_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="maxCapacity" className="block text-sm font-medium text-gray-700 mb-2">Capacity (kg)</label>
+                <input
+                  id="maxCapacity"
+                  type="number"
+                  min="1"
+                  value={profile.maxCapacity}
+                  onChange={(e) => setProfile(prev => ({ ...prev, maxCapacity: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="ratePerKm" className="block text-sm font-medium text-gray-700 mb-2">Rate per km (ETH)</label>
+                <input
+                  id="ratePerKm"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={profile.ratePerKm}
+                  onChange={(e) => setProfile(prev => ({ ...prev, ratePerKm: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="ratePerKg" className="block text-sm font-medium text-gray-700 mb-2">Rate per kg (ETH)</label>
+                <input
+                  id="ratePerKg"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={profile.ratePerKg}
+                  onChange={(e) => setProfile(prev => ({ ...prev, ratePerKg: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor="minimumFee" className="block text-sm font-medium text-gray-700 mb-2">Minimum Fee (ETH)</label>
+                <input
+                  id="minimumFee"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={profile.minimumFee}
+                  onChange={(e) => setProfile(prev => ({ ...prev, minimumFee: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+                {profile.minimumFee && !isNaN(parseFloat(profile.minimumFee)) && (
+                  <div className="mt-2">
+                    <CurrencyDisplay amount={parseFloat(profile.minimumFee)} currency="ETH" compact />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSavingProfile}
+              className="w-full bg-green-600 text-white py-3 px-4 rounded-xl hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold flex items-center justify-center gap-2"
+            >
+              <Save className="h-5 w-5" />
+              {isSavingProfile ? 'Saving...' : isRegistered ? 'Update Profile' : 'Register'}
+            </button>
+          </form>
+
+          <div className="space-y-6">
+            {/* Availability */}
+            <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Availability</h2>
+              {!isRegistered ? (
+                <p className="text-sm text-gray-600">Register your profile to set your availability.</p>
+              ) : transporter?.status === TRANSPORTER_STATUS.SUSPENDED ? (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                  Your account is suspended. Contact an administrator to restore it.
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  {SELF_SERVICE_STATUSES.map(status => (
+                    <button
+                      key={status}
+                      onClick={() => handleStatusChange(status)}
+                      disabled={pendingStatus !== null || transporter?.status === status}
+                      className={`px-3 py-2 text-sm rounded-lg border transition-colors disabled:cursor-not-allowed ${
+                        transporter?.status === status
+                          ? getTransporterStatusColor(status)
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+                      }`}
+                    >
+                      {pendingStatus === status ? 'Updating...' : getTransporterStatusLabel(status)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Job Board */}
+            <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                  <Briefcase className="h-5 w-5 text-green-600" />
+                  Job Board
+                </h2>
+                <button
+                  onClick={() => refetchAwaiting()}
+                  className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-gray-50"
+                  title="Refresh jobs"
+                >
+                  <RefreshCw className={`h-4 w-4 ${isLoadingJobs ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+
+              {!isRegistered ? (
+                <p className="text-sm text-gray-600">Register your profile to bid on delivery jobs.</p>
+              ) : !isActive ? (
+                <p className="text-sm text-gray-600">Set your availability to Active to accept new jobs.</p>
+              ) : isLoadingJobs && jobs.length === 0 ? (
+                <LoadingSpinner text="Loading jobs..." className="py-6" />
+              ) : jobs.length === 0 ? (
+                <p className="text-sm text-gray-600 text-center py-6">No orders are waiting for a transporter right now.</p>
+              ) : (
+                <div className="space-y-3">
+                  {jobs.map(order => (
+                    <JobCard
+                      key={order.orderId.toString()}
+                      order={order}
+                      account={account}
+                      transporter={transporter}
+                      onBid={handleBid}
+                      isSubmitting={biddingOrderId === order.orderId.toString()}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransporterPage;
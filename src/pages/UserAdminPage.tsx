@@ -0,0 +1,377 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePublicClient } from 'wagmi';
+import { isAddress, Hash } from 'viem';
+import { Users, RefreshCw, AlertTriangle, Search, UserPlus, UserMinus, Pause, Play, ShieldCheck } from 'lucide-react';
+import { useWeb3Enhanced } from '../contexts/Web3ContextEnhanced';
+import { useToast } from '../contexts/ToastContext';
+import {
+  useRegisteredUsers,
+  useGrantUserRole,
+  useRevokeUserRole,
+  useUserManagementPaused,
+  useSetUserManagementPaused,
+  useUserManagementEvents,
+  RegisteredUser,
+  ManagedRole,
+} from '../hooks/useUserManagement';
+import { getErrorMessage, formatAddress, formatDate } from '../utils';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const MANAGED_ROLES: { id: ManagedRole; label: string; flag: keyof RegisteredUser }[] = [
+  { id: 'farmer', label: 'Farmer', flag: 'isFarmer' },
+  { id: 'transporter', label: 'Transporter', flag: 'isTransporter' },
+  { id: 'buyer', label: 'Buyer', flag: 'isBuyer' },
+];
+
+const UserAdminPage: React.FC = () => {
+  const { isAdmin, isConnected } = useWeb3Enhanced();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+
+  const { isLoading, getRegisteredUsers } = useRegisteredUsers();
+  const { writeAsync: grantUserRole } = useGrantUserRole();
+  const { writeAsync: revokeUserRole } = useRevokeUserRole();
+  const { data: isPaused, refetch: refetchPaused } = useUserManagementPaused();
+  const { writeAsync: setPaused } = useSetUserManagementPaused();
+
+  const [users, setUsers] = useState<RegisteredUser[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [bulkRole, setBulkRole] = useState<ManagedRole>('farmer');
+  const [newUserAddress, setNewUserAddress] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    const registeredUsers = await getRegisteredUsers();
+    setUsers(registeredUsers.sort((a, b) => b.registeredAt - a.registeredAt));
+  }, [getRegisteredUsers]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadUsers();
+    }
+  }, [isAdmin, loadUsers]);
+
+  const handleUserEvent = useCallback(() => { loadUsers(); }, [loadUsers]);
+  const handlePauseEvent = useCallback(() => { refetchPaused(); }, [refetchPaused]);
+
+  useUserManagementEvents('UserRegistered', handleUserEvent, isAdmin);
+  useUserManagementEvents('RoleGranted', handleUserEvent, isAdmin);
+  useUserManagementEvents('RoleRevoked', handleUserEvent, isAdmin);
+  useUserManagementEvents('Paused', handlePauseEvent, isAdmin);
+  useUserManagementEvents('Unpaused', handlePauseEvent, isAdmin);
+
+  const filteredUsers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return users;
+    return users.filter(user =>
+      user.address.toLowerCase().includes(term) ||
+      MANAGED_ROLES.some(role => user[role.flag] && role.label.toLowerCase().includes(term))
+    );
+  }, [users, searchTerm]);
+
+  // Helper function to wait for a transaction and fail loudly if it reverted
+  const confirmTransaction = async (hash: Hash) => {
+    if (!publicClient) return;
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted');
+    }
+  };
+
+  // Grant or revoke one role for several users. The contract has no batch setter,
+  // so each change is its own transaction and users that already match are skipped.
+  const applyRole = async (addresses: string[], role: ManagedRole, grant: boolean) => {
+    const roleInfo = MANAGED_ROLES.find(item => item.id === role)!;
+    const targets = addresses.filter(address => {
+      const user = users.find(item => item.address.toLowerCase() === address.toLowerCase());
+      return !user || Boolean(user[roleInfo.flag]) !== grant;
+    });
+
+    if (targets.length === 0) {
+      addToast(`Every selected user ${grant ? 'already has' : 'already lacks'} the ${roleInfo.label} role`, 'info');
+      return;
+    }
+
+    setPendingAction(`${grant ? 'grant' : 'revoke'}-${role}`);
+    let completed = 0;
+    try {
+      for (const address of targets) {
+        setProgress(`${grant ? 'Granting' : 'Revoking'} ${roleInfo.label} (${completed + 1}/${targets.length}): ${formatAddress(address)}`);
+        const hash = grant
+          ? await grantUserRole({ user: address, role })
+          : await revokeUserRole({ user: address, role });
+        await confirmTransaction(hash);
+        completed += 1;
+      }
+
+      addToast(`${roleInfo.label} role ${grant ? 'granted to' : 'revoked from'} ${completed} user(s)`, 'success');
+      setSelectedUsers([]);
+    } catch (error) {
+      console.error('Role update failed:', error);
+      addToast(
+        `Role update stopped after ${completed} of ${targets.length}: ${getErrorMessage(error)}`,
+        'error'
+      );
+    } finally {
+      setPendingAction(null);
+      setProgress(null);
+      loadUsers();
+    }
+  };
+
+  const handleAddUser = async () => {
+    const address = newUserAddress.trim();
+    if (!isAddress(address)) {
+      addToast('Please enter a valid address', 'error');
+      return;
+    }
+    await applyRole([address], bulkRole, true);
+    setNewUserAddress('');
+  };
+
+  const handleTogglePause = async () => {
+    const pausing = !isPaused;
+    const message = pausing
+      ? 'Pause UserManagement? Registrations and role changes will be blocked until it is unpaused.'
+      : 'Unpause UserManagement and allow registrations and role changes again?';
+    if (!window.confirm(message)) return;
+
+    setPendingAction('pause');
+    try {
+      await confirmTransaction(await setPaused({ paused: pausing }));
+      addToast(`UserManagement ${pausing ? 'paused' : 'unpaused'}`, 'success');
+      await refetchPaused();
+    } catch (error) {
+      console.error('Pause toggle failed:', error);
+      addToast(`Failed to ${pausing ? 'pause' : 'unpause'}: ${getErrorMessage(error)}`, 'error');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const toggleSelected = (address: string) => {
+    setSelectedUsers(prev =>
+      prev.includes(address) ? prev.filter(item => item !== address) : [...prev, address]
+    );
+  };
+
+  const allVisibleSelected = filteredUsers.length > 0 && filteredUsers.every(user => selectedUsers.includes(user.address));
+
+  const toggleSelectAll = () => {
+    setSelectedUsers(allVisibleSelected ? [] : filteredUsers.map(user => user.address));
+  };
+
+  if (isConnected && !isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg border border-yellow-200 p-8 text-center">
+          <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Admin Role Required</h2>
+          <p className="text-gray-600">
+            Only administrators can manage users and roles.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg p-4 shadow border border-gray-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Users and Roles</h1>
+            <p className="text-sm text-gray-600">
+              {users.length} registered user{users.length === 1 ? '' : 's'} on UserManagement
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleTogglePause}
+              disabled={pendingAction !== null || isPaused === undefined}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg border disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
+                isPaused
+                  ? 'text-green-700 border-green-200 hover:bg-green-50'
+                  : 'text-red-600 border-red-200 hover:bg-red-50'
+              }`}
+            >
+              {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              <span className="text-sm">
+                {pendingAction === 'pause' ? 'Confirming...' : isPaused ? 'Unpause Contract' : 'Pause Contract'}
+              </span>
+            </button>
+            <button
+              onClick={loadUsers}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              <span className="text-sm">{isLoading ? 'Refreshing...' : 'Refresh'}</span>
+            </button>
+          </div>
+        </div>
+
+        {Boolean(isPaused) && (
+          <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <Pause className="h-5 w-5 flex-shrink-0" />
+            UserManagement is paused. New registrations and role changes are blocked.
+          </div>
+        )}
+
+        {/* Bulk actions */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-4 space-y-4">
+          <div className="flex flex-col md:flex-row gap-3 md:items-center">
+            <div className="relative flex-1">
+              <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search by address or role"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+            </div>
+            <select
+              value={bulkRole}
+              onChange={(e) => setBulkRole(e.target.value as ManagedRole)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+            >
+              {MANAGED_ROLES.map(role => (
+                <option key={role.id} value={role.id}>{role.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => applyRole(selectedUsers, bulkRole, true)}
+              disabled={pendingAction !== null || selectedUsers.length === 0}
+              className="flex items-center justify-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <UserPlus className="h-4 w-4" />
+              Grant to {selectedUsers.length} selected
+            </button>
+            <button
+              onClick={() => applyRole(selectedUsers, bulkRole, false)}
+              disabled={pendingAction !== null || selectedUsers.length === 0}
+              className="flex items-center justify-center gap-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <UserMinus className="h-4 w-4" />
+              Revoke from {selectedUsers.length} selected
+            </button>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              value={newUserAddress}
+              onChange={(e) => setNewUserAddress(e.target.value)}
+              placeholder="0x... grant the selected role to a new address"
+              className="flex-1 px-3 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+            />
+            <button
+              onClick={handleAddUser}
+              disabled={pendingAction !== null || !newUserAddress.trim()}
+              className="flex items-center justify-center gap-2 px-3 py-2 text-sm text-green-700 border border-green-200 rounded-lg hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <UserPlus className="h-4 w-4" />
+              Add User
+            </button>
+          </div>
+
+          {progress && (
+            <p className="text-sm text-gray-600 flex items-center gap-2">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              {progress}
+            </p>
+          )}
+        </div>
+
+        {/* Users */}
+        {isLoading && users.length === 0 ? (
+          <LoadingSpinner text="Loading users..." className="py-12" />
+        ) : filteredUsers.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md mx-auto border border-gray-100">
+              <div className="h-16 w-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                <Users className="h-8 w-8 text-gray-400" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">No users found</h3>
+              <p className="text-gray-600">
+                {users.length === 0 ? 'Nobody has registered yet.' : 'No users match your search.'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allVisibleSelected}
+                      onChange={toggleSelectAll}
+                      className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Address</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Roles</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">First Registered</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filteredUsers.map(user => (
+                  <tr key={user.address} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedUsers.includes(user.address)}
+                        onChange={() => toggleSelected(user.address)}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-mono text-gray-900">{formatAddress(user.address, 10, 8)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-2">
+                        {MANAGED_ROLES.map(role => {
+                          const hasIt = Boolean(user[role.flag]);
+                          return (
+                            <button
+                              key={role.id}
+                              onClick={() => applyRole([user.address], role.id, !hasIt)}
+                              disabled={pendingAction !== null}
+                              title={hasIt ? `Revoke ${role.label}` : `Grant ${role.label}`}
+                              className={`px-2 py-1 rounded-full text-xs font-medium border transition-colors disabled:cursor-not-allowed ${
+                                hasIt
+                                  ? 'bg-green-100 text-green-800 border-green-200 hover:bg-red-50 hover:text-red-700 hover:border-red-200'
+                                  : 'bg-white text-gray-400 border-dashed border-gray-300 hover:text-green-700 hover:border-green-300'
+                              }`}
+                            >
+                              {role.label}
+                            </button>
+                          );
+                        })}
+                        {user.isAdmin && (
+                          <span className="flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800 border border-purple-200">
+                            <ShieldCheck className="h-3 w-3" />
+                            Admin
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {user.registeredAt ? formatDate(Math.floor(user.registeredAt / 1000)) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserAdminPage;
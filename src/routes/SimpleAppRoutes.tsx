@@ -8,6 +8,7 @@ import SidebarSimple from '../components/SidebarSimple';
 import CartSidebar from '../components/CartSidebar';
 import HybridConnectButton from '../components/HybridConnectButton';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RoleGuard from '../components/RoleGuard';
 import LandingPage from '../pages/LandingPage';
 import AuthenticationPage from '../pages/AuthenticationPage';
 import AuthTestPage from '../pages/AuthTestPage';
@@ -17,7 +18,16 @@ import TokenizationPage from '../pages/TokenizationPage';
 import TransferOwnershipPage from '../pages/TransferOwnershipPage';
 import SupplyChainExplorer from '../pages/SupplyChainExplorer';
 import Marketplace from '../pages/Marketplace';
+import MyListingsPage from '../pages/MyListingsPage';
 import CheckoutAndTrack from '../pages/CheckoutAndTrack';
+import OrdersPage from '../pages/OrdersPage';
+import DisputesPage from '../pages/DisputesPage';
+import PaymasterAdminPage from '../pages/PaymasterAdminPage';
+import UserAdminPage from '../pages/UserAdminPage';
+import RoleRequestsPage from '../pages/RoleRequestsPage';
+import RoyaltyAdminPage from '../pages/RoyaltyAdminPage';
+import TransporterPage from '../pages/TransporterPage';
+import OperatorApprovalsPage from '../pages/OperatorApprovalsPage';
 
 // Simple Connect Button Component using HybridConnectButton
 const SimpleConnectButton: React.FC = () => {
@@ -115,13 +125,23 @@ const AppContent = () => {
               <Route path="/" element={<Dashboard />} />
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/profile" element={<UserProfile />} />
-              <Route path="/mint" element={<TokenizationPage />} />
-              <Route path="/tokenize" element={<TokenizationPage />} />
-              <Route path="/transfer" element={<TransferOwnershipPage />} />
+              <Route path="/mint" element={<RoleGuard roles={['farmer', 'admin']}><TokenizationPage /></RoleGuard>} />
+              <Route path="/tokenize" element={<RoleGuard roles={['farmer', 'admin']}><TokenizationPage /></RoleGuard>} />
+              <Route path="/transfer" element={<RoleGuard roles={['farmer', 'transporter']}><TransferOwnershipPage /></RoleGuard>} />
               <Route path="/explorer" element={<SupplyChainExplorer />} />
               <Route path="/marketplace" element={<Marketplace />} />
+              <Route path="/listings" element={<MyListingsPage />} />
               <Route path="/track" element={<CheckoutAndTrack />} />
               <Route path="/track/:tokenId" element={<CheckoutAndTrack />} />
+              <Route path="/orders" element={<RoleGuard roles={['buyer', 'farmer', 'transporter']}><OrdersPage /></RoleGuard>} />
+              <Route path="/transport" element={<RoleGuard roles={['transporter']}><TransporterPage /></RoleGuard>} />
+              {/* Left open: any wallet can hold tokens, and must be able to revoke who moves them */}
+              <Route path="/operators" element={<OperatorApprovalsPage />} />
+              <Route path="/disputes" element={<RoleGuard roles={['admin']}><DisputesPage /></RoleGuard>} />
+              <Route path="/paymaster" element={<RoleGuard roles={['admin']}><PaymasterAdminPage /></RoleGuard>} />
+              <Route path="/admin/users" element={<RoleGuard roles={['admin']}><UserAdminPage /></RoleGuard>} />
+              <Route path="/admin/role-requests" element={<RoleGuard roles={['admin']}><RoleRequestsPage /></RoleGuard>} />
+              <Route path="/admin/royalty" element={<RoleGuard roles={['admin']}><RoyaltyAdminPage /></RoleGuard>} />
               <Route path="/auth" element={<AuthenticationPage />} />
               <Route path="/auth-test" element={<AuthTestPage />} />
             </Routes>
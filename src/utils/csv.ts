@@ -0,0 +1,62 @@
+/**
+ * CSV Utilities
+ * Parses spreadsheet exports (RFC 4180 style: quoted fields, escaped quotes,
+ * CRLF or LF line endings) into rows of cells
+ */
+
+// Helper function to pick the delimiter a spreadsheet used; locales with decimal commas export with semicolons
+const detectDelimiter = (headerLine: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce(
+    (best, candidate) => (headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best),
+    ','
+  );
+};
+
+/**
+ * Parse CSV text into rows of trimmed cells. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, ''); // Excel prefixes UTF-8 exports with a byte order mark
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+};
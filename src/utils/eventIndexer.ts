@@ -0,0 +1,593 @@
+/**
+ * Event Indexer
+ * Incrementally syncs CropBatchToken, SupplyChainManager, GreenLedgerPaymaster and
+ * UserManagement events into IndexedDB so history lookups read from a local index instead of scanning from 'earliest'
+ */
+
+import type { PublicClient } from 'viem';
+import { CONTRACT_ADDRESSES, INDEXER_CONFIG } from '../config/constants';
+
+// Types
+export type IndexedEventName =
+  | 'TransferSingle'
+  | 'TransferBatch'
+  | 'CropBatchMinted'
+  | 'MetadataUpdated'
+  | 'MetadataFrozen'
+  | 'ApprovalForAll'
+  | 'StateTransition'
+  | 'SupplyChainStepAdded'
+  | 'UserOperationSponsored'
+  | 'OperationStatusUpdated'
+  | 'SenderStatusUpdated'
+  | 'UserRegistered'
+  | 'UserRoleRevoked'
+  | 'RoleGranted'
+  | 'RoleRevoked';
+
+export interface IndexedEvent {
+  id: string; // `${transactionHash}-${logIndex}`
+  eventName: IndexedEventName;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  tokenIds: number[]; // Every token the event touches (TransferBatch can touch several; approval, paymaster and user events none)
+  args: Record<string, any>;
+}
+
+export interface IndexedEventFilter {
+  eventNames?: IndexedEventName[];
+  tokenId?: number;
+}
+
+interface CachedBlock {
+  number: number;
+  hash: string;
+  timestamp: number; // Milliseconds
+}
+
+interface SyncCursor {
+  blockNumber: number;
+  blockHash: string; // Empty after a rollback until the next chunk is written
+  contracts: string;
+}
+
+const CROP_BATCH_TOKEN_EVENTS = [
+  {
+    type: 'event',
+    name: 'TransferSingle',
+    inputs: [
+      { name: 'operator', type: 'address', indexed: true },
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'id', type: 'uint256', indexed: false },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'TransferBatch',
+    inputs: [
+      { name: 'operator', type: 'address', indexed: true },
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'ids', type: 'uint256[]', indexed: false },
+      { name: 'values', type: 'uint256[]', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'CropBatchMinted',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'minter', type: 'address', indexed: true },
+      { name: 'metadataUri', type: 'string', indexed: false },
+      { name: 'cropType', type: 'string', indexed: false },
+      { name: 'quantity', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'MetadataUpdated',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'newUri', type: 'string', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'MetadataFrozen',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ApprovalForAll',
+    inputs: [
+      { name: 'account', type: 'address', indexed: true },
+      { name: 'operator', type: 'address', indexed: true },
+      { name: 'approved', type: 'bool', indexed: false },
+    ],
+  },
+] as const;
+
+const SUPPLY_CHAIN_MANAGER_EVENTS = [
+  {
+    type: 'event',
+    name: 'StateTransition',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'fromState', type: 'uint8', indexed: true },
+      { name: 'toState', type: 'uint8', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'SupplyChainStepAdded',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'actor', type: 'address', indexed: true },
+      { name: 'newState', type: 'uint8', indexed: true },
+      { name: 'location', type: 'string', indexed: false },
+      { name: 'notes', type: 'string', indexed: false },
+    ],
+  },
+] as const;
+
+const PAYMASTER_EVENTS = [
+  {
+    type: 'event',
+    name: 'UserOperationSponsored',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'operation', type: 'bytes4', indexed: true },
+      { name: 'actualGasCost', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'OperationStatusUpdated',
+    inputs: [
+      { name: 'operation', type: 'bytes4', indexed: true },
+      { name: 'allowed', type: 'bool', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'SenderStatusUpdated',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'allowed', type: 'bool', indexed: false },
+    ],
+  },
+] as const;
+
+const USER_MANAGEMENT_EVENTS = [
+  {
+    type: 'event',
+    name: 'UserRegistered',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'role', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'UserRoleRevoked',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'role', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'RoleGranted',
+    inputs: [
+      { name: 'role', type: 'bytes32', indexed: true },
+      { name: 'account', type: 'address', indexed: true },
+      { name: 'sender', type: 'address', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'RoleRevoked',
+    inputs: [
+      { name: 'role', type: 'bytes32', indexed: true },
+      { name: 'account', type: 'address', indexed: true },
+      { name: 'sender', type: 'address', indexed: true },
+    ],
+  },
+] as const;
+
+const DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+const BLOCKS_STORE = 'blocks';
+const META_STORE = 'meta';
+const CURSOR_KEY = 'cursor';
+
+// One open connection, one running sync and one last-sync time per chain
+const databases = new Map<number, Promise<IDBDatabase>>();
+const runningSyncs = new Map<number, Promise<void>>();
+const lastSyncedAt = new Map<number, number>();
+
+// Helper function to resolve the chain a client is connected to
+const resolveChainId = async (client: PublicClient): Promise<number> => {
+  return client.chain?.id ?? client.getChainId();
+};
+
+// Helper function to fingerprint the indexed deployment and event set, so address changes
+// or newly indexed events start a fresh index instead of missing earlier blocks
+const getContractsFingerprint = (): string => {
+  const eventNames = [
+    ...CROP_BATCH_TOKEN_EVENTS,
+    ...SUPPLY_CHAIN_MANAGER_EVENTS,
+    ...PAYMASTER_EVENTS,
+    ...USER_MANAGEMENT_EVENTS,
+  ].map(event => event.name);
+
+  return [
+    CONTRACT_ADDRESSES.CropBatchToken,
+    CONTRACT_ADDRESSES.SupplyChainManager,
+    CONTRACT_ADDRESSES.GreenLedgerPaymaster,
+    CONTRACT_ADDRESSES.UserManagement,
+    ...eventNames,
+  ].join(':').toLowerCase();
+};
+
+// Helper function to wrap an IndexedDB request in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Helper function to wait for an IndexedDB transaction to commit
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+};
+
+// Helper function to open (and create on first use) the event database for a chain
+const openDatabase = (chainId: number): Promise<IDBDatabase> => {
+  const existing = databases.get(chainId);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(`greenledger-events-${chainId}`, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      const events = database.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+      events.createIndex('eventName', 'eventName');
+      events.createIndex('blockNumber', 'blockNumber');
+      events.createIndex('tokenIds', 'tokenIds', { multiEntry: true });
+      database.createObjectStore(BLOCKS_STORE, { keyPath: 'number' });
+      database.createObjectStore(META_STORE);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry if opening failed (e.g. blocked by another tab)
+  opening.catch(() => databases.delete(chainId));
+  databases.set(chainId, opening);
+  return opening;
+};
+
+// Helper function to read the sync cursor
+const readCursor = async (database: IDBDatabase): Promise<SyncCursor | null> => {
+  const transaction = database.transaction(META_STORE, 'readonly');
+  const cursor = await requestToPromise(transaction.objectStore(META_STORE).get(CURSOR_KEY));
+  return (cursor as SyncCursor) || null;
+};
+
+// Helper function to drop everything indexed after a block and move the cursor back to it
+const rollbackIndex = async (
+  database: IDBDatabase,
+  toBlock: number,
+  startBlock: number,
+  contracts: string
+): Promise<SyncCursor | null> => {
+  const transaction = database.transaction([EVENTS_STORE, BLOCKS_STORE, META_STORE], 'readwrite');
+  const events = transaction.objectStore(EVENTS_STORE);
+  const staleRange = IDBKeyRange.lowerBound(toBlock, true);
+
+  const staleKeys = await requestToPromise(events.index('blockNumber').getAllKeys(staleRange));
+  staleKeys.forEach(key => events.delete(key));
+  transaction.objectStore(BLOCKS_STORE).delete(staleRange);
+
+  const cursor: SyncCursor | null = toBlock >= startBlock
+    ? { blockNumber: toBlock, blockHash: '', contracts }
+    : null;
+
+  if (cursor) {
+    transaction.objectStore(META_STORE).put(cursor, CURSOR_KEY);
+  } else {
+    transaction.objectStore(META_STORE).delete(CURSOR_KEY);
+  }
+
+  await transactionToPromise(transaction);
+  return cursor;
+};
+
+// Helper function to clear the whole index
+const resetIndex = async (database: IDBDatabase): Promise<void> => {
+  const transaction = database.transaction([EVENTS_STORE, BLOCKS_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(EVENTS_STORE).clear();
+  transaction.objectStore(BLOCKS_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  await transactionToPromise(transaction);
+};
+
+// Helper function to fetch every indexed event in a block range
+const fetchEvents = async (client: PublicClient, fromBlock: number, toBlock: number): Promise<IndexedEvent[]> => {
+  const [tokenLogs, supplyChainLogs, paymasterLogs, userLogs] = await Promise.all([
+    client.getLogs({
+      address: CONTRACT_ADDRESSES.CropBatchToken as `0x${string}`,
+      events: CROP_BATCH_TOKEN_EVENTS,
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    }),
+    client.getLogs({
+      address: CONTRACT_ADDRESSES.SupplyChainManager as `0x${string}`,
+      events: SUPPLY_CHAIN_MANAGER_EVENTS,
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    }),
+    client.getLogs({
+      address: CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`,
+      events: PAYMASTER_EVENTS,
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    }),
+    client.getLogs({
+      address: CONTRACT_ADDRESSES.UserManagement as `0x${string}`,
+      events: USER_MANAGEMENT_EVENTS,
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    }),
+  ]);
+
+  const tokenlessEventNames: string[] = ['ApprovalForAll', ...[...PAYMASTER_EVENTS, ...USER_MANAGEMENT_EVENTS].map(event => event.name)];
+
+  return [...tokenLogs, ...supplyChainLogs, ...paymasterLogs, ...userLogs].map(log => {
+    const args = log.args as Record<string, any>;
+    const tokenIds = tokenlessEventNames.includes(log.eventName)
+      ? []
+      : log.eventName === 'TransferBatch'
+        ? (args.ids as readonly bigint[]).map(Number)
+        : [Number(log.eventName === 'TransferSingle' ? args.id : args.tokenId)];
+
+    return {
+      id: `${log.transactionHash}-${log.logIndex}`,
+      eventName: log.eventName as IndexedEventName,
+      address: log.address,
+      blockNumber: Number(log.blockNumber),
+      blockHash: log.blockHash as string,
+      transactionHash: log.transactionHash as string,
+      logIndex: Number(log.logIndex),
+      tokenIds,
+      args,
+    };
+  });
+};
+
+// Helper function to fetch blocks with at most BLOCK_FETCH_CONCURRENCY requests in flight
+const fetchBlocks = async (client: PublicClient, blockNumbers: number[]): Promise<CachedBlock[]> => {
+  const blocks: CachedBlock[] = [];
+  for (let start = 0; start < blockNumbers.length; start += INDEXER_CONFIG.BLOCK_FETCH_CONCURRENCY) {
+    const chunk = blockNumbers.slice(start, start + INDEXER_CONFIG.BLOCK_FETCH_CONCURRENCY);
+    const fetched = await Promise.all(
+      chunk.map(blockNumber => client.getBlock({ blockNumber: BigInt(blockNumber) }))
+    );
+    blocks.push(...fetched.map(block => ({
+      number: Number(block.number),
+      hash: block.hash as string,
+      timestamp: Number(block.timestamp) * 1000,
+    })));
+  }
+  return blocks;
+};
+
+// Helper function to store one fetched block range and advance the cursor atomically
+const storeRange = async (
+  client: PublicClient,
+  database: IDBDatabase,
+  events: IndexedEvent[],
+  fromBlock: number,
+  toBlock: number,
+  contracts: string
+): Promise<void> => {
+  const blockNumbers = Array.from(new Set([...events.map(event => event.blockNumber), toBlock]));
+  const blocks = await fetchBlocks(client, blockNumbers);
+  const blocksByNumber = new Map<number, CachedBlock>(blocks.map(block => [block.number, block]));
+
+  // A log from a block that is no longer canonical means the chain moved under us
+  if (events.some(event => blocksByNumber.get(event.blockNumber)?.hash !== event.blockHash)) {
+    throw new Error(`Chain reorganised while indexing blocks ${fromBlock}-${toBlock}`);
+  }
+
+  const transaction = database.transaction([EVENTS_STORE, BLOCKS_STORE, META_STORE], 'readwrite');
+  const eventStore = transaction.objectStore(EVENTS_STORE);
+  const blockStore = transaction.objectStore(BLOCKS_STORE);
+
+  events.forEach(event => eventStore.put(event));
+  events.forEach(event => blockStore.put(blocksByNumber.get(event.blockNumber)));
+  transaction.objectStore(META_STORE).put(
+    { blockNumber: toBlock, blockHash: blocksByNumber.get(toBlock)!.hash, contracts } as SyncCursor,
+    CURSOR_KEY
+  );
+
+  await transactionToPromise(transaction);
+};
+
+// Helper function to bring the index up to the latest block
+const runSync = async (client: PublicClient, chainId: number): Promise<void> => {
+  const startBlock = INDEXER_CONFIG.START_BLOCK;
+  if (startBlock === null || !Number.isInteger(startBlock) || startBlock < 0) {
+    throw new Error('VITE_INDEXER_START_BLOCK must be set to the block the contracts were deployed at');
+  }
+
+  const database = await openDatabase(chainId);
+  const contracts = getContractsFingerprint();
+  const latestBlock = Number(await client.getBlockNumber());
+  let cursor = await readCursor(database);
+
+  if (cursor && (cursor.contracts !== contracts || cursor.blockNumber > latestBlock)) {
+    // New deployment or a chain that was reset (e.g. a local node)
+    await resetIndex(database);
+    cursor = null;
+  } else if (cursor?.blockHash) {
+    const cursorBlock = await client.getBlock({ blockNumber: BigInt(cursor.blockNumber) });
+    if (cursorBlock.hash !== cursor.blockHash) {
+      const safeBlock = Math.max(startBlock - 1, cursor.blockNumber - INDEXER_CONFIG.REORG_DEPTH);
+      console.warn(`Chain reorganisation detected at block ${cursor.blockNumber}, re-indexing from block ${safeBlock + 1}`);
+      cursor = await rollbackIndex(database, safeBlock, startBlock, contracts);
+    }
+  }
+
+  let fromBlock = cursor ? cursor.blockNumber + 1 : startBlock;
+  let chunkSize: number = INDEXER_CONFIG.LOG_CHUNK_SIZE;
+
+  while (fromBlock <= latestBlock) {
+    const toBlock = Math.min(fromBlock + chunkSize - 1, latestBlock);
+
+    let events: IndexedEvent[];
+    try {
+      events = await fetchEvents(client, fromBlock, toBlock);
+    } catch (error) {
+      // Most RPC providers cap the block range per getLogs call; shrink the window and retry
+      if (chunkSize > INDEXER_CONFIG.MIN_LOG_CHUNK_SIZE) {
+        chunkSize = Math.max(INDEXER_CONFIG.MIN_LOG_CHUNK_SIZE, Math.floor(chunkSize / 2));
+        continue;
+      }
+      throw error;
+    }
+
+    await storeRange(client, database, events, fromBlock, toBlock, contracts);
+    fromBlock = toBlock + 1;
+  }
+};
+
+/**
+ * Sync the local index up to the latest block.
+ * Concurrent callers share one sync, and calls within MIN_SYNC_INTERVAL_MS
+ * of the last successful sync are skipped unless forced.
+ */
+export const syncEventIndex = async (client: PublicClient, force: boolean = false): Promise<void> => {
+  const chainId = await resolveChainId(client);
+
+  const running = runningSyncs.get(chainId);
+  if (running) return running;
+
+  if (!force && Date.now() - (lastSyncedAt.get(chainId) || 0) < INDEXER_CONFIG.MIN_SYNC_INTERVAL_MS) {
+    return;
+  }
+
+  const sync = runSync(client, chainId)
+    .then(() => {
+      lastSyncedAt.set(chainId, Date.now());
+    })
+    .finally(() => {
+      runningSyncs.delete(chainId);
+    });
+
+  runningSyncs.set(chainId, sync);
+  return sync;
+};
+
+/**
+ * Mark the index as stale so the next read syncs immediately,
+ * e.g. when a contract event watcher fires
+ */
+export const invalidateEventIndex = (): void => {
+  lastSyncedAt.clear();
+};
+
+/**
+ * Read indexed events in chain order, without syncing
+ */
+export const getIndexedEvents = async (
+  client: PublicClient,
+  filter: IndexedEventFilter = {}
+): Promise<IndexedEvent[]> => {
+  const database = await openDatabase(await resolveChainId(client));
+  const store = database.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE);
+
+  let events: IndexedEvent[];
+  if (filter.tokenId !== undefined) {
+    events = await requestToPromise(store.index('tokenIds').getAll(filter.tokenId));
+  } else if (filter.eventNames?.length === 1) {
+    events = await requestToPromise(store.index('eventName').getAll(filter.eventNames[0]));
+  } else {
+    events = await requestToPromise(store.getAll());
+  }
+
+  return events
+    .filter(event => !filter.eventNames || filter.eventNames.includes(event.eventName))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+};
+
+/**
+ * Sync and then read indexed events. A failed sync is logged and the
+ * last indexed state is returned so pages still render while the RPC is down.
+ */
+export const loadIndexedEvents = async (
+  client: PublicClient,
+  filter: IndexedEventFilter = {}
+): Promise<IndexedEvent[]> => {
+  try {
+    await syncEventIndex(client);
+  } catch (error) {
+    console.warn('Event index sync failed, using previously indexed events:', error);
+  }
+
+  return getIndexedEvents(client, filter);
+};
+
+/**
+ * Block timestamps in milliseconds, served from the cache and fetched once when missing
+ */
+export const getBlockTimestamps = async (
+  client: PublicClient,
+  blockNumbers: number[]
+): Promise<Map<number, number>> => {
+  const database = await openDatabase(await resolveChainId(client));
+  const uniqueNumbers = Array.from(new Set(blockNumbers));
+  const timestamps = new Map<number, number>();
+
+  const store = database.transaction(BLOCKS_STORE, 'readonly').objectStore(BLOCKS_STORE);
+  const cached = await Promise.all(
+    uniqueNumbers.map(blockNumber => requestToPromise(store.get(blockNumber)) as Promise<CachedBlock | undefined>)
+  );
+  cached.forEach(block => {
+    if (block) timestamps.set(block.number, block.timestamp);
+  });
+
+  const missing = uniqueNumbers.filter(blockNumber => !timestamps.has(blockNumber));
+  if (missing.length > 0) {
+    const blocks = await fetchBlocks(client, missing);
+
+    const transaction = database.transaction(BLOCKS_STORE, 'readwrite');
+    blocks.forEach(block => {
+      transaction.objectStore(BLOCKS_STORE).put(block);
+      timestamps.set(block.number, block.timestamp);
+    });
+    await transactionToPromise(transaction);
+  }
+
+  return timestamps;
+};
@@ -3,6 +3,8 @@
  * Common helper functions used throughout the application
  */
 
+import { VALIDATION_LIMITS } from '../config/constants';
+
 /**
  * Extract a readable error message from various error types
  */
@@ -239,4 +241,40 @@ export const getAddressExplorerUrl = (address: string): string => {
 export const getTokenExplorerUrl = (contractAddress: string, tokenId: string): string => {
   const baseUrl = import.meta.env.VITE_BLOCK_EXPLORER_URL || 'https://sepolia-blockscout.lisk.com';
   return `${baseUrl}/token/${contractAddress}/instance/${tokenId}`;
-};
\ No newline at end of file
+};
+
+/**
+ * Validate one field of a crop batch as entered for tokenization.
+ * Returns the error message, or null when the value is acceptable.
+ */
+export const validateCropBatchField = (name: string, value: string): string | null => {
+  if (!value && ['name', 'cropType', 'quantity', 'pricePerKg', 'originFarm', 'harvestDate'].includes(name)) {
+    return 'This field is required.';
+  }
+
+  if (name === 'quantity') {
+    const q = parseInt(value);
+    if (isNaN(q) || q < VALIDATION_LIMITS.MIN_QUANTITY_KG || q > VALIDATION_LIMITS.MAX_QUANTITY_KG) {
+      return `Quantity must be between ${VALIDATION_LIMITS.MIN_QUANTITY_KG} and ${VALIDATION_LIMITS.MAX_QUANTITY_KG} kg.`;
+    }
+  }
+
+  if (name === 'pricePerKg') {
+    const price = parseFloat(value);
+    if (isNaN(price) || price <= 0) {
+      return 'Price must be a positive number.';
+    }
+    if (price > 1000) {
+      return 'Price seems too high. Please check the value.';
+    }
+  }
+
+  if (name === 'harvestDate') {
+    const date = new Date(value);
+    if (isNaN(date.getTime()) || date > new Date()) {
+      return 'Please enter a valid harvest date (not in the future).';
+    }
+  }
+
+  return null;
+};
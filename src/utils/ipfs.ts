@@ -52,6 +52,9 @@ export interface UploadCropBatchParams {
   };
 }
 
+// Everything but the image, which is uploaded first and referenced by its URI
+export type CropBatchMetadataParams = Omit<UploadCropBatchParams, 'imageFile'>;
+
 /**
  * Upload a file to IPFS via Pinata
  */
@@ -307,7 +310,7 @@ const shouldUseMockIPFS = (): boolean => {
 /**
  * Create metadata object from upload parameters
  */
-const createMetadataObject = (params: UploadCropBatchParams, imageUri: string): CropMetadata => {
+const createMetadataObject = (params: CropBatchMetadataParams, imageUri: string): CropMetadata => {
   return {
     name: params.name,
     description: params.description,
@@ -339,26 +342,8 @@ const createMetadataObject = (params: UploadCropBatchParams, imageUri: string):
  */
 export const uploadCropBatch = async (params: UploadCropBatchParams): Promise<{ metadataUri: string }> => {
   try {
-    let imageUri: string;
-    let metadataUri: string;
-
-    if (shouldUseMockIPFS()) {
-      console.warn('Using mock IPFS service. Configure Pinata API keys for production use.');
-
-      // Mock file upload
-      imageUri = await mockUploadFile(params.imageFile);
-
-      // Create metadata and upload
-      const metadata = createMetadataObject(params, imageUri);
-      metadataUri = await mockUploadMetadata(metadata);
-    } else {
-      // Real IPFS upload
-      imageUri = await uploadFileToIPFS(params.imageFile);
-
-      // Create metadata and upload
-      const metadata = createMetadataObject(params, imageUri);
-      metadataUri = await uploadMetadataToIPFS(metadata);
-    }
+    const imageUri = await uploadCropBatchImage(params.imageFile);
+    const metadataUri = await uploadCropBatchMetadata(params, imageUri);
 
     return { metadataUri };
   } catch (error) {
@@ -367,6 +352,59 @@ export const uploadCropBatch = async (params: UploadCropBatchParams): Promise<{
   }
 };
 
+/**
+ * Upload a crop batch image on its own, for pipelines that record each step
+ * Automatically uses mock IPFS if API keys are not configured
+ */
+export const uploadCropBatchImage = async (imageFile: File): Promise<string> => {
+  if (shouldUseMockIPFS()) {
+    console.warn('Using mock IPFS service. Configure Pinata API keys for production use.');
+    return mockUploadFile(imageFile);
+  }
+
+  return uploadFileToIPFS(imageFile);
+};
+
+/**
+ * Build and upload crop batch metadata for an image that is already on IPFS
+ * Automatically uses mock IPFS if API keys are not configured
+ */
+export const uploadCropBatchMetadata = async (params: CropBatchMetadataParams, imageUri: string): Promise<string> => {
+  const metadata = createMetadataObject(params, imageUri);
+
+  if (shouldUseMockIPFS()) {
+    return mockUploadMetadata(metadata);
+  }
+
+  return uploadMetadataToIPFS(metadata);
+};
+
+/**
+ * Unpin content that is no longer referenced, such as the uploads of an abandoned tokenization
+ */
+export const unpinFromIPFS = async (ipfsUri: string): Promise<void> => {
+  const hash = ipfsUri.replace('ipfs://', '');
+
+  if (shouldUseMockIPFS()) {
+    localStorage.removeItem(`ipfs_${hash}`);
+    localStorage.removeItem(`ipfs_metadata_${hash}`);
+    return;
+  }
+
+  const response = await fetch(`https://api.pinata.cloud/pinning/unpin/${hash}`, {
+    method: 'DELETE',
+    headers: {
+      'pinata_api_key': IPFS_CONFIG.PINATA_API_KEY,
+      'pinata_secret_api_key': IPFS_CONFIG.PINATA_SECRET_API_KEY,
+    },
+  });
+
+  // Content that is already unpinned is as good as removed
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`IPFS unpin failed: HTTP ${response.status}: ${response.statusText}`);
+  }
+};
+
 // Mock IPFS functions (consolidated from mockIpfs.ts)
 const generateMockHash = (): string => {
   const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
@@ -447,4 +485,315 @@ export const ipfsToHttp = (
 
   // Return real IPFS gateway URL
   return `${gateway}/${hash}`;
-};
\ No newline at end of file
+};
+
+export interface DisputeEvidence {
+  orderId: string;
+  statement: string;
+  files: string[]; // IPFS URIs of supporting photos or documents
+  submittedBy: string;
+  submittedAt: number; // Unix timestamp
+}
+
+/**
+ * Upload dispute evidence (files + statement) to IPFS
+ * Automatically uses mock IPFS if API keys are not configured
+ */
+export const uploadDisputeEvidence = async (params: {
+  orderId: string;
+  statement: string;
+  files: File[];
+  submittedBy: string;
+}): Promise<string> => {
+  const useMock = shouldUseMockIPFS();
+
+  const fileUris = await Promise.all(
+    params.files.map(file => (useMock ? mockUploadFile(file) : uploadFileToIPFS(file)))
+  );
+
+  const evidence: DisputeEvidence = {
+    orderId: params.orderId,
+    statement: params.statement,
+    files: fileUris,
+    submittedBy: params.submittedBy,
+    submittedAt: Math.floor(Date.now() / 1000),
+  };
+
+  if (useMock) {
+    const mockHash = generateMockHash();
+    localStorage.setItem(`ipfs_evidence_${mockHash}`, JSON.stringify(evidence));
+    return `ipfs://${mockHash}`;
+  }
+
+  const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'pinata_api_key': IPFS_CONFIG.PINATA_API_KEY,
+      'pinata_secret_api_key': IPFS_CONFIG.PINATA_SECRET_API_KEY,
+    },
+    body: JSON.stringify({
+      pinataContent: evidence,
+      pinataMetadata: {
+        name: `greenledger-dispute-order-${params.orderId}`,
+        keyvalues: {
+          app: 'greenledger',
+          type: 'dispute-evidence',
+          orderId: params.orderId,
+          timestamp: new Date().toISOString()
+        }
+      }
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`IPFS evidence upload failed: HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return `ipfs://${data.IpfsHash}`;
+};
+
+/**
+ * Fetch dispute evidence from IPFS with fallback gateways
+ */
+export const fetchDisputeEvidence = async (ipfsUri: string): Promise<DisputeEvidence> => {
+  if (!ipfsUri.startsWith('ipfs://')) {
+    throw new Error('Invalid IPFS URI format');
+  }
+
+  const hash = ipfsUri.replace('ipfs://', '');
+
+  const mockEvidence = localStorage.getItem(`ipfs_evidence_${hash}`);
+  if (mockEvidence) {
+    return JSON.parse(mockEvidence) as DisputeEvidence;
+  }
+
+  const gateways = [IPFS_CONFIG.GATEWAY, ...IPFS_CONFIG.FALLBACK_GATEWAYS];
+  let lastError: Error | null = null;
+
+  for (const gateway of gateways) {
+    try {
+      const response = await fetch(`${gateway}/${hash}`, {
+        headers: { 'Accept': 'application/json' },
+        signal: AbortSignal.timeout(8000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      return await response.json() as DisputeEvidence;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error('Unknown error');
+      console.warn(`Failed to fetch evidence from ${gateway}:`, lastError.message);
+    }
+  }
+
+  throw lastError || new Error('Failed to fetch evidence from all IPFS gateways');
+};
+
+export type RoleRequestRole = 'farmer' | 'transporter';
+
+export interface RoleRequest {
+  applicant: string;
+  role: RoleRequestRole;
+  farmName: string; // Farm or company name
+  registrationNumber: string; // Business or cooperative registration number
+  contactEmail: string;
+  notes: string;
+  documents: string[]; // IPFS URIs of supporting documents
+  submittedAt: number; // Unix timestamp
+  signature: `0x${string}`; // applicant's signature over getRoleRequestMessage
+}
+
+export interface RoleRequestDecision {
+  requestUri: string;
+  applicant: string;
+  role: RoleRequestRole;
+  decision: 'approved' | 'rejected';
+  reason: string;
+  decidedBy: string;
+  decidedAt: number; // Unix timestamp
+  signature: `0x${string}`; // decidedBy's signature over getRoleDecisionMessage
+}
+
+const ROLE_REQUEST_TYPE = 'role-request';
+const ROLE_DECISION_TYPE = 'role-request-decision';
+
+// Helper function to pin a role request record, or keep it in localStorage when IPFS is mocked
+const pinRoleRecord = async (
+  type: string,
+  content: RoleRequest | RoleRequestDecision,
+  keyvalues: Record<string, string>
+): Promise<string> => {
+  if (shouldUseMockIPFS()) {
+    const mockHash = generateMockHash();
+    localStorage.setItem(`ipfs_${type}_${mockHash}`, JSON.stringify(content));
+    return `ipfs://${mockHash}`;
+  }
+
+  const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'pinata_api_key': IPFS_CONFIG.PINATA_API_KEY,
+      'pinata_secret_api_key': IPFS_CONFIG.PINATA_SECRET_API_KEY,
+    },
+    body: JSON.stringify({
+      pinataContent: content,
+      pinataMetadata: {
+        name: `greenledger-${type}-${content.applicant}`,
+        keyvalues: {
+          app: 'greenledger',
+          type,
+          ...keyvalues,
+          timestamp: new Date().toISOString()
+        }
+      }
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`IPFS ${type} upload failed: HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return `ipfs://${data.IpfsHash}`;
+};
+
+// Helper function to list the pinned records of one type as [uri, content] pairs,
+// only those of one applicant when given
+const listRoleRecords = async <T extends { applicant: string }>(type: string, applicant?: string): Promise<[string, T][]> => {
+  if (shouldUseMockIPFS()) {
+    const prefix = `ipfs_${type}_`;
+    return Object.keys(localStorage)
+      .filter(key => key.startsWith(prefix))
+      .map((key): [string, T] => [`ipfs://${key.slice(prefix.length)}`, JSON.parse(localStorage.getItem(key)!) as T])
+      .filter(([, record]) => !applicant || record.applicant.toLowerCase() === applicant.toLowerCase());
+  }
+
+  const query = new URLSearchParams({
+    status: 'pinned',
+    pageLimit: '1000',
+    'metadata[keyvalues]': JSON.stringify({
+      type: { value: type, op: 'eq' },
+      ...(applicant ? { applicant: { value: applicant.toLowerCase(), op: 'eq' } } : {}),
+    }),
+  });
+  const response = await fetch(`https://api.pinata.cloud/data/pinList?${query}`, {
+    headers: {
+      'pinata_api_key': IPFS_CONFIG.PINATA_API_KEY,
+      'pinata_secret_api_key': IPFS_CONFIG.PINATA_SECRET_API_KEY,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to list ${type} records: HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data: { rows: { ipfs_pin_hash: string }[] } = await response.json();
+  const gateways = [IPFS_CONFIG.GATEWAY, ...IPFS_CONFIG.FALLBACK_GATEWAYS];
+
+  const records = await Promise.all(data.rows.map(async (row): Promise<[string, T] | null> => {
+    for (const gateway of gateways) {
+      try {
+        const recordResponse = await fetch(`${gateway}/${row.ipfs_pin_hash}`, {
+          headers: { 'Accept': 'application/json' },
+          signal: AbortSignal.timeout(8000),
+        });
+        if (recordResponse.ok) {
+          return [`ipfs://${row.ipfs_pin_hash}`, await recordResponse.json() as T];
+        }
+      } catch (error) {
+        console.warn(`Failed to fetch ${type} record from ${gateway}:`, error);
+      }
+    }
+    return null;
+  }));
+
+  return records.filter((record): record is [string, T] => record !== null);
+};
+
+/**
+ * Upload a role request's supporting documents to IPFS, returning their URIs
+ * Automatically uses mock IPFS if API keys are not configured
+ */
+export const uploadRoleRequestDocuments = async (files: File[]): Promise<string[]> => {
+  const useMock = shouldUseMockIPFS();
+  return Promise.all(files.map(file => (useMock ? mockUploadFile(file) : uploadFileToIPFS(file))));
+};
+
+/**
+ * The message an applicant signs for a request. Anyone holding the Pinata key can pin
+ * a request, so readers only trust requests signed by their applicant.
+ */
+export const getRoleRequestMessage = (request: Omit<RoleRequest, 'signature'>): string => {
+  return [
+    'GreenLedger role request',
+    `Applicant: ${request.applicant.toLowerCase()}`,
+    `Role: ${request.role}`,
+    `Farm or company: ${request.farmName}`,
+    `Registration number: ${request.registrationNumber}`,
+    `Contact email: ${request.contactEmail}`,
+    `Notes: ${request.notes}`,
+    `Documents: ${request.documents.join(', ')}`,
+    `Submitted at: ${request.submittedAt}`,
+  ].join('\n');
+};
+
+/**
+ * Record an applicant's signed role request (KYC details + document URIs) on IPFS
+ */
+export const uploadRoleRequest = async (request: RoleRequest): Promise<string> => {
+  return pinRoleRecord(ROLE_REQUEST_TYPE, request, {
+    applicant: request.applicant.toLowerCase(),
+    role: request.role,
+  });
+};
+
+/**
+ * The message an admin signs for a decision. Anyone holding the Pinata key can pin a
+ * decision record, so readers only trust records signed by a current admin.
+ */
+export const getRoleDecisionMessage = (decision: Omit<RoleRequestDecision, 'signature'>): string => {
+  return [
+    'GreenLedger role request decision',
+    `Request: ${decision.requestUri}`,
+    `Applicant: ${decision.applicant.toLowerCase()}`,
+    `Role: ${decision.role}`,
+    `Decision: ${decision.decision}`,
+    `Reason: ${decision.reason}`,
+    `Decided by: ${decision.decidedBy.toLowerCase()}`,
+    `Decided at: ${decision.decidedAt}`,
+  ].join('\n');
+};
+
+/**
+ * Record an admin's signed decision on a role request on IPFS
+ */
+export const uploadRoleRequestDecision = async (decision: RoleRequestDecision): Promise<string> => {
+  return pinRoleRecord(ROLE_DECISION_TYPE, decision, {
+    applicant: decision.applicant.toLowerCase(),
+    requestUri: decision.requestUri,
+    decision: decision.decision,
+  });
+};
+
+/**
+ * Fetch the role requests and decisions pinned by the app, only one applicant's when given
+ */
+export const fetchRoleRequestRecords = async (applicant?: string): Promise<{
+  requests: { uri: string; request: RoleRequest }[];
+  decisions: RoleRequestDecision[];
+}> => {
+  const [requests, decisions] = await Promise.all([
+    listRoleRecords<RoleRequest>(ROLE_REQUEST_TYPE, applicant),
+    listRoleRecords<RoleRequestDecision>(ROLE_DECISION_TYPE, applicant),
+  ]);
+
+  return {
+    requests: requests.map(([uri, request]) => ({ uri, request })),
+    decisions: decisions.map(([, decision]) => decision),
+  };
+};
@@ -0,0 +1,130 @@
+/**
+ * Sub-lots
+ * Derives how a crop batch was split up from its transfer events. A batch is a
+ * single token id whose supply is its weight in kg, so a partial sale or
+ * transfer of N kg is recorded as a child lot of the lot it was drawn from,
+ * all the way back to the lot minted at harvest
+ */
+
+import { zeroAddress } from 'viem';
+import type { IndexedEvent } from './eventIndexer';
+
+export interface SubLot {
+  id: string; // Dotted path from the harvest lot, e.g. "12.1.2" is the second lot split from "12.1"
+  tokenId: number;
+  parentId: string | null;
+  holder: string;
+  quantity: number; // kg the lot started with
+  remaining: number; // kg still held, i.e. not split off into child lots or burned
+  transactionHash: string;
+  timestamp: number; // Milliseconds
+  children: SubLot[];
+}
+
+// Helper function to read how many kg of a token a transfer event moved
+const getTransferAmount = (event: IndexedEvent, tokenId: number): number => {
+  if (event.eventName === 'TransferSingle') {
+    return Number(event.args.value);
+  }
+
+  const index = (event.args.ids as readonly bigint[]).findIndex(id => Number(id) === tokenId);
+  return index === -1 ? 0 : Number((event.args.values as readonly bigint[])[index]);
+};
+
+/**
+ * Build the lot tree of one token from its TransferSingle and TransferBatch
+ * events, oldest first. Every mint starts a root lot; every transfer draws
+ * from the sender's oldest lots that still have kg left and becomes a child
+ * of each lot it drew from.
+ */
+export const buildSubLotTree = (
+  tokenId: number,
+  events: IndexedEvent[],
+  timestamps: Map<number, number>
+): SubLot[] => {
+  const roots: SubLot[] = [];
+  const openLots = new Map<string, SubLot[]>(); // Holder -> lots with kg left, oldest first
+
+  const addLot = (parent: SubLot | null, holder: string, quantity: number, event: IndexedEvent) => {
+    const siblings = parent ? parent.children : roots;
+    const lot: SubLot = {
+      id: parent ? `${parent.id}.${siblings.length + 1}` : siblings.length === 0 ? `${tokenId}` : `${tokenId}-${siblings.length + 1}`,
+      tokenId,
+      parentId: parent ? parent.id : null,
+      holder,
+      quantity,
+      remaining: quantity,
+      transactionHash: event.transactionHash,
+      timestamp: timestamps.get(event.blockNumber) || 0,
+      children: [],
+    };
+    siblings.push(lot);
+
+    const lots = openLots.get(holder.toLowerCase()) || [];
+    lots.push(lot);
+    openLots.set(holder.toLowerCase(), lots);
+  };
+
+  events
+    .filter(event => event.eventName === 'TransferSingle' || event.eventName === 'TransferBatch')
+    .forEach(event => {
+      const amount = getTransferAmount(event, tokenId);
+      const from = event.args.from as string;
+      const to = event.args.to as string;
+      if (amount <= 0 || from.toLowerCase() === to.toLowerCase()) return;
+
+      if (from === zeroAddress) {
+        addLot(null, to, amount, event);
+        return;
+      }
+
+      const senderLots = openLots.get(from.toLowerCase()) || [];
+      let left = amount;
+      while (left > 0 && senderLots.length > 0) {
+        const parent = senderLots[0];
+        const drawn = Math.min(left, parent.remaining);
+        parent.remaining -= drawn;
+        left -= drawn;
+        if (parent.remaining === 0) senderLots.shift();
+
+        // Burned kg leave the tree without a child lot
+        if (to !== zeroAddress) addLot(parent, to, drawn, event);
+      }
+    });
+
+  return roots;
+};
+
+/**
+ * Lots a holder still has kg in, oldest first
+ */
+export const findHolderLots = (roots: SubLot[], holder: string): SubLot[] => {
+  const lots: SubLot[] = [];
+  const visit = (lot: SubLot) => {
+    if (lot.remaining > 0 && lot.holder.toLowerCase() === holder.toLowerCase()) lots.push(lot);
+    lot.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return lots.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Path from the harvest lot down to a lot, both included; empty if the lot is not in the tree
+ */
+export const getLotLineage = (roots: SubLot[], lotId: string): SubLot[] => {
+  const find = (lot: SubLot, path: SubLot[]): SubLot[] | null => {
+    const current = [...path, lot];
+    if (lot.id === lotId) return current;
+    for (const child of lot.children) {
+      const found = find(child, current);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  for (const root of roots) {
+    const found = find(root, []);
+    if (found) return found;
+  }
+  return [];
+};
@@ -0,0 +1,237 @@
+/**
+ * Batched Token Reads
+ * Reads per-token contract state for many token ids with multicall, split into
+ * pages so a single request stays within what the RPC endpoint accepts
+ */
+
+import type { Abi, Address, PublicClient } from 'viem';
+import { CONTRACT_ADDRESSES } from '../config/constants';
+import type { ProvenanceRecord } from '../hooks/useSupplyChainManager';
+import CropBatchTokenABI from '../contracts/CropBatchToken.json';
+import SupplyChainManagerABI from '../contracts/SupplyChainManager.json';
+
+// Calls bundled into one multicall request
+const MULTICALL_PAGE_SIZE = 100;
+
+// Ids bundled into one balanceOfBatch call
+const BALANCE_PAGE_SIZE = 200;
+
+export interface BatchDetails {
+  cropType: string;
+  quantity: number;
+  originFarm: string;
+  harvestDate: number;
+  notes: string;
+  metadataUri: string;
+}
+
+export interface BalanceQuery {
+  account: string;
+  tokenId: number;
+}
+
+export interface RoyaltyQuery {
+  tokenId: number;
+  salePrice: bigint;
+}
+
+export interface RoyaltyQuote {
+  receiver: string;
+  amount: bigint;
+}
+
+export interface ContractRead {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+export type ContractReadResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: Error; result?: undefined };
+
+interface TokenRead {
+  address: string;
+  abi: Abi;
+  functionName: string;
+}
+
+// Helper function to split a list into fixed-size pages
+const toPages = <T>(items: T[], pageSize: number): T[][] => {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += pageSize) {
+    pages.push(items.slice(i, i + pageSize));
+  }
+  return pages;
+};
+
+/**
+ * Multicall with failures reported per call. The JSON ABIs are only typed as Abi,
+ * and inferring multicall's result types from that overflows the compiler, so
+ * results come back as unknown for the caller to narrow.
+ */
+export const multicallContracts = (client: PublicClient, contracts: ContractRead[]): Promise<ContractReadResult[]> => {
+  const multicall = client.multicall as unknown as (parameters: {
+    allowFailure: true;
+    contracts: ContractRead[];
+  }) => Promise<ContractReadResult[]>;
+  return multicall({ allowFailure: true, contracts });
+};
+
+// Helper function to run one single-argument read per token id, a page of calls per request.
+// Calls that revert (e.g. for a token that does not exist) are left out of the result.
+const readPerToken = async <T>(
+  client: PublicClient,
+  tokenIds: number[],
+  read: TokenRead,
+  parse: (result: unknown) => T
+): Promise<Map<number, T>> => {
+  const results = new Map<number, T>();
+
+  for (const page of toPages(Array.from(new Set(tokenIds)), MULTICALL_PAGE_SIZE)) {
+    const responses = await multicallContracts(client, page.map(tokenId => ({
+      address: read.address as Address,
+      abi: read.abi,
+      functionName: read.functionName,
+      args: [BigInt(tokenId)],
+    })));
+
+    responses.forEach((response, index) => {
+      if (response.status === 'success') {
+        results.set(page[index], parse(response.result));
+      }
+    });
+  }
+
+  return results;
+};
+
+/**
+ * batchDetails for each token id
+ */
+export const readBatchDetails = (client: PublicClient, tokenIds: number[]): Promise<Map<number, BatchDetails>> => {
+  return readPerToken<BatchDetails>(
+    client,
+    tokenIds,
+    { address: CONTRACT_ADDRESSES.CropBatchToken, abi: CropBatchTokenABI as Abi, functionName: 'batchDetails' },
+    result => {
+      const [cropType, quantity, originFarm, harvestDate, notes, metadataUri] = result as readonly unknown[];
+      return {
+        cropType: cropType as string,
+        quantity: Number(quantity),
+        originFarm: originFarm as string,
+        harvestDate: Number(harvestDate),
+        notes: notes as string,
+        metadataUri: metadataUri as string,
+      };
+    }
+  );
+};
+
+/**
+ * Whether each token id has been minted and still has supply
+ */
+export const readTokensExist = (client: PublicClient, tokenIds: number[]): Promise<Map<number, boolean>> => {
+  return readPerToken<boolean>(
+    client,
+    tokenIds,
+    { address: CONTRACT_ADDRESSES.CropBatchToken, abi: CropBatchTokenABI as Abi, functionName: 'exists' },
+    result => Boolean(result)
+  );
+};
+
+/**
+ * Whether each token's metadata URI has been frozen
+ */
+export const readMetadataFrozen = (client: PublicClient, tokenIds: number[]): Promise<Map<number, boolean>> => {
+  return readPerToken<boolean>(
+    client,
+    tokenIds,
+    { address: CONTRACT_ADDRESSES.CropBatchToken, abi: CropBatchTokenABI as Abi, functionName: 'isMetadataFrozen' },
+    result => Boolean(result)
+  );
+};
+
+/**
+ * Provenance record for each token id; tokens without provenance are left out
+ */
+export const readProvenanceRecords = (client: PublicClient, tokenIds: number[]): Promise<Map<number, ProvenanceRecord>> => {
+  return readPerToken<ProvenanceRecord>(
+    client,
+    tokenIds,
+    { address: CONTRACT_ADDRESSES.SupplyChainManager, abi: SupplyChainManagerABI as Abi, functionName: 'getProvenanceHistory' },
+    (result): ProvenanceRecord => {
+      const record = result as readonly unknown[];
+      return {
+        tokenId: record[0] as bigint,
+        originalFarmer: record[1] as string,
+        creationTime: record[2] as bigint,
+        currentState: Number(record[3]),
+        currentOwner: record[4] as string,
+        totalSteps: record[5] as bigint,
+      };
+    }
+  );
+};
+
+/**
+ * Balances for many (account, token id) pairs, in the order given.
+ * Pairs are packed into balanceOfBatch calls, which are themselves multicalled.
+ */
+export const readBalances = async (client: PublicClient, queries: BalanceQuery[]): Promise<bigint[]> => {
+  const balances: bigint[] = [];
+  const balancePages = toPages(queries, BALANCE_PAGE_SIZE);
+
+  for (const requestPage of toPages(balancePages, MULTICALL_PAGE_SIZE)) {
+    const responses = await multicallContracts(client, requestPage.map(balancePage => ({
+      address: CONTRACT_ADDRESSES.CropBatchToken as Address,
+      abi: CropBatchTokenABI as Abi,
+      functionName: 'balanceOfBatch',
+      args: [
+        balancePage.map(query => query.account),
+        balancePage.map(query => BigInt(query.tokenId)),
+      ],
+    })));
+
+    responses.forEach(response => {
+      if (response.status === 'failure') throw response.error;
+      balances.push(...(response.result as readonly bigint[]));
+    });
+  }
+
+  return balances;
+};
+
+/**
+ * ERC-2981 royalty for many (token id, sale price) pairs, in the order given
+ */
+export const readRoyaltyInfo = async (client: PublicClient, queries: RoyaltyQuery[]): Promise<RoyaltyQuote[]> => {
+  const quotes: RoyaltyQuote[] = [];
+
+  for (const page of toPages(queries, MULTICALL_PAGE_SIZE)) {
+    const responses = await multicallContracts(client, page.map(query => ({
+      address: CONTRACT_ADDRESSES.CropBatchToken as Address,
+      abi: CropBatchTokenABI as Abi,
+      functionName: 'royaltyInfo',
+      args: [BigInt(query.tokenId), query.salePrice],
+    })));
+
+    responses.forEach(response => {
+      if (response.status === 'failure') throw response.error;
+      const [receiver, amount] = response.result as readonly [string, bigint];
+      quotes.push({ receiver, amount });
+    });
+  }
+
+  return quotes;
+};
+
+/**
+ * Royalty a seller owes on a sale. Nothing is owed when the seller is the
+ * royalty receiver, i.e. on the original farmer's own sales.
+ */
+export const getRoyaltyOwed = (quote: RoyaltyQuote | null | undefined, seller: string): bigint => {
+  if (!quote || quote.amount === 0n) return 0n;
+  return quote.receiver.toLowerCase() === seller.toLowerCase() ? 0n : quote.amount;
+};
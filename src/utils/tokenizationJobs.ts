@@ -0,0 +1,88 @@
+/**
+ * Tokenization job persistence
+ * Records each step of a single-batch tokenization in localStorage so an
+ * interrupted job can resume from its last completed step after a reload
+ */
+
+import type { Hash } from 'viem';
+import type { CropBatchMetadataParams } from './ipfs';
+
+const JOBS_KEY_PREFIX = 'greenledger_tokenization_jobs_';
+
+/**
+ * Steps run in this order; each one is recorded once it has completed.
+ * Transactions are recorded as soon as they are submitted, so a reload
+ * while one is confirming waits for it instead of sending it again.
+ */
+export type TokenizationStep =
+  | 'created'
+  | 'imageUploaded'
+  | 'metadataUploaded'
+  | 'mintSubmitted'
+  | 'minted'
+  | 'provenanceSubmitted'
+  | 'completed';
+
+export interface TokenizationJob {
+  id: string;
+  step: TokenizationStep;
+  params: CropBatchMetadataParams;
+  imageName: string; // The image cannot be stored, so it must be chosen again if the upload never finished
+  imageUri?: string;
+  metadataUri?: string;
+  mintTxHash?: Hash;
+  tokenId?: number;
+  provenanceTxHash?: Hash;
+  provenanceLocation: string;
+  provenanceNotes: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Helper function to build the storage key for an account's jobs
+const getJobsKey = (account: string): string => `${JOBS_KEY_PREFIX}${account.toLowerCase()}`;
+
+/**
+ * Load an account's unfinished tokenization jobs, oldest first
+ */
+export const loadTokenizationJobs = (account: string): TokenizationJob[] => {
+  try {
+    const stored = localStorage.getItem(getJobsKey(account));
+    if (!stored) return [];
+
+    const jobs: TokenizationJob[] = JSON.parse(stored);
+    return jobs.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.warn('Failed to load tokenization jobs:', error);
+    return [];
+  }
+};
+
+/**
+ * Insert or replace a job
+ */
+export const saveTokenizationJob = (account: string, job: TokenizationJob): void => {
+  try {
+    const jobs = loadTokenizationJobs(account).filter(item => item.id !== job.id);
+    localStorage.setItem(getJobsKey(account), JSON.stringify([...jobs, job]));
+  } catch (error) {
+    console.warn('Failed to save tokenization job:', error);
+  }
+};
+
+/**
+ * Remove a job once it has completed or been abandoned
+ */
+export const removeTokenizationJob = (account: string, jobId: string): void => {
+  try {
+    const jobs = loadTokenizationJobs(account).filter(item => item.id !== jobId);
+    if (jobs.length > 0) {
+      localStorage.setItem(getJobsKey(account), JSON.stringify(jobs));
+    } else {
+      localStorage.removeItem(getJobsKey(account));
+    }
+  } catch (error) {
+    console.warn('Failed to remove tokenization job:', error);
+  }
+};
@@ -0,0 +1,89 @@
+/**
+ * Transport quote helpers
+ *
+ * Follows the cost model in docs/PAYMENT_SYSTEM.md:
+ *   Total = Crop Cost + Transport Cost + Marketplace Fee
+ *   Marketplace Fee = Crop Cost × Fee Percentage
+ *
+ * No amount is computed here: crop cost and fee are read from
+ * Marketplace.calculateTotalPrice and transport costs from
+ * TransportationManager.calculateTransportationCost, so quotes always match what
+ * the contracts charge. The helpers below estimate the distance the transport
+ * view is given. All amounts are in wei.
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Straight-line distance understates road distance; scale it to a rough driving estimate
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+// Crop types that need cold-chain transport
+const PERISHABLE_KEYWORDS = [
+  'tomato', 'vegetable', 'fruit', 'berr', 'avocado', 'mango', 'banana', 'spinach', 'kale',
+  'lettuce', 'cabbage', 'milk', 'dairy', 'fish', 'meat', 'flower', 'herb',
+];
+
+/**
+ * Whether a crop type should travel refrigerated
+ */
+export const isPerishableCrop = (cropType: string): boolean => {
+  const normalized = (cropType || '').toLowerCase();
+  return PERISHABLE_KEYWORDS.some(keyword => normalized.includes(keyword));
+};
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export const haversineKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const earthRadiusKm = 6371;
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return earthRadiusKm * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Estimated road distance between two points, rounded up to whole kilometres
+ */
+export const estimateRoadDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  return Math.max(1, Math.ceil(haversineKm(from, to) * ROAD_DISTANCE_FACTOR));
+};
+
+/**
+ * Resolve a free-text address to coordinates using OpenStreetMap Nominatim.
+ * The address is sent from the browser to a public third-party service, so
+ * callers only do this once the user has agreed to it.
+ */
+export const geocodeAddress = async (address: string): Promise<GeoPoint | null> => {
+  if (!address.trim()) return null;
+
+  try {
+    const response = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=json&limit=1&q=${encodeURIComponent(address.trim())}`,
+      { headers: { Accept: 'application/json' } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Geocoding failed: ${response.status} ${response.statusText}`);
+    }
+
+    const results = await response.json();
+    if (!Array.isArray(results) || results.length === 0) return null;
+
+    return {
+      latitude: parseFloat(results[0].lat),
+      longitude: parseFloat(results[0].lon),
+    };
+  } catch (error) {
+    console.warn(`Failed to geocode "${address}":`, error);
+    return null;
+  }
+};
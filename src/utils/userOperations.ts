@@ -0,0 +1,249 @@
+/**
+ * Sponsored User Operations
+ * Sends contract writes as ERC-4337 user operations from the connected wallet's
+ * smart account, with gas paid by the GreenLedgerPaymaster
+ */
+
+import { encodeFunctionData, http, type EncodeFunctionDataParameters, toFunctionSelector, type Abi, type Client, type PublicClient, type WalletClient, type Hash } from 'viem';
+import {
+  createBundlerClient,
+  entryPoint07Abi,
+  toSoladySmartAccount,
+  type ToSoladySmartAccountReturnType,
+} from 'viem/account-abstraction';
+import { CONTRACT_ADDRESSES, SPONSORSHIP_CONFIG } from '../config/constants';
+import { formatAddress } from './index';
+import GreenLedgerPaymasterABI from '../contracts/GreenLedgerPaymaster.json';
+import CropBatchTokenABI from '../contracts/CropBatchToken.json';
+import SupplyChainManagerABI from '../contracts/SupplyChainManager.json';
+import MarketplaceABI from '../contracts/Marketplace.json';
+import OrderManagerABI from '../contracts/OrderManager.json';
+
+export interface ContractCall {
+  address: string;
+  abi: Abi;
+  functionName: string;
+  args: unknown[];
+}
+
+export type SmartAccount = ToSoladySmartAccountReturnType;
+
+export interface KnownOperation {
+  selector: `0x${string}`;
+  contract: string;
+  functionName: string;
+}
+
+export interface SponsorshipCheck {
+  sponsored: boolean;
+  reason?: string; // Why the paymaster will not cover this call
+  // The call only works from the wallet itself (it needs the wallet's tokens or roles),
+  // so sending it directly is the expected path rather than a failed sponsorship
+  walletOnly?: boolean;
+}
+
+const PAYMASTER_ADDRESS = CONTRACT_ADDRESSES.GreenLedgerPaymaster as `0x${string}`;
+
+// Helper function to read a value from the paymaster
+const readPaymaster = <T>(client: PublicClient, functionName: string, args: readonly unknown[] = []): Promise<T> => {
+  return client.readContract({
+    address: PAYMASTER_ADDRESS,
+    abi: GreenLedgerPaymasterABI,
+    functionName,
+    args,
+  }) as Promise<T>;
+};
+
+// Helper function to pull the most readable message out of a viem error
+const getShortMessage = (error: unknown): string => {
+  if (!(error instanceof Error)) return 'unknown error';
+  const { shortMessage, details } = error as Error & { shortMessage?: string; details?: string };
+  return shortMessage || details || error.message || 'unknown error';
+};
+
+/**
+ * Whether the user rejected a signature or transaction request in their wallet.
+ * A rejection is the user's decision and must not trigger a fallback transaction.
+ */
+export const isUserRejection = (error: unknown): boolean => {
+  let current: unknown = error;
+  while (current && typeof current === 'object') {
+    const { name, code, cause } = current as { name?: unknown; code?: unknown; cause?: unknown };
+    if (name === 'UserRejectedRequestError' || code === 4001) return true;
+    current = cause;
+  }
+  return false;
+};
+
+// Helper function to encode a call's calldata. With a plain Abi viem cannot narrow the
+// function name, so the parameters are passed in their widened form.
+const encodeCall = (call: ContractCall): `0x${string}` =>
+  encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args } as EncodeFunctionDataParameters);
+
+/**
+ * The 4-byte selector the paymaster checks against its allowed operations
+ */
+export const getCallSelector = (call: ContractCall): `0x${string}` => {
+  return encodeCall(call).slice(0, 10) as `0x${string}`;
+};
+
+/**
+ * Every state-changing function of the app's contracts by selector, so paymaster
+ * rules (which only store selectors) can be shown and edited by name
+ */
+export const getKnownOperations = (): KnownOperation[] => {
+  const contracts: Record<string, Abi> = {
+    CropBatchToken: CropBatchTokenABI as Abi,
+    SupplyChainManager: SupplyChainManagerABI as Abi,
+    Marketplace: MarketplaceABI as Abi,
+    OrderManager: OrderManagerABI as Abi,
+  };
+
+  return Object.entries(contracts).flatMap(([contract, abi]) =>
+    abi.flatMap(item =>
+      item.type === 'function' && item.stateMutability !== 'view' && item.stateMutability !== 'pure'
+        ? [{ selector: toFunctionSelector(item), contract, functionName: item.name }]
+        : []
+    )
+  );
+};
+
+/**
+ * The smart account owned by the connected wallet. Its address is counterfactual,
+ * so the account is deployed by its first user operation.
+ */
+export const getSmartAccount = async (walletClient: WalletClient, publicClient: PublicClient): Promise<SmartAccount> => {
+  const entryPointAddress = await readPaymaster<`0x${string}`>(publicClient, 'entryPoint');
+
+  return toSoladySmartAccount({
+    client: walletClient as Client,
+    owner: walletClient.account!,
+    entryPoint: { address: entryPointAddress, abi: entryPoint07Abi, version: '0.7' },
+    factoryAddress: (SPONSORSHIP_CONFIG.SMART_ACCOUNT_FACTORY || undefined) as `0x${string}` | undefined,
+  });
+};
+
+// Smart account address per owner wallet, resolved once
+const smartAccountAddresses = new Map<string, Promise<`0x${string}`>>();
+
+/**
+ * The address of the connected wallet's smart account, which is msg.sender of every
+ * sponsored write. It never changes for a given factory, so it is cached per wallet.
+ */
+export const getSmartAccountAddress = (walletClient: WalletClient, publicClient: PublicClient): Promise<`0x${string}`> => {
+  const owner = walletClient.account!.address.toLowerCase();
+  const cached = smartAccountAddresses.get(owner);
+  if (cached) return cached;
+
+  const resolving = getSmartAccount(walletClient, publicClient).then(account => account.address);
+  // Allow a retry if the lookup failed (e.g. the RPC was unreachable)
+  resolving.catch(() => smartAccountAddresses.delete(owner));
+  smartAccountAddresses.set(owner, resolving);
+  return resolving;
+};
+
+/**
+ * Checks the paymaster rules for a call before asking the user to sign anything.
+ * The call is also simulated from the smart account, since that account - not the
+ * wallet - becomes msg.sender and must hold the roles and tokens the call needs.
+ */
+export const checkSponsorship = async (
+  publicClient: PublicClient,
+  smartAccountAddress: `0x${string}`,
+  call: ContractCall
+): Promise<SponsorshipCheck> => {
+  // Checked first: a call that needs the wallet's own tokens or roles is never sponsorable,
+  // whatever the paymaster rules say
+  try {
+    await publicClient.simulateContract({
+      account: smartAccountAddress,
+      address: call.address as `0x${string}`,
+      abi: call.abi,
+      functionName: call.functionName,
+      args: call.args,
+    });
+  } catch (error) {
+    return {
+      sponsored: false,
+      reason: `your smart account cannot make this call (${getShortMessage(error)})`,
+      walletOnly: true,
+    };
+  }
+
+  const [operationAllowed, senderAllowed, deposit] = await Promise.all([
+    readPaymaster<boolean>(publicClient, 'allowedOperations', [getCallSelector(call)]),
+    readPaymaster<boolean>(publicClient, 'allowedSenders', [smartAccountAddress]),
+    readPaymaster<bigint>(publicClient, 'getDeposit'),
+  ]);
+
+  if (!operationAllowed) {
+    return { sponsored: false, reason: `${call.functionName} is not on the paymaster's list of sponsored operations` };
+  }
+
+  if (!senderAllowed) {
+    return { sponsored: false, reason: `your smart account ${formatAddress(smartAccountAddress)} is not approved for sponsorship` };
+  }
+
+  if (deposit === 0n) {
+    return { sponsored: false, reason: 'the paymaster has run out of gas deposit' };
+  }
+
+  return { sponsored: true };
+};
+
+/**
+ * Sends calls as one paymaster-sponsored user operation and waits for it to be bundled.
+ * The smart account executes them in order and atomically: if one reverts, none apply.
+ * Returns the hash of the bundle transaction that included it.
+ */
+export const sendSponsoredCalls = async (
+  publicClient: PublicClient,
+  account: SmartAccount,
+  calls: ContractCall[]
+): Promise<Hash> => {
+  const paymasterFields = {
+    paymaster: PAYMASTER_ADDRESS,
+    paymasterData: '0x' as const,
+    paymasterVerificationGasLimit: SPONSORSHIP_CONFIG.PAYMASTER_VERIFICATION_GAS_LIMIT,
+    paymasterPostOpGasLimit: SPONSORSHIP_CONFIG.PAYMASTER_POST_OP_GAS_LIMIT,
+  };
+
+  const bundlerClient = createBundlerClient({
+    account,
+    client: publicClient as Client,
+    transport: http(SPONSORSHIP_CONFIG.BUNDLER_URL),
+    // The paymaster takes no signed data; it decides from the sender and the call selector alone
+    paymaster: {
+      getPaymasterStubData: async () => paymasterFields,
+      getPaymasterData: async () => paymasterFields,
+    },
+  });
+
+  // Resolving sendUserOperation's parameter union needs strictNullChecks, which this
+  // project does not enable, so the method is typed as the one form used here
+  const sendUserOperation = bundlerClient.sendUserOperation as unknown as (parameters: {
+    calls: { to: `0x${string}`; data: `0x${string}` }[];
+  }) => Promise<Hash>;
+
+  const userOpHash = await sendUserOperation({
+    calls: calls.map(call => ({ to: call.address as `0x${string}`, data: encodeCall(call) })),
+  });
+
+  const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOpHash });
+  if (!receipt.success) {
+    throw new Error(receipt.reason || 'Sponsored operation reverted');
+  }
+
+  return receipt.receipt.transactionHash;
+};
+
+/**
+ * Sends a single call as a paymaster-sponsored user operation
+ */
+export const sendSponsoredCall = (
+  publicClient: PublicClient,
+  account: SmartAccount,
+  call: ContractCall
+): Promise<Hash> => {
+  return sendSponsoredCalls(publicClient, account, [call]);
+};
@@ -7,6 +7,9 @@ interface ImportMetaEnv {
     readonly VITE_WALLETCONNECT_PROJECT_ID: string;
     readonly VITE_DEBUG: string;
     readonly VITE_NODE_ENV: string;
+    readonly VITE_INDEXER_START_BLOCK?: string;
+    readonly VITE_BUNDLER_URL?: string;
+    readonly VITE_SMART_ACCOUNT_FACTORY_ADDRESS?: string;
     // Add any other VITE_ variables you use
   }
   